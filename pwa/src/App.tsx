@@ -68,6 +68,7 @@ export default function App() {
   const {
     state,
     hydrated,
+    loadError,
     addTask,
     completeActiveTask,
     addTime,
@@ -580,6 +581,12 @@ export default function App() {
         }}
       />
 
+      {loadError ? (
+        <div className="fixed inset-x-4 top-4 z-50 rounded-md border border-red-500 bg-red-500/15 px-4 py-3 text-sm text-red-300 shadow-lg">
+          {loadError}
+        </div>
+      ) : null}
+
       {errorMessage ? (
         <div className="fixed bottom-4 left-1/2 z-50 -translate-x-1/2 rounded-md border border-brand-coral bg-brand-coral/15 px-4 py-2 text-sm text-brand-coral shadow-lg">
           {errorMessage}
@@ -0,0 +1,69 @@
+import { AppState, Task } from './types';
+
+/**
+ * Version of the persisted state layout. Bump it together with a new entry in
+ * MIGRATIONS whenever a change needs more than a default value for a missing field.
+ */
+export const CURRENT_SCHEMA_VERSION = 1;
+
+export type PersistedState = Partial<AppState> & { schemaVersion?: number };
+
+interface Migration {
+  version: number;
+  description: string;
+  migrate: (state: PersistedState) => PersistedState;
+}
+
+export class SchemaVersionError extends Error {
+  readonly fileVersion: number;
+  readonly supportedVersion: number;
+
+  constructor(fileVersion: number, supportedVersion: number = CURRENT_SCHEMA_VERSION) {
+    super(
+      `This data was saved by a newer version of TimeBound (schema ${fileVersion}, this build supports ${supportedVersion}). ` +
+        'Please update TimeBound to open it.'
+    );
+    this.name = 'SchemaVersionError';
+    this.fileVersion = fileVersion;
+    this.supportedVersion = supportedVersion;
+  }
+}
+
+// Ordered oldest to newest; each step only has to understand the output of the one before it.
+const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'Introduce schemaVersion',
+    migrate: (state) => ({
+      ...state,
+      tasks: (state.tasks ?? []).map((task: Task): Task => ({ ...task, history: task.history ?? [] }))
+    })
+  }
+];
+
+export const getSchemaVersion = (state: PersistedState): number =>
+  typeof state.schemaVersion === 'number' && Number.isFinite(state.schemaVersion) ? state.schemaVersion : 0;
+
+export interface MigrationResult {
+  state: PersistedState;
+  fromVersion: number;
+  applied: number[];
+}
+
+/** Upgrades a persisted blob step by step. Throws SchemaVersionError for files from a newer build. */
+export const migrateState = (raw: PersistedState): MigrationResult => {
+  const fromVersion = getSchemaVersion(raw);
+  if (fromVersion > CURRENT_SCHEMA_VERSION) {
+    throw new SchemaVersionError(fromVersion);
+  }
+  const applied: number[] = [];
+  let state = raw;
+  for (const migration of MIGRATIONS) {
+    if (migration.version <= fromVersion) {
+      continue;
+    }
+    state = { ...migration.migrate(state), schemaVersion: migration.version };
+    applied.push(migration.version);
+  }
+  return { state, fromVersion, applied };
+};
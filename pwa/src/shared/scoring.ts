@@ -0,0 +1,53 @@
+import { ScoreRule, ScoringRules } from './types';
+
+/**
+ * The PWA's own fixed scores: +1 per completion, nothing when the timer strikes, -1 per top-up.
+ * The desktop app defaults to +2 for finishing early and +1 for a strike; the PWA keeps its numbers.
+ */
+export const PWA_SCORING_RULES: ScoringRules = {
+  complete: 1,
+  earlyFinishBonus: 0,
+  earlyFinishPercent: 0,
+  overtime: 0,
+  strike: 0,
+  addTime: -1
+};
+
+export type ScoreEvent =
+  | { type: 'complete'; assignedSeconds?: number; remainingSeconds: number; overrunSeconds: number }
+  | { type: 'strike' }
+  | { type: 'addTime' };
+
+export interface ScoreAward {
+  rule: ScoreRule;
+  delta: number;
+}
+
+const isEarlyFinish = (rules: ScoringRules, assignedSeconds: number | undefined, remainingSeconds: number): boolean =>
+  rules.earlyFinishPercent <= 0 || !assignedSeconds || (remainingSeconds / assignedSeconds) * 100 >= rules.earlyFinishPercent;
+
+/** The rules an event triggers, in booking order. Rules worth 0 points are left out. */
+export const evaluateScoreEvent = (rules: ScoringRules, event: ScoreEvent): ScoreAward[] => {
+  const awards: ScoreAward[] = [];
+  switch (event.type) {
+    case 'complete':
+      awards.push({ rule: 'complete', delta: rules.complete });
+      if (event.overrunSeconds > 0) {
+        awards.push({ rule: 'overtime', delta: rules.overtime });
+      } else if (isEarlyFinish(rules, event.assignedSeconds, event.remainingSeconds)) {
+        awards.push({ rule: 'earlyFinishBonus', delta: rules.earlyFinishBonus });
+      }
+      break;
+    case 'strike':
+      awards.push({ rule: 'strike', delta: rules.strike });
+      break;
+    case 'addTime':
+      awards.push({ rule: 'addTime', delta: rules.addTime });
+      break;
+    default:
+      break;
+  }
+  return awards.filter((award) => award.delta !== 0);
+};
+
+export const sumScoreAwards = (awards: ScoreAward[]): number => awards.reduce((total, award) => total + award.delta, 0);
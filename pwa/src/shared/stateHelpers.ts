@@ -1,8 +1,11 @@
 import { AppState, Task, TaskHistoryEntry } from './types';
+import { CURRENT_SCHEMA_VERSION } from './migrations';
 
-const ISO_DATE_LENGTH = 10;
+const pad = (value: number) => value.toString().padStart(2, '0');
 
-export const toISODateKey = (value: Date): string => value.toISOString().slice(0, ISO_DATE_LENGTH);
+/** Calendar day (YYYY-MM-DD) in the browser's own time zone, so "today" flips at local midnight. */
+export const toLocalDateKey = (value: Date): string =>
+  `${value.getFullYear()}-${pad(value.getMonth() + 1)}-${pad(value.getDate())}`;
 
 const cloneTask = (task: Task): Task => ({
   ...task,
@@ -20,6 +23,7 @@ export const ensureTaskDefaults = (task: Task): Task => {
 };
 
 export const createEmptyState = (appVersion: string, now: Date = new Date()): AppState => ({
+  schemaVersion: CURRENT_SCHEMA_VERSION,
   score: 0,
   tasks: [],
   stats: {
@@ -98,7 +102,7 @@ const autoAdvance = (state: AppState, elapsedSeconds: number, now: Date): AutoAd
           at: completionIso
         }
       ];
-      const todayKey = toISODateKey(new Date(completionIso));
+      const todayKey = toLocalDateKey(new Date(completionIso));
       if (stats.lastCompletionDate === todayKey) {
         stats.todayCompleted += 1;
       } else {
@@ -127,6 +131,7 @@ export const rehydrateState = (
   now: Date = new Date()
 ): AppState => {
   const baseState: AppState = {
+    schemaVersion: CURRENT_SCHEMA_VERSION,
     score: rawState.score ?? 0,
     tasks: rawState.tasks ? rawState.tasks.map(ensureTaskDefaults) : [],
     stats: {
@@ -25,6 +25,19 @@ export interface StatsSnapshot {
   lastCompletionDate?: string;
 }
 
+/** Points booked per scoring event; negative values are penalties. */
+export interface ScoringRules {
+  complete: number;
+  earlyFinishBonus: number;
+  /** Share of the estimate (0-100) that must still be left to earn the bonus; 0 means any time left. */
+  earlyFinishPercent: number;
+  overtime: number;
+  strike: number;
+  addTime: number;
+}
+
+export type ScoreRule = Exclude<keyof ScoringRules, 'earlyFinishPercent'>;
+
 export interface MetaState {
   lastSavedAt: string;
   appVersion: string;
@@ -35,6 +48,7 @@ export interface PreferencesState {
 }
 
 export interface AppState {
+  schemaVersion: number;
   score: number;
   tasks: Task[];
   stats: StatsSnapshot;
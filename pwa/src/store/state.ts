@@ -1,7 +1,9 @@
 import { useCallback, useEffect, useReducer, useRef, useState } from 'react';
 import { v4 as uuid } from 'uuid';
 import type { AppState, Task } from '../../shared/types';
-import { createEmptyState, ensureAlignedTasks } from '../../shared/stateHelpers';
+import { createEmptyState, ensureAlignedTasks, toLocalDateKey } from '../../shared/stateHelpers';
+import { PersistedState, SchemaVersionError, migrateState } from '../../shared/migrations';
+import { PWA_SCORING_RULES, evaluateScoreEvent, sumScoreAwards } from '../../shared/scoring';
 
 const initialState: AppState = createEmptyState('0.0.0');
 
@@ -22,7 +24,7 @@ const findActiveTaskIndex = (tasks: Task[]): number =>
   tasks.findIndex((task) => task.status !== 'completed' && task.status !== 'struck');
 
 const updateStatsOnCompletion = (state: AppState, completionIso: string): AppState['stats'] => {
-  const dateKey = completionIso.slice(0, 10);
+  const dateKey = toLocalDateKey(new Date(completionIso));
   const lastDate = state.stats.lastCompletionDate;
   const todayCompleted = lastDate === dateKey ? state.stats.todayCompleted + 1 : 1;
   return {
@@ -92,6 +94,7 @@ const reducer: Reducer = (state, action) => {
         (tasks[activeIndex].status === 'struck' || tasks[activeIndex].status === 'completed');
       if (becameStruck) {
         updatedState.stats = updateStatsOnCompletion(state, action.now);
+        updatedState.score = state.score + sumScoreAwards(evaluateScoreEvent(PWA_SCORING_RULES, { type: 'strike' }));
       }
       return updatedState;
     }
@@ -120,6 +123,7 @@ const reducer: Reducer = (state, action) => {
         return state;
       }
       const now = action.now;
+      const activeTask = state.tasks[activeIndex];
       const tasks = state.tasks.map((task, index) => {
         if (index !== activeIndex) {
           return task;
@@ -142,9 +146,15 @@ const reducer: Reducer = (state, action) => {
         };
       });
       const aligned = ensureAlignedTasks(tasks);
+      const awards = evaluateScoreEvent(PWA_SCORING_RULES, {
+        type: 'complete',
+        assignedSeconds: activeTask.timeAssignedSeconds,
+        remainingSeconds: Math.max(0, activeTask.remainingSeconds ?? 0),
+        overrunSeconds: 0
+      });
       return {
         ...state,
-        score: state.score + 1,
+        score: state.score + sumScoreAwards(awards),
         stats: updateStatsOnCompletion(state, now),
         tasks: aligned,
         meta: { ...state.meta, lastSavedAt: now }
@@ -165,7 +175,7 @@ const reducer: Reducer = (state, action) => {
           wasFinished && remaining > 0 ? 'in_progress' : task.status === 'completed' || task.status === 'struck' ? task.status : 'in_progress';
 
         if (seconds > 0 && previousAssigned > 0) {
-          scoreDelta -= 1;
+          scoreDelta += sumScoreAwards(evaluateScoreEvent(PWA_SCORING_RULES, { type: 'addTime' }));
         }
 
         return {
@@ -209,7 +219,7 @@ const reducer: Reducer = (state, action) => {
           const candidate = previousRemaining + diff;
           nextRemaining = Math.max(0, candidate);
           if (diff > 0 && previousAssigned > 0) {
-            scoreDelta -= 1;
+            scoreDelta += sumScoreAwards(evaluateScoreEvent(PWA_SCORING_RULES, { type: 'addTime' }));
           }
         } else {
           nextRemaining = undefined;
@@ -287,6 +297,7 @@ const reducer: Reducer = (state, action) => {
 export interface AppStore {
   state: AppState;
   hydrated: boolean;
+  loadError: string | null;
   addTask: (title: string, seconds?: number) => void;
   completeActiveTask: () => void;
   addTime: (taskId: string, seconds: number) => void;
@@ -301,10 +312,13 @@ const shouldPersist = (type: AppAction['type']): boolean => {
 };
 
 const STORAGE_KEY = 'timebound-app-state';
+const preMigrationKey = (fromVersion: number) => `${STORAGE_KEY}.pre-migration-v${fromVersion}`;
 
 export const useAppStore = (): AppStore => {
   const [state, dispatch] = useReducer(reducer, initialState);
   const [hydrated, setHydrated] = useState(false);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const persistBlockedRef = useRef(false);
   const stateRef = useRef(state);
   const pendingPersistRef = useRef(false);
   const debounceRef = useRef<ReturnType<typeof setTimeout> | null>(null);
@@ -328,10 +342,18 @@ export const useAppStore = (): AppStore => {
     try {
       const stored = localStorage.getItem(STORAGE_KEY);
       if (stored) {
-        const loaded = JSON.parse(stored) as AppState;
-        dispatch({ type: 'hydrate', payload: loaded });
+        const { state: migrated, fromVersion, applied } = migrateState(JSON.parse(stored) as PersistedState);
+        if (applied.length > 0 && localStorage.getItem(preMigrationKey(fromVersion)) === null) {
+          localStorage.setItem(preMigrationKey(fromVersion), stored);
+        }
+        dispatch({ type: 'hydrate', payload: migrated as AppState });
       }
     } catch (error) {
+      if (error instanceof SchemaVersionError) {
+        // Leave the newer blob untouched until the app is updated.
+        persistBlockedRef.current = true;
+        setLoadError(error.message);
+      }
       console.error('Failed to load state from localStorage', error);
     }
     setHydrated(true);
@@ -341,7 +363,7 @@ export const useAppStore = (): AppStore => {
     if (!hydrated) {
       return;
     }
-    if (!pendingPersistRef.current) {
+    if (!pendingPersistRef.current || persistBlockedRef.current) {
       return;
     }
     if (debounceRef.current) {
@@ -488,6 +510,7 @@ export const useAppStore = (): AppStore => {
   return {
     state,
     hydrated,
+    loadError,
     addTask,
     completeActiveTask,
     addTime,
@@ -0,0 +1,99 @@
+import path from 'node:path';
+import fs from 'fs-extra';
+import type { BackupInfo, BackupKind } from '../shared/types';
+
+const RETENTION: Record<BackupKind, number> = {
+  hourly: 24,
+  daily: 14,
+  'pre-restore': 5
+};
+
+const BACKUP_FILE_PATTERN = /^state-(hourly|daily|pre-restore)-([0-9T-]+)\.json$/;
+
+const pad = (value: number) => value.toString().padStart(2, '0');
+
+const localDateKey = (date: Date) => `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+
+const stampFor = (kind: BackupKind, date: Date): string => {
+  const dateKey = localDateKey(date);
+  switch (kind) {
+    case 'daily':
+      return dateKey;
+    case 'hourly':
+      return `${dateKey}T${pad(date.getHours())}`;
+    default:
+      return `${dateKey}T${pad(date.getHours())}-${pad(date.getMinutes())}-${pad(date.getSeconds())}`;
+  }
+};
+
+export const resolveBackupDir = (baseDir: string) => path.join(baseDir, 'backups');
+
+const parseBackupName = (fileName: string): BackupKind | null => {
+  const match = BACKUP_FILE_PATTERN.exec(fileName);
+  return match ? (match[1] as BackupKind) : null;
+};
+
+const pruneBackups = async (backupDir: string, kind: BackupKind) => {
+  const files = (await fs.readdir(backupDir)).filter((name) => parseBackupName(name) === kind).sort();
+  const excess = files.slice(0, Math.max(0, files.length - RETENTION[kind]));
+  await Promise.all(excess.map((name) => fs.remove(path.join(backupDir, name))));
+};
+
+const writeSnapshot = async (baseDir: string, statePath: string, kind: BackupKind, now: Date) => {
+  const backupDir = resolveBackupDir(baseDir);
+  await fs.ensureDir(backupDir);
+  const target = path.join(backupDir, `state-${kind}-${stampFor(kind, now)}.json`);
+  if (kind !== 'pre-restore' && (await fs.pathExists(target))) {
+    return;
+  }
+  await fs.copy(statePath, target, { overwrite: true });
+  await pruneBackups(backupDir, kind);
+};
+
+/** Takes the first snapshot of the current hour and day; later saves in the same slot are skipped. */
+export const recordRollingSnapshots = async (baseDir: string, statePath: string, now: Date = new Date()) => {
+  await writeSnapshot(baseDir, statePath, 'hourly', now);
+  await writeSnapshot(baseDir, statePath, 'daily', now);
+};
+
+export const recordPreRestoreSnapshot = async (baseDir: string, statePath: string, now: Date = new Date()) => {
+  if (!(await fs.pathExists(statePath))) {
+    return;
+  }
+  await writeSnapshot(baseDir, statePath, 'pre-restore', now);
+};
+
+export const listBackups = async (baseDir: string): Promise<BackupInfo[]> => {
+  const backupDir = resolveBackupDir(baseDir);
+  if (!(await fs.pathExists(backupDir))) {
+    return [];
+  }
+  const names = await fs.readdir(backupDir);
+  const backups = await Promise.all(
+    names.map(async (name): Promise<BackupInfo | null> => {
+      const kind = parseBackupName(name);
+      if (!kind) {
+        return null;
+      }
+      const stats = await fs.stat(path.join(backupDir, name));
+      return {
+        id: name,
+        kind,
+        createdAt: stats.mtime.toISOString(),
+        sizeBytes: stats.size
+      };
+    })
+  );
+  return backups
+    .filter((backup): backup is BackupInfo => backup !== null)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+};
+
+export const readBackup = async (baseDir: string, id: string): Promise<unknown> => {
+  // Ids come from the renderer; only accept names this module generated.
+  if (!parseBackupName(id)) {
+    throw new Error(`Unknown backup: ${id}`);
+  }
+  const data = await fs.readFile(path.join(resolveBackupDir(baseDir), id), 'utf8');
+  return JSON.parse(data);
+};
@@ -0,0 +1,60 @@
+import path from 'node:path';
+import fs from 'fs-extra';
+import type { JournalEntry } from '../shared/types';
+
+// state.json holds the result of every entry up to its last save; older entries are only kept to audit recent edits.
+const MAX_JOURNAL_ENTRIES = 1000;
+
+const resolveJournalPaths = (baseDir: string) => ({
+  journalPath: path.join(baseDir, 'journal.jsonl'),
+  tempPath: path.join(baseDir, 'journal.tmp.jsonl')
+});
+
+const isJournalEntry = (value: unknown): value is JournalEntry =>
+  typeof value === 'object' &&
+  value !== null &&
+  typeof (value as JournalEntry).at === 'string' &&
+  typeof (value as JournalEntry).type === 'string';
+
+const readJournalLines = async (journalPath: string): Promise<{ lines: string[]; entries: JournalEntry[] }> => {
+  if (!(await fs.pathExists(journalPath))) {
+    return { lines: [], entries: [] };
+  }
+  const lines = (await fs.readFile(journalPath, 'utf8')).split('\n').filter((line) => line.trim());
+  const entries: JournalEntry[] = [];
+  for (const line of lines) {
+    try {
+      const parsed: unknown = JSON.parse(line);
+      if (isJournalEntry(parsed)) {
+        entries.push(parsed);
+      }
+    } catch {
+      // Skip the damaged line; the state file is the source of truth.
+    }
+  }
+  return { lines, entries };
+};
+
+export const appendJournalEntry = async (baseDir: string, entry: JournalEntry) => {
+  const { journalPath } = resolveJournalPaths(baseDir);
+  await fs.appendFile(journalPath, `${JSON.stringify(entry)}\n`, 'utf8');
+};
+
+/** Entries recorded after `since` (ISO), i.e. actions the last save of state.json did not include. */
+export const readJournalSince = async (baseDir: string, since: string): Promise<JournalEntry[]> => {
+  const { journalPath } = resolveJournalPaths(baseDir);
+  const { entries } = await readJournalLines(journalPath);
+  return entries.filter((entry) => entry.at > since);
+};
+
+/** Drops unreadable lines (e.g. a write cut off by a crash) and all but the newest entries. */
+export const compactJournal = async (baseDir: string) => {
+  const { journalPath, tempPath } = resolveJournalPaths(baseDir);
+  const { lines, entries } = await readJournalLines(journalPath);
+  const kept = entries.slice(-MAX_JOURNAL_ENTRIES);
+  if (kept.length === lines.length) {
+    return;
+  }
+  await fs.writeFile(tempPath, kept.map((entry) => `${JSON.stringify(entry)}\n`).join(''), 'utf8');
+  await fs.move(tempPath, journalPath, { overwrite: true });
+};
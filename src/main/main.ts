@@ -1,8 +1,19 @@
 import path from 'node:path';
-import { app, BrowserWindow, ipcMain, screen } from 'electron';
+import { app, BrowserWindow, dialog, ipcMain, screen } from 'electron';
 import type { Event as ElectronEvent, Rectangle, IpcMainInvokeEvent } from 'electron';
-import { loadState, saveState, getCachedState } from './stateManager';
-import { AppState } from '../shared/types';
+import {
+  appendJournal,
+  loadState,
+  saveState,
+  getCachedState,
+  getStateRecoveryIssue,
+  listStateBackups,
+  resolveStateRecovery,
+  restoreBackup,
+  takePendingJournal
+} from './stateManager';
+import { AppState, JournalEntry, StateRecoveryChoice } from '../shared/types';
+import { SchemaVersionError } from '../shared/migrations';
 
 let mainWindow: BrowserWindow | null = null;
 let currentAlwaysOnTop = true;
@@ -143,6 +154,10 @@ const createMainWindow = async () => {
   mainWindow.webContents.once('did-finish-load', () => {
     broadcastWindowState();
     startTickEmitter();
+    const recoveryIssue = getStateRecoveryIssue();
+    if (recoveryIssue) {
+      mainWindow?.webContents.send('state:recoveryRequired', recoveryIssue);
+    }
   });
 };
 
@@ -159,6 +174,30 @@ const registerIpc = () => {
     return saveState(state);
   });
 
+  ipcMain.handle('journal:append', async (_event: IpcMainInvokeEvent, entry: JournalEntry) => {
+    await appendJournal(entry);
+  });
+
+  ipcMain.handle('journal:takePending', () => {
+    return takePendingJournal();
+  });
+
+  ipcMain.handle('state:getRecovery', () => {
+    return getStateRecoveryIssue();
+  });
+
+  ipcMain.handle('state:resolveRecovery', async (_event: IpcMainInvokeEvent, choice: StateRecoveryChoice) => {
+    return resolveStateRecovery(choice);
+  });
+
+  ipcMain.handle('backups:list', async () => {
+    return listStateBackups();
+  });
+
+  ipcMain.handle('backups:restore', async (_event: IpcMainInvokeEvent, id: string) => {
+    return restoreBackup(String(id));
+  });
+
   ipcMain.handle('app:quit', () => {
     app.quit();
   });
@@ -230,7 +269,18 @@ const setupApp = () => {
 
   app.whenReady().then(async () => {
     registerIpc();
-    const initialState = await loadState();
+    let initialState: AppState;
+    try {
+      initialState = await loadState();
+    } catch (error) {
+      if (error instanceof SchemaVersionError) {
+        // Never overwrite data we can't read; the user has to update the app first.
+        dialog.showErrorBox('TimeBound cannot open your data', error.message);
+        app.quit();
+        return;
+      }
+      throw error;
+    }
     currentAlwaysOnTop = initialState.preferences?.alwaysOnTop ?? true;
     await createMainWindow();
     app.on('activate', async () => {
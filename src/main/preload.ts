@@ -1,5 +1,12 @@
 import { contextBridge, ipcRenderer } from 'electron';
-import type { AppState, WindowState } from '../shared/types';
+import type {
+  AppState,
+  BackupInfo,
+  JournalEntry,
+  StateRecoveryChoice,
+  StateRecoveryIssue,
+  WindowState
+} from '../shared/types';
 import type { ElectronApi } from '../shared/ipc';
 
 const api: ElectronApi = {
@@ -30,7 +37,22 @@ const api: ElectronApi = {
     };
   },
   setWindowSize: (width: number, height: number): Promise<void> => ipcRenderer.invoke('window:setSize', width, height),
-  moveWindowToTopRight: (): Promise<void> => ipcRenderer.invoke('window:moveToTopRight')
+  moveWindowToTopRight: (): Promise<void> => ipcRenderer.invoke('window:moveToTopRight'),
+  listBackups: (): Promise<BackupInfo[]> => ipcRenderer.invoke('backups:list'),
+  restoreBackup: (id: string): Promise<AppState> => ipcRenderer.invoke('backups:restore', id),
+  appendJournal: (entry: JournalEntry): Promise<void> => ipcRenderer.invoke('journal:append', entry),
+  takePendingJournal: (): Promise<JournalEntry[]> => ipcRenderer.invoke('journal:takePending'),
+  getStateRecovery: (): Promise<StateRecoveryIssue | null> => ipcRenderer.invoke('state:getRecovery'),
+  onStateRecoveryRequired: (callback: (issue: StateRecoveryIssue) => void) => {
+    const handler = (_event: unknown, issue: StateRecoveryIssue) => {
+      callback(issue);
+    };
+    ipcRenderer.on('state:recoveryRequired', handler);
+    return () => {
+      ipcRenderer.removeListener('state:recoveryRequired', handler);
+    };
+  },
+  resolveStateRecovery: (choice: StateRecoveryChoice): Promise<AppState> => ipcRenderer.invoke('state:resolveRecovery', choice)
 };
 
 contextBridge.exposeInMainWorld('electronAPI', api);
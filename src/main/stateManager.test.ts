@@ -0,0 +1,88 @@
+import os from 'node:os';
+import path from 'node:path';
+import fs from 'fs-extra';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { CURRENT_SCHEMA_VERSION } from '../shared/migrations';
+
+let appData = '';
+
+vi.mock('electron', () => ({
+  app: {
+    getPath: () => appData,
+    getVersion: () => '1.0.0'
+  }
+}));
+
+const stateDir = () => path.join(appData, 'TimeBound');
+const statePath = () => path.join(stateDir(), 'state.json');
+const preMigrationPath = (version: number) => path.join(stateDir(), `state.pre-migration-v${version}.json`);
+
+const writeStateFile = async (state: object) => {
+  await fs.ensureDir(stateDir());
+  await fs.writeFile(statePath(), JSON.stringify(state), 'utf8');
+};
+
+// stateManager keeps the loaded state in module scope, so every test gets a fresh copy.
+const loadState = async () => (await import('./stateManager')).loadState();
+
+const legacyState = {
+  score: 2,
+  tasks: [
+    {
+      id: 'untimed',
+      title: 'Untimed',
+      createdAt: '2026-03-09T08:00:00.000Z',
+      updatedAt: '2026-03-09T08:00:00.000Z',
+      status: 'pending',
+      history: []
+    }
+  ],
+  meta: { lastSavedAt: '2026-03-10T09:00:00.000Z', appVersion: '0.9.0' }
+};
+
+describe('loadState migrations', () => {
+  beforeEach(async () => {
+    appData = await fs.mkdtemp(path.join(os.tmpdir(), 'timebound-'));
+    vi.resetModules();
+    vi.spyOn(console, 'info').mockImplementation(() => undefined);
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await fs.remove(appData);
+  });
+
+  it('keeps the untouched file before migrating it', async () => {
+    await writeStateFile(legacyState);
+    const loaded = await loadState();
+    expect(loaded.schemaVersion).toBe(CURRENT_SCHEMA_VERSION);
+    expect(await fs.readJson(preMigrationPath(0))).toEqual(legacyState);
+    expect((await fs.readJson(statePath())).schemaVersion).toBe(CURRENT_SCHEMA_VERSION);
+  });
+
+  it('never overwrites an earlier pre-migration copy', async () => {
+    await fs.ensureDir(stateDir());
+    await fs.writeJson(preMigrationPath(0), { first: true });
+    await writeStateFile(legacyState);
+    await loadState();
+    expect(await fs.readJson(preMigrationPath(0))).toEqual({ first: true });
+  });
+
+  it('writes no copy when nothing needs migrating', async () => {
+    await writeStateFile(legacyState);
+    await loadState();
+    vi.resetModules();
+    await loadState();
+    const copies = (await fs.readdir(stateDir())).filter((name) => name.startsWith('state.pre-migration-'));
+    expect(copies).toEqual(['state.pre-migration-v0.json']);
+  });
+
+  it('leaves a file from a newer build untouched', async () => {
+    const newer = { ...legacyState, schemaVersion: CURRENT_SCHEMA_VERSION + 1 };
+    await writeStateFile(newer);
+    // A fresh module graph means a fresh error class, so match on the name.
+    await expect(loadState()).rejects.toMatchObject({ name: 'SchemaVersionError' });
+    expect(await fs.readJson(statePath())).toEqual(newer);
+    expect(await fs.pathExists(preMigrationPath(CURRENT_SCHEMA_VERSION + 1))).toBe(false);
+  });
+});
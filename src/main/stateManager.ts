@@ -1,8 +1,11 @@
 import path from 'node:path';
 import fs from 'fs-extra';
 import { app } from 'electron';
-import { AppState } from '../shared/types';
+import { AppState, BackupInfo, JournalEntry, StateRecoveryChoice, StateRecoveryIssue } from '../shared/types';
 import { createEmptyState, rehydrateState } from '../shared/stateHelpers';
+import { CURRENT_SCHEMA_VERSION, PersistedState, migrateState } from '../shared/migrations';
+import { listBackups, readBackup, recordPreRestoreSnapshot, recordRollingSnapshots } from './backupManager';
+import { appendJournalEntry, compactJournal, readJournalSince } from './journal';
 
 const APP_DIR_NAME = 'TimeBound';
 
@@ -16,44 +19,139 @@ const resolveStatePaths = () => {
   };
 };
 
+const resolvePreMigrationPath = (fromVersion: number) => {
+  const { baseDir } = resolveStatePaths();
+  return path.join(baseDir, `state.pre-migration-v${fromVersion}.json`);
+};
+
 let cachedState: AppState | null = null;
+// Set while state.json could not be read; nothing is written to disk until the user picks a way out.
+let recoveryIssue: StateRecoveryIssue | null = null;
+// Journal entries newer than the loaded state.json, handed to the renderer once to replay.
+let pendingJournal: JournalEntry[] = [];
 
 const ensureDirectories = async () => {
   const { baseDir } = resolveStatePaths();
   await fs.ensureDir(baseDir);
 };
 
-const readStateFile = async (): Promise<AppState | null> => {
-  const { statePath, backupPath } = resolveStatePaths();
+const parseStateJson = (data: string, source: string): PersistedState => {
+  const parsed: unknown = JSON.parse(data);
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new Error(`${source} does not contain a TimeBound state object`);
+  }
+  return parsed as PersistedState;
+};
+
+const readJsonFile = async (filePath: string): Promise<PersistedState> =>
+  parseStateJson(await fs.readFile(filePath, 'utf8'), path.basename(filePath));
+
+// Newest readable copy: the last-write .bak first, then the rolling snapshots.
+const readRecoveryBackup = async (): Promise<PersistedState | null> => {
+  const { baseDir, backupPath } = resolveStatePaths();
   try {
-    const data = await fs.readFile(statePath, 'utf8');
-    return JSON.parse(data) as AppState;
-  } catch (error) {
+    return await readJsonFile(backupPath);
+  } catch {
+    // Fall through to the rolling snapshots.
+  }
+  for (const backup of await listBackups(baseDir)) {
     try {
-      const fallback = await fs.readFile(backupPath, 'utf8');
-      return JSON.parse(fallback) as AppState;
+      return (await readBackup(baseDir, backup.id)) as PersistedState;
     } catch {
+      // Try the next-oldest snapshot.
+    }
+  }
+  return null;
+};
+
+const quarantineStateFile = async (error: unknown): Promise<StateRecoveryIssue> => {
+  const { baseDir, statePath } = resolveStatePaths();
+  const detectedAt = new Date().toISOString();
+  const quarantinedPath = path.join(baseDir, `state.corrupt-${detectedAt.replace(/[:.]/g, '-')}.json`);
+  await fs.move(statePath, quarantinedPath, { overwrite: false });
+  console.error(`state.json could not be read and was moved to ${quarantinedPath}`, error);
+  return {
+    detectedAt,
+    message: error instanceof Error ? error.message : String(error),
+    quarantinedPath,
+    backupAvailable: (await readRecoveryBackup()) !== null
+  };
+};
+
+const readStateFile = async (): Promise<PersistedState | null> => {
+  const { statePath, backupPath } = resolveStatePaths();
+  if (await fs.pathExists(statePath)) {
+    try {
+      return await readJsonFile(statePath);
+    } catch (error) {
+      recoveryIssue = await quarantineStateFile(error);
       return null;
     }
   }
+  try {
+    return await readJsonFile(backupPath);
+  } catch {
+    return null;
+  }
+};
+
+// Keeps an untouched copy of the old file around before any migration step rewrites it.
+const writePreMigrationBackup = async (raw: PersistedState, fromVersion: number) => {
+  const backupPath = resolvePreMigrationPath(fromVersion);
+  if (await fs.pathExists(backupPath)) {
+    return;
+  }
+  await fs.writeFile(backupPath, JSON.stringify(raw, null, 2), 'utf8');
+};
+
+/** Throws SchemaVersionError without touching the file when it comes from a newer build. */
+const upgradeState = async (raw: PersistedState): Promise<AppState> => {
+  const { state, fromVersion, applied } = migrateState(raw);
+  if (applied.length > 0) {
+    await writePreMigrationBackup(raw, fromVersion);
+    console.info(`Migrated state.json from schema ${fromVersion} to ${CURRENT_SCHEMA_VERSION}`);
+  }
+  return state as AppState;
 };
 
 const writeAtomic = async (state: AppState) => {
-  const { tempPath, statePath, backupPath } = resolveStatePaths();
+  const { baseDir, tempPath, statePath, backupPath } = resolveStatePaths();
   const payload = JSON.stringify(state, null, 2);
   await fs.writeFile(tempPath, payload, 'utf8');
   await fs.move(tempPath, statePath, { overwrite: true });
   await fs.copy(statePath, backupPath, { overwrite: true });
+  try {
+    await recordRollingSnapshots(baseDir, statePath);
+  } catch (error) {
+    console.warn('Failed to write rolling backup', error);
+  }
 };
 
 export const loadState = async (): Promise<AppState> => {
   await ensureDirectories();
+  const { baseDir } = resolveStatePaths();
+  try {
+    await compactJournal(baseDir);
+  } catch (error) {
+    console.warn('Failed to compact journal', error);
+  }
   const appVersion = app.getVersion();
   const now = new Date();
-  const rawState = (await readStateFile()) ?? createEmptyState(appVersion, now);
+  const stored = await readStateFile();
+  const savedAt = stored?.meta?.lastSavedAt;
+  if (savedAt) {
+    try {
+      pendingJournal = await readJournalSince(baseDir, savedAt);
+    } catch (error) {
+      console.warn('Failed to read journal', error);
+    }
+  }
+  const rawState = stored ? await upgradeState(stored) : createEmptyState(appVersion, now);
   const hydrated = rehydrateState(rawState, appVersion, now);
   cachedState = hydrated;
-  await writeAtomic(hydrated);
+  if (!recoveryIssue) {
+    await writeAtomic(hydrated);
+  }
   return hydrated;
 };
 
@@ -68,8 +166,74 @@ export const saveState = async (state: AppState): Promise<AppState> => {
     }
   };
   cachedState = nextState;
+  if (recoveryIssue) {
+    // Keep the placeholder state in memory only; writing it would rotate real snapshots away.
+    return nextState;
+  }
   await writeAtomic(nextState);
   return nextState;
 };
 
+export const appendJournal = async (entry: JournalEntry) => {
+  const { baseDir } = resolveStatePaths();
+  await appendJournalEntry(baseDir, entry);
+};
+
+/** Returns the actions to replay on top of the loaded state; later calls return nothing. */
+export const takePendingJournal = (): JournalEntry[] => {
+  const entries = pendingJournal;
+  pendingJournal = [];
+  return entries;
+};
+
+export const getStateRecoveryIssue = (): StateRecoveryIssue | null => recoveryIssue;
+
+/** Replaces the placeholder state loaded after a corrupt state.json with the user's choice. */
+export const resolveStateRecovery = async (choice: StateRecoveryChoice): Promise<AppState> => {
+  await ensureDirectories();
+  const appVersion = app.getVersion();
+  const now = new Date();
+  let raw: PersistedState;
+  switch (choice.kind) {
+    case 'backup': {
+      const backup = await readRecoveryBackup();
+      if (!backup) {
+        throw new Error('No readable backup was found.');
+      }
+      raw = backup;
+      break;
+    }
+    case 'import':
+      raw = parseStateJson(choice.contents, 'The selected file');
+      break;
+    default:
+      raw = createEmptyState(appVersion, now);
+  }
+  const recovered = rehydrateState(await upgradeState(raw), appVersion, now);
+  recoveryIssue = null;
+  cachedState = recovered;
+  await writeAtomic(recovered);
+  return recovered;
+};
+
+export const listStateBackups = async (): Promise<BackupInfo[]> => {
+  const { baseDir } = resolveStatePaths();
+  return listBackups(baseDir);
+};
+
+/** Replaces the current state with a snapshot, keeping a copy of what it overwrote. */
+export const restoreBackup = async (id: string): Promise<AppState> => {
+  await ensureDirectories();
+  const { baseDir, statePath } = resolveStatePaths();
+  const raw = (await readBackup(baseDir, id)) as PersistedState;
+  const upgraded = await upgradeState(raw);
+  await recordPreRestoreSnapshot(baseDir, statePath);
+  const appVersion = app.getVersion();
+  const restored = rehydrateState(upgraded, appVersion, new Date());
+  recoveryIssue = null;
+  cachedState = restored;
+  await writeAtomic(restored);
+  return restored;
+};
+
 export const getCachedState = (): AppState | null => cachedState;
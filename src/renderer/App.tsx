@@ -17,7 +17,8 @@ import {
   verticalListSortingStrategy
 } from '@dnd-kit/sortable';
 import { CSS as DndCSS } from '@dnd-kit/utilities';
-import type { Task, WindowState } from '../shared/types';
+import type { RecurrenceRule, Task, TaskDetails, TaskTemplate, WindowState } from '../shared/types';
+import type { TaskEta } from '../shared/queue';
 import { useAppStore } from './store/state';
 import { TaskRow } from './components/TaskRow';
 import { EditModal } from './components/EditModal';
@@ -26,8 +27,34 @@ import { AddTimeModal } from './components/AddTimeModal';
 import { BulkTaskModal } from './components/BulkTaskModal';
 import { FocusSpotlight } from './components/FocusSpotlight';
 import { TitleBar } from './components/TitleBar';
-import { formatSeconds } from './utils/time';
+import { SettingsModal } from './components/SettingsModal';
+import { RecoveryDialog } from './components/RecoveryDialog';
+import { TrashModal } from './components/TrashModal';
+import { HistoryModal } from './components/HistoryModal';
+import { CarryOverModal } from './components/CarryOverModal';
+import { DashboardModal } from './components/DashboardModal';
+import { EstimatesModal } from './components/EstimatesModal';
+import { TimelineModal } from './components/TimelineModal';
+import { ScoreLedgerModal } from './components/ScoreLedgerModal';
+import { AchievementsModal } from './components/AchievementsModal';
+import { AchievementToast } from './components/AchievementToast';
+import { formatClockTime, formatDuration, formatElapsed, formatOverrun, formatSeconds } from './utils/time';
 import type { ElectronApi } from '../shared/ipc';
+import { isBreakTask } from '../shared/pomodoro';
+import { getDayKey } from '../shared/dates';
+import { getTaskOverrunSeconds, isStopwatchTask } from '../shared/stateHelpers';
+import { getCorrectionMultiplier, getEstimateRecords } from '../shared/estimation';
+import { describeScoreChange } from '../shared/scoring';
+import { getAchievement, getAchievementProgress, getActiveStreak } from '../shared/achievements';
+import { getGoalProgress, getQueueLoad, getWorkdaySecondsLeft } from '../shared/goals';
+import { projectQueue } from '../shared/queue';
+import { isHeldForSlot } from '../shared/schedule';
+import { getGroupTemplates } from '../shared/templates';
+import { collectLabels, describeTaskFilter, matchesTaskFilter, parseTitleTokens } from '../shared/tags';
+import type { TaskFilter } from '../shared/tags';
+import { addFocusedSecondsFromSessions, applyLedgerScores, buildDailyStatsFromTasks } from '../shared/dailyStats';
+import { QUEUE_SORT_STRATEGIES, normalizeQueueSort, sortQueue } from '../shared/sorting';
+import type { AchievementId } from '../shared/types';
 import { v4 as uuidv4 } from 'uuid';
 
 const REMINDER_INTERVAL_MS = 3 * 60 * 1000;
@@ -42,6 +69,8 @@ interface SortableTaskRowProps {
   isActive: boolean;
   isSelected: boolean;
   multiSelectCount: number;
+  eta?: TaskEta;
+  timeZone: string;
   onEdit: (task: Task) => void;
   onSelect: (task: Task, event?: React.MouseEvent) => void;
   onAddTime: (task: Task) => void;
@@ -50,7 +79,7 @@ interface SortableTaskRowProps {
   onMakeActive: (task: Task) => void;
 }
 
-function SortableTaskRow({ task, index, isActive, isSelected, multiSelectCount, onEdit, onSelect, onAddTime, onDelete, onDeleteMultiple, onMakeActive }: SortableTaskRowProps) {
+function SortableTaskRow({ task, index, isActive, isSelected, multiSelectCount, eta, timeZone, onEdit, onSelect, onAddTime, onDelete, onDeleteMultiple, onMakeActive }: SortableTaskRowProps) {
   const { attributes, listeners, setNodeRef, transform, transition, isDragging } = useSortable({ id: task.id });
   const style: CSSProperties = {
     transform: transform ? DndCSS.Transform.toString(transform) : undefined,
@@ -67,6 +96,8 @@ function SortableTaskRow({ task, index, isActive, isSelected, multiSelectCount,
         isActive={isActive}
         isSelected={isSelected}
         multiSelectCount={multiSelectCount}
+        eta={eta}
+        timeZone={timeZone}
         onEdit={onEdit}
         onSelect={onSelect}
         onAddTime={onAddTime}
@@ -83,16 +114,32 @@ export default function App() {
     state,
     hydrated,
     addTask,
+    addFromTemplates,
     completeActiveTask,
     addTime,
     updateTask,
     deleteTask,
     deleteTasks,
+    restoreFromTrash,
+    purgeFromTrash,
+    resolveCarryOver,
+    recomputeScore,
+    stopRecurring,
+    toggleSubtask,
     reorderTasks,
     dispatchTick,
     setAlwaysOnTop,
+    updatePreferences,
     pauseTask,
-    resumeTask
+    resumeTask,
+    listBackups,
+    restoreBackup,
+    recoveryIssue,
+    resolveRecovery,
+    canUndo,
+    canRedo,
+    undo,
+    redo
   } = useAppStore();
   const [modalState, setModalState] = useState<{ mode: 'create' | 'edit'; task?: Task } | null>(null);
   const [addTimeOpen, setAddTimeOpen] = useState(false);
@@ -115,10 +162,23 @@ export default function App() {
   const dragGuardRef = useRef(false);
   const dragResetTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
   const [showAllTasks, setShowAllTasks] = useState(false);
+  const [taskFilter, setTaskFilter] = useState<TaskFilter | null>(null);
   const [showUploadMenu, setShowUploadMenu] = useState(false);
+  const [showTemplateMenu, setShowTemplateMenu] = useState(false);
   const [showBulkTaskModal, setShowBulkTaskModal] = useState(false);
+  const [settingsOpen, setSettingsOpen] = useState(false);
+  const [trashOpen, setTrashOpen] = useState(false);
+  const [historyOpen, setHistoryOpen] = useState(false);
+  const [dashboardOpen, setDashboardOpen] = useState(false);
+  const [estimatesOpen, setEstimatesOpen] = useState(false);
+  const [timelineOpen, setTimelineOpen] = useState(false);
+  const [ledgerOpen, setLedgerOpen] = useState(false);
+  const [achievementsOpen, setAchievementsOpen] = useState(false);
+  const [unlockQueue, setUnlockQueue] = useState<AchievementId[]>([]);
+  const seenAchievementsRef = useRef<Set<AchievementId> | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const uploadMenuRef = useRef<HTMLDivElement>(null);
+  const templateMenuRef = useRef<HTMLDivElement>(null);
   const minimalModeTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
   const previousWindowSizeRef = useRef<{ width: number; height: number } | null>(null);
 
@@ -129,28 +189,111 @@ export default function App() {
   const activeTask = useMemo(() => getActiveTask(state.tasks), [state.tasks]);
   const pendingCount = useMemo(() => state.tasks.filter((task) => task.status === 'pending').length, [state.tasks]);
   const orderedTasks = useMemo(() => [...state.tasks].reverse(), [state.tasks]);
+  const carryOverTasks = useMemo(() => {
+    const ids = new Set(state.rollover.carryOverTaskIds);
+    return state.tasks.filter((task) => ids.has(task.id) && task.status !== 'completed' && task.status !== 'struck');
+  }, [state.rollover.carryOverTaskIds, state.tasks]);
+  const historyTasks = useMemo(
+    () => [...state.tasks.filter((task) => task.status === 'completed' || task.status === 'struck'), ...state.archive],
+    [state.tasks, state.archive]
+  );
+  const taskLabels = useMemo(() => collectLabels([...state.tasks, ...state.archive]), [state.tasks, state.archive]);
+  const filterLabel = taskFilter ? describeTaskFilter(taskFilter) : undefined;
+  const filteredTasks = useMemo(
+    () => orderedTasks.filter((task) => matchesTaskFilter(task, taskFilter)),
+    [orderedTasks, taskFilter]
+  );
+  const filteredHistoryTasks = useMemo(
+    () => historyTasks.filter((task) => matchesTaskFilter(task, taskFilter)),
+    [historyTasks, taskFilter]
+  );
+  const matchingTasks = useMemo(
+    () => (taskFilter ? [...state.tasks, ...state.archive].filter((task) => matchesTaskFilter(task, taskFilter)) : []),
+    [taskFilter, state.tasks, state.archive]
+  );
+  const matchingTaskIds = useMemo(() => new Set(matchingTasks.map((task) => task.id)), [matchingTasks]);
+  // The stored table has no per-task breakdown, so a filtered dashboard is rebuilt from task histories
+  // and scored from the ledger, which follows the user's scoring rules.
+  const dashboardStats = useMemo(() => {
+    if (!taskFilter || !dashboardOpen) {
+      return state.dailyStats;
+    }
+    const table = addFocusedSecondsFromSessions(
+      buildDailyStatsFromTasks(matchingTasks, state.preferences),
+      matchingTasks,
+      state.preferences
+    );
+    return applyLedgerScores(table, state.scoreLedger, matchingTaskIds, state.preferences);
+  }, [taskFilter, dashboardOpen, state.dailyStats, matchingTasks, matchingTaskIds, state.scoreLedger, state.preferences]);
+  // The header counts only matching tasks while a filter is on, like the list and the dashboard.
+  const headerStats = useMemo(() => {
+    if (!taskFilter) {
+      return { ...state.stats, score: state.score };
+    }
+    const finished = matchingTasks.filter(
+      (task) => (task.status === 'completed' || task.status === 'struck') && !isBreakTask(task)
+    );
+    return {
+      totalCompleted: finished.length,
+      todayCompleted: finished.filter(
+        (task) => task.completedAt && getDayKey(new Date(task.completedAt), state.preferences) === state.rollover.dayKey
+      ).length,
+      totalOverrunSeconds: finished.reduce((total, task) => total + getTaskOverrunSeconds(task), 0),
+      score: state.scoreLedger
+        .filter((entry) => entry.taskId !== undefined && matchingTaskIds.has(entry.taskId))
+        .reduce((total, entry) => total + entry.delta, 0)
+    };
+  }, [taskFilter, matchingTasks, matchingTaskIds, state.stats, state.score, state.scoreLedger, state.preferences, state.rollover.dayKey]);
+  const achievementProgress = useMemo(
+    () => (achievementsOpen ? getAchievementProgress(state) : []),
+    [achievementsOpen, state]
+  );
+  const activeStreak = getActiveStreak(state.streak, state.rollover.dayKey);
+  const dailyGoal = state.preferences.dailyGoal;
+  const goalProgress = getGoalProgress(state.dailyStats[state.rollover.dayKey], dailyGoal);
+  const queueLoad = getQueueLoad(state.tasks);
+  const workdaySecondsLeft = getWorkdaySecondsLeft(new Date(), state.preferences);
+  const overCapacitySeconds = queueLoad.seconds - workdaySecondsLeft;
+  // Tasks change on every tick, pause and reorder, so the projection follows along.
+  const queueProjection = useMemo(
+    () => projectQueue(state.tasks, new Date(), state.preferences.pomodoro),
+    [state.tasks, state.preferences.pomodoro]
+  );
+  const firstConflict = useMemo(() => {
+    const conflict = queueProjection.conflicts[0];
+    const task = conflict && state.tasks.find((item) => item.id === conflict.taskId);
+    return task ? { ...conflict, title: task.title } : undefined;
+  }, [queueProjection.conflicts, state.tasks]);
+  const ledgerTasks = useMemo(
+    () => (ledgerOpen ? [...state.tasks, ...state.deferred, ...state.archive, ...state.trash] : []),
+    [ledgerOpen, state.tasks, state.deferred, state.archive, state.trash]
+  );
+  const modalSeries = useMemo(
+    () =>
+      modalState?.task?.recurrenceId
+        ? state.recurring.find((series) => series.id === modalState.task?.recurrenceId)
+        : undefined,
+    [modalState, state.recurring]
+  );
+  const estimateMultiplier = useMemo(
+    () => (modalState ? getCorrectionMultiplier(getEstimateRecords(historyTasks)) : null),
+    [modalState, historyTasks]
+  );
   const shouldBeMinimal = useMemo(() => openTasks.length === 0, [openTasks.length]);
   const isMinimalMode = useMemo(() => focusSpotlightOpenState && shouldBeMinimal, [focusSpotlightOpenState, shouldBeMinimal]);
   const visibleTasks = useMemo(() => {
-    return showAllTasks ? orderedTasks : orderedTasks.slice(0, 5);
-  }, [orderedTasks, showAllTasks]);
-  const hiddenTaskCount = orderedTasks.length - 5;
+    return showAllTasks ? filteredTasks : filteredTasks.slice(0, 5);
+  }, [filteredTasks, showAllTasks]);
+  const hiddenTaskCount = filteredTasks.length - 5;
   const alwaysOnTopEnabled = state.preferences.alwaysOnTop;
   const selectedTask = useMemo(
     () => (selectedTaskId ? state.tasks.find((t) => t.id === selectedTaskId) : null),
     [selectedTaskId, state.tasks]
   );
-  const taskForAddTime = selectedTask ?? activeTask;
-  const requiresTimeForNextTask = useMemo(() => {
-    if (openTasks.length === 0) {
-      return true;
-    }
-    return !openTasks.some((task) => {
-      const remaining = typeof task.remainingSeconds === 'number' ? task.remainingSeconds : undefined;
-      const assigned = typeof task.timeAssignedSeconds === 'number' ? task.timeAssignedSeconds : undefined;
-      return (remaining ?? assigned ?? 0) > 0;
-    });
-  }, [openTasks]);
+  const taskForAddTime = useMemo(() => {
+    const candidate = selectedTask ?? activeTask;
+    return candidate && !isBreakTask(candidate) ? candidate : undefined;
+  }, [selectedTask, activeTask]);
 
   const sensors = useSensors(useSensor(PointerSensor, { activationConstraint: { distance: 6 } }));
 
@@ -164,6 +307,26 @@ export default function App() {
     return () => clearInterval(id);
   }, [hydrated, dispatchTick]);
 
+  useEffect(() => {
+    if (!hydrated) {
+      return;
+    }
+    const seen = seenAchievementsRef.current;
+    seenAchievementsRef.current = new Set(state.achievements.map((unlock) => unlock.id));
+    if (!seen) {
+      return;
+    }
+    // Only announce unlocks that just happened, not ones brought back by a restore.
+    const fresh = state.achievements.filter(
+      (unlock) => !seen.has(unlock.id) && Date.now() - new Date(unlock.unlockedAt).getTime() < 60 * 1000
+    );
+    if (fresh.length > 0) {
+      setUnlockQueue((queue) => [...queue, ...fresh.map((unlock) => unlock.id)]);
+    }
+  }, [hydrated, state.achievements]);
+
+  const dismissUnlock = useCallback(() => setUnlockQueue((queue) => queue.slice(1)), []);
+
   useEffect(() => {
     if (reminderTimeoutRef.current) {
       clearTimeout(reminderTimeoutRef.current);
@@ -182,9 +345,8 @@ export default function App() {
       return;
     }
 
-    const hasTime = typeof (currentActive.timeAssignedSeconds ?? currentActive.remainingSeconds) === 'number' &&
-      (currentActive.timeAssignedSeconds ?? currentActive.remainingSeconds ?? 0) > 0;
-    if (hasTime) {
+    // Only tasks explicitly waiting for an estimate nag; untimed tasks otherwise run as stopwatches.
+    if (!currentActive.needsEstimate) {
       setReminderOpen(false);
       snoozeUntilRef.current = null;
       lastReminderTaskIdRef.current = null;
@@ -241,6 +403,67 @@ export default function App() {
     }
   }, [showUploadMenu]);
 
+  // Drop a filter whose tag or project is no longer used by any task
+  useEffect(() => {
+    if (taskFilter && !(taskFilter.kind === 'tag' ? taskLabels.tags : taskLabels.projects).includes(taskFilter.value)) {
+      setTaskFilter(null);
+    }
+  }, [taskFilter, taskLabels]);
+
+  // Close template menu when clicking outside
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (templateMenuRef.current && !templateMenuRef.current.contains(event.target as Node)) {
+        setShowTemplateMenu(false);
+      }
+    };
+
+    if (showTemplateMenu) {
+      document.addEventListener('mousedown', handleClickOutside);
+      return () => document.removeEventListener('mousedown', handleClickOutside);
+    }
+  }, [showTemplateMenu]);
+
+  // Ctrl+Z / Ctrl+Shift+Z (Cmd on macOS) undo and redo task changes
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || event.key.toLowerCase() !== 'z') {
+        return;
+      }
+      // Leave text fields to their native undo
+      const target = event.target as HTMLElement;
+      if (
+        target.tagName === 'INPUT' ||
+        target.tagName === 'TEXTAREA' ||
+        modalState !== null ||
+        addTimeOpen ||
+        showBulkTaskModal ||
+        settingsOpen ||
+        trashOpen ||
+        historyOpen ||
+        dashboardOpen ||
+        estimatesOpen ||
+        timelineOpen ||
+        ledgerOpen ||
+        achievementsOpen ||
+        showDeleteConfirm
+      ) {
+        return;
+      }
+      event.preventDefault();
+      if (event.shiftKey) {
+        if (canRedo) {
+          redo();
+        }
+      } else if (canUndo) {
+        undo();
+      }
+    };
+
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [canUndo, canRedo, undo, redo, modalState, addTimeOpen, showBulkTaskModal, settingsOpen, trashOpen, historyOpen, dashboardOpen, estimatesOpen, timelineOpen, ledgerOpen, achievementsOpen, showDeleteConfirm]);
+
   // Global keyboard shortcut for deleting tasks
   useEffect(() => {
     const handleKeyDown = (event: KeyboardEvent) => {
@@ -254,6 +477,14 @@ export default function App() {
           modalState !== null ||
           addTimeOpen ||
           showBulkTaskModal ||
+          settingsOpen ||
+          trashOpen ||
+          historyOpen ||
+          dashboardOpen ||
+          estimatesOpen ||
+          timelineOpen ||
+          ledgerOpen ||
+          achievementsOpen ||
           showDeleteConfirm
         ) {
           return;
@@ -289,7 +520,7 @@ export default function App() {
 
     document.addEventListener('keydown', handleKeyDown);
     return () => document.removeEventListener('keydown', handleKeyDown);
-  }, [selectedTaskIds, activeTask, modalState, addTimeOpen, showBulkTaskModal, showDeleteConfirm, deleteTasks, selectedTaskId]);
+  }, [selectedTaskIds, activeTask, modalState, addTimeOpen, showBulkTaskModal, settingsOpen, trashOpen, historyOpen, dashboardOpen, estimatesOpen, timelineOpen, ledgerOpen, achievementsOpen, showDeleteConfirm, deleteTasks, selectedTaskId]);
 
   const closeModal = useCallback(() => {
     setModalState(null);
@@ -310,14 +541,14 @@ export default function App() {
 
     // Multi-select with Shift or Ctrl/Cmd
     if (event?.shiftKey && lastSelectedTaskId) {
-      // Shift+Click: Select range
-      const lastIndex = orderedTasks.findIndex(t => t.id === lastSelectedTaskId);
-      const currentIndex = orderedTasks.findIndex(t => t.id === task.id);
+      // Shift+Click: Select range (of the shown tasks only, so a filter never selects hidden ones)
+      const lastIndex = filteredTasks.findIndex(t => t.id === lastSelectedTaskId);
+      const currentIndex = filteredTasks.findIndex(t => t.id === task.id);
 
       if (lastIndex !== -1 && currentIndex !== -1) {
         const start = Math.min(lastIndex, currentIndex);
         const end = Math.max(lastIndex, currentIndex);
-        const rangeIds = orderedTasks.slice(start, end + 1).map(t => t.id);
+        const rangeIds = filteredTasks.slice(start, end + 1).map(t => t.id);
 
         setSelectedTaskIds(new Set(rangeIds));
         setSelectedTaskId(task.id);
@@ -341,7 +572,7 @@ export default function App() {
       setSelectedTaskId(task.id);
       setLastSelectedTaskId(task.id);
     }
-  }, [lastSelectedTaskId, orderedTasks]);
+  }, [lastSelectedTaskId, filteredTasks]);
 
   const handleTaskAddTime = useCallback((task: Task) => {
     setSelectedTaskId(task.id);
@@ -383,7 +614,28 @@ export default function App() {
     }
   }, [selectedTaskIds, activeTask, deleteTasks, selectedTaskId]);
 
+  // Ordering by hand means the chosen sort no longer applies; otherwise the next added task would undo it.
+  const switchToManualOrder = useCallback(() => {
+    if (state.preferences.queueSort !== 'manual') {
+      updatePreferences({ queueSort: 'manual' });
+      setErrorMessage('Switched to manual order.');
+    }
+  }, [state.preferences.queueSort, updatePreferences]);
+
+  const handleSortChange = useCallback(
+    (value: string) => {
+      const queueSort = normalizeQueueSort(value);
+      updatePreferences({ queueSort });
+      const sorted = sortQueue(state.tasks, queueSort, new Date());
+      if (sorted !== state.tasks) {
+        reorderTasks(sorted.map((task) => task.id));
+      }
+    },
+    [state.tasks, updatePreferences, reorderTasks]
+  );
+
   const handleMakeActive = useCallback((task: Task) => {
+    switchToManualOrder();
     // Find the current active task index
     const activeIndex = state.tasks.findIndex(t => t.status !== 'completed' && t.status !== 'struck');
 
@@ -409,7 +661,7 @@ export default function App() {
 
     // Don't reverse - we're working with state.tasks which is already in correct storage order
     reorderTasks(reordered);
-  }, [state.tasks, reorderTasks]);
+  }, [state.tasks, reorderTasks, switchToManualOrder]);
 
   const scheduleDragReset = useCallback(() => {
     if (dragResetTimeoutRef.current) {
@@ -438,12 +690,13 @@ export default function App() {
         const toIndex = currentOrder.indexOf(over.id as string);
         if (fromIndex !== -1 && toIndex !== -1) {
           const reorderedUi = arrayMove(currentOrder, fromIndex, toIndex);
+          switchToManualOrder();
           reorderTasks([...reorderedUi].reverse());
         }
       }
       scheduleDragReset();
     },
-    [orderedTasks, reorderTasks, scheduleDragReset]
+    [orderedTasks, reorderTasks, scheduleDragReset, switchToManualOrder]
   );
 
   const handleDragCancel = useCallback((_: DragCancelEvent) => {
@@ -451,17 +704,28 @@ export default function App() {
   }, [scheduleDragReset]);
 
   const handleModalSubmit = useCallback(
-    (payload: { title: string; seconds?: number }) => {
+    (payload: {
+      title: string;
+      seconds?: number;
+      needsEstimate?: boolean;
+      scheduledStart?: string;
+      recurrence: RecurrenceRule | null;
+      applyToSeries: boolean;
+      details: TaskDetails;
+    }) => {
       if (!modalState) {
         return;
       }
 
       if (modalState.mode === 'create') {
-        if (requiresTimeForNextTask && (!payload.seconds || payload.seconds <= 0)) {
-          setErrorMessage('Please assign time before starting the next task.');
-          return;
-        }
-        addTask(payload.title, payload.seconds);
+        addTask(
+          payload.title,
+          payload.seconds,
+          payload.needsEstimate,
+          payload.scheduledStart,
+          payload.recurrence ?? undefined,
+          payload.details
+        );
         setModalState(null);
         return;
       }
@@ -469,17 +733,27 @@ export default function App() {
       if (modalState.mode === 'edit' && modalState.task) {
         const previousSeconds = modalState.task.timeAssignedSeconds ?? 0;
         const nextSeconds = payload.seconds ?? 0;
-        if (nextSeconds > previousSeconds) {
-          const confirmed = window.confirm('Adding time will deduct one score point. Continue?');
+        const scoreChange = describeScoreChange(state.preferences.scoring.addTime);
+        if (previousSeconds > 0 && nextSeconds > previousSeconds && scoreChange) {
+          const confirmed = window.confirm(`Adding time will ${scoreChange}. Continue?`);
           if (!confirmed) {
             return;
           }
         }
-        updateTask(modalState.task.id, payload.title, payload.seconds);
+        updateTask(
+          modalState.task.id,
+          payload.title,
+          payload.seconds,
+          payload.needsEstimate,
+          payload.scheduledStart,
+          payload.recurrence,
+          payload.applyToSeries,
+          payload.details
+        );
         setModalState(null);
       }
     },
-    [modalState, requiresTimeForNextTask, addTask, updateTask]
+    [modalState, addTask, updateTask, state.preferences.scoring.addTime]
   );
 
   const handleAddTime = useCallback(
@@ -684,7 +958,8 @@ export default function App() {
 
       // Add all tasks to the store
       tasks.forEach(task => {
-        addTask(task.title, task.seconds);
+        const { title, tags, project } = parseTitleTokens(task.title);
+        addTask(title, task.seconds, undefined, undefined, undefined, { tags, project });
       });
 
       setErrorMessage(`Successfully added ${tasks.length} task${tasks.length === 1 ? '' : 's'}!`);
@@ -695,6 +970,19 @@ export default function App() {
     }
   }, [addTask]);
 
+  const handleAddTemplates = useCallback(
+    (templates: TaskTemplate[]) => {
+      setShowTemplateMenu(false);
+      if (templates.length === 0) {
+        return;
+      }
+      addFromTemplates(templates);
+      setShowBulkTaskModal(false);
+      setErrorMessage(`Successfully added ${templates.length} task${templates.length === 1 ? '' : 's'}!`);
+    },
+    [addFromTemplates]
+  );
+
   const updateFocusSpotlightOpen = useCallback((value: boolean) => {
     focusSpotlightOpenRef.current = value;
     setFocusSpotlightOpenState(value);
@@ -963,9 +1251,16 @@ export default function App() {
     );
   }
 
-  const activeTime = formatSeconds(activeTask?.remainingSeconds ?? activeTask?.timeAssignedSeconds);
-  const scoreSign = state.score > 0 ? '+' : state.score < 0 ? '-' : '';
-  const scoreValue = Math.abs(state.score);
+  const activeIsStopwatch = activeTask ? isStopwatchTask(activeTask) : false;
+  const activeIsOvertime = typeof activeTask?.remainingSeconds === 'number' && activeTask.remainingSeconds < 0;
+  const activeHeldUntil = activeTask && isHeldForSlot(activeTask, new Date()) ? activeTask.scheduledStart : undefined;
+  const activeTime = activeIsStopwatch
+    ? formatElapsed(activeTask?.elapsedSeconds)
+    : activeIsOvertime
+    ? formatOverrun(activeTask?.remainingSeconds ?? 0)
+    : formatSeconds(activeTask?.remainingSeconds ?? activeTask?.timeAssignedSeconds);
+  const scoreSign = headerStats.score > 0 ? '+' : headerStats.score < 0 ? '-' : '';
+  const scoreValue = Math.abs(headerStats.score);
 
   const rootClasses = `min-h-screen text-brand-ice transition-colors duration-300 border-[3px] border-brand-ice/30 ${
     focusSpotlightOpenState ? 'bg-transparent hide-scrollbar' : 'bg-brand-navy'
@@ -987,6 +1282,9 @@ export default function App() {
             alwaysOnTop={alwaysOnTopEnabled}
             isMaximized={isWindowMaximized}
             onToggleAlwaysOnTop={handleToggleAlwaysOnTop}
+            onOpenSettings={() => setSettingsOpen(true)}
+            trashCount={state.trash.length}
+            onOpenTrash={() => setTrashOpen(true)}
             onMinimize={() => electronApi?.minimizeWindow?.()}
             onToggleMaximize={() => electronApi?.toggleMaximizeWindow?.()}
             onClose={() => electronApi?.closeWindow?.()}
@@ -1009,7 +1307,17 @@ export default function App() {
           <div className="flex items-center justify-between">
             <div className="flex items-center gap-4">
               <div className="text-sm text-brand-ice/70">
-                Completed: {state.stats.totalCompleted} total | {state.stats.todayCompleted} today
+                Completed: {headerStats.totalCompleted} total | {headerStats.todayCompleted} today
+                <span
+                  className={`block text-xs ${goalProgress >= dailyGoal.target ? 'text-brand-aqua' : 'text-brand-ice/60'}`}
+                >
+                  Goal: {goalProgress}/{dailyGoal.target} {dailyGoal.unit === 'minutes' ? 'min' : 'tasks'}
+                </span>
+                {headerStats.totalOverrunSeconds > 0 && (
+                  <span className="block text-xs text-red-400/80">
+                    Over estimate: {formatSeconds(headerStats.totalOverrunSeconds)} total
+                  </span>
+                )}
               </div>
               <button
                 onClick={handleAddTask}
@@ -1018,19 +1326,66 @@ export default function App() {
                 + Add Task
               </button>
             </div>
-            <div className="font-semibold text-brand-coral text-sm">
-              Score: {scoreSign}
-              {scoreValue}
+            <div className="flex flex-col items-end gap-1">
+              <button
+                type="button"
+                className="font-semibold text-brand-coral text-sm hover:underline"
+                onClick={() => setLedgerOpen(true)}
+                title="Show score history"
+              >
+                Score: {scoreSign}
+                {scoreValue}
+              </button>
+              <button
+                type="button"
+                className="text-xs text-brand-ice/60 hover:text-brand-ice"
+                onClick={() => setAchievementsOpen(true)}
+                title="Show streaks and achievements"
+              >
+                Streak: {activeStreak} day{activeStreak === 1 ? '' : 's'}
+              </button>
+              {openTasks.length > 0 && (
+                <span
+                  className="text-xs text-brand-ice/60"
+                  title={
+                    queueProjection.endsAt
+                      ? 'Projected finish of the last queued task'
+                      : 'A queued task has no estimate, so the queue end cannot be projected'
+                  }
+                >
+                  Queue ends: {queueProjection.endsAt ? formatClockTime(queueProjection.endsAt, state.preferences.timeZone) : '?'}
+                  {activeTask?.isPaused && ' (paused)'}
+                </span>
+              )}
             </div>
           </div>
+          {firstConflict && (
+            <p className="mt-3 rounded-md border border-red-400/40 bg-red-500/10 px-3 py-2 text-xs text-red-200">
+              &ldquo;{firstConflict.title}&rdquo; is blocked for {formatClockTime(firstConflict.scheduledStart, state.preferences.timeZone)} but the tasks
+              before it run {formatDuration(firstConflict.lateSeconds)} into the slot.
+              {queueProjection.conflicts.length > 1 && ` ${queueProjection.conflicts.length - 1} more block${queueProjection.conflicts.length === 2 ? ' is' : 's are'} affected.`}
+            </p>
+          )}
+          {overCapacitySeconds > 0 && (
+            <p className="mt-3 rounded-md border border-brand-ember/50 bg-brand-ember/10 px-3 py-2 text-xs text-brand-ember">
+              The queue needs {formatDuration(queueLoad.seconds)} but only {formatDuration(workdaySecondsLeft)} is left
+              before {state.preferences.workdayEndHour.toString().padStart(2, '0')}:00. Trim{' '}
+              {formatDuration(overCapacitySeconds)} to fit.
+              {queueLoad.unestimated > 0 &&
+                ` ${queueLoad.unestimated} task${queueLoad.unestimated === 1 ? ' has' : 's have'} no estimate and ${queueLoad.unestimated === 1 ? 'is' : 'are'} not counted.`}
+            </p>
+          )}
           {activeTask ? (
             <div className="mt-4 rounded-lg border border-brand-teal/50 bg-brand-teal/20 p-3">
               <div className="flex items-center justify-between">
                 <div className="flex-1">
-                  <p className="text-xs uppercase tracking-wide text-brand-aqua/80">Active Task</p>
+                  <p className="text-xs uppercase tracking-wide text-brand-aqua/80">
+                    {isBreakTask(activeTask) ? 'On Break' : 'Active Task'}
+                  </p>
                   <p className="mt-1 text-sm font-semibold text-brand-ice">{activeTask.title}</p>
-                  <p className="font-mono text-sm text-brand-aqua/80">
-                    Time left: {activeTime} {activeTask.isPaused && <span className="text-brand-coral">(Paused)</span>}
+                  <p className={`font-mono text-sm ${activeIsOvertime ? 'text-red-400' : 'text-brand-aqua/80'}`}>
+                    {activeIsStopwatch ? 'Elapsed' : activeIsOvertime ? 'Overtime' : 'Time left'}: {activeTime} {activeTask.isPaused && <span className="text-brand-coral">(Paused)</span>}
+                    {activeHeldUntil && <span className="text-brand-coral">(Starts at {formatClockTime(activeHeldUntil, state.preferences.timeZone)})</span>}
                   </p>
                 </div>
                 <button
@@ -1062,6 +1417,56 @@ export default function App() {
             <p className="text-center text-sm text-brand-ice/70">Create your first task to begin timeboxing.</p>
           ) : (
             <>
+              <div className="flex items-center justify-end gap-2 text-xs text-brand-ice/60">
+                <label htmlFor="queue-sort">Order</label>
+                <select
+                  id="queue-sort"
+                  className="rounded-md border border-brand-teal/40 bg-brand-navy px-2 py-1 text-xs text-brand-ice focus:border-brand-coral focus:outline-none"
+                  value={state.preferences.queueSort}
+                  onChange={(event) => handleSortChange(event.target.value)}
+                  title="The task the timer is on always stays where it is"
+                >
+                  {QUEUE_SORT_STRATEGIES.map((strategy) => (
+                    <option key={strategy.id} value={strategy.id}>
+                      {strategy.label}
+                    </option>
+                  ))}
+                </select>
+                {(taskFilter || taskLabels.projects.length > 0 || taskLabels.tags.length > 0) && (
+                  <>
+                    <label htmlFor="task-filter" className="ml-2">
+                      Show
+                    </label>
+                    <select
+                      id="task-filter"
+                      className="rounded-md border border-brand-teal/40 bg-brand-navy px-2 py-1 text-xs text-brand-ice focus:border-brand-coral focus:outline-none"
+                      value={taskFilter ? `${taskFilter.kind}:${taskFilter.value}` : ''}
+                      onChange={(event) => {
+                        const [kind, ...rest] = event.target.value.split(':');
+                        setTaskFilter(
+                          kind === 'tag' || kind === 'project' ? { kind, value: rest.join(':') } : null
+                        );
+                      }}
+                      title="Filters the list, history, estimates and dashboard"
+                    >
+                      <option value="">All tasks</option>
+                      {taskLabels.projects.map((project) => (
+                        <option key={`project-${project}`} value={`project:${project}`}>
+                          +{project}
+                        </option>
+                      ))}
+                      {taskLabels.tags.map((tag) => (
+                        <option key={`tag-${tag}`} value={`tag:${tag}`}>
+                          #{tag}
+                        </option>
+                      ))}
+                    </select>
+                  </>
+                )}
+              </div>
+              {taskFilter && filteredTasks.length === 0 && (
+                <p className="text-center text-sm text-brand-ice/70">No queued tasks match {filterLabel}.</p>
+              )}
               <DndContext
                 sensors={sensors}
                 modifiers={[restrictToVerticalAxis]}
@@ -1078,6 +1483,8 @@ export default function App() {
                       isActive={activeTask?.id === task.id}
                       isSelected={selectedTaskIds.has(task.id)}
                       multiSelectCount={selectedTaskIds.size}
+                      eta={queueProjection.etas[task.id]}
+                      timeZone={state.preferences.timeZone}
                       onEdit={handleEditTask}
                       onSelect={handleSelectTask}
                       onAddTime={handleTaskAddTime}
@@ -1102,13 +1509,72 @@ export default function App() {
         </section>
 
         <section className="grid grid-cols-4 gap-3">
-          <button
-            type="button"
-            className="rounded-xl border border-brand-coral/80 bg-brand-coral px-3 py-2 text-sm font-semibold text-brand-navy hover:bg-brand-coral/90"
-            onClick={handleAddTask}
-          >
-            + Add Task
-          </button>
+          <div className="relative flex" ref={templateMenuRef}>
+            <button
+              type="button"
+              className="flex-1 rounded-l-xl border border-brand-coral/80 bg-brand-coral px-3 py-2 text-sm font-semibold text-brand-navy hover:bg-brand-coral/90"
+              onClick={handleAddTask}
+            >
+              + Add Task
+            </button>
+            <button
+              type="button"
+              className="rounded-r-xl border border-l-0 border-brand-coral/80 bg-brand-coral px-2 py-2 text-sm font-semibold text-brand-navy hover:bg-brand-coral/90"
+              onClick={() => setShowTemplateMenu(!showTemplateMenu)}
+              title="Add from a template"
+              aria-label="Add from a template"
+            >
+              ▾
+            </button>
+            {showTemplateMenu && (
+              <div className="absolute bottom-full left-0 z-50 mb-2 max-h-72 w-64 overflow-auto rounded-lg border border-brand-coral/40 bg-brand-dusk py-1 shadow-xl">
+                {state.preferences.templates.length === 0 && (
+                  <p className="px-4 py-2 text-xs text-brand-ice/50">No templates yet.</p>
+                )}
+                {state.preferences.templates.map((template) => (
+                  <button
+                    key={template.id}
+                    type="button"
+                    className="flex w-full justify-between gap-2 px-4 py-2 text-left text-sm text-brand-ice hover:bg-brand-coral/10"
+                    onClick={() => handleAddTemplates([template])}
+                  >
+                    <span className="truncate">{template.title}</span>
+                    {template.seconds !== undefined && (
+                      <span className="shrink-0 text-xs text-brand-ice/50">{formatDuration(template.seconds)}</span>
+                    )}
+                  </button>
+                ))}
+                {state.preferences.templateGroups.length > 0 && (
+                  <p className="mt-1 border-t border-brand-ice/10 px-4 pt-2 text-[10px] uppercase tracking-wide text-brand-ice/40">
+                    Routines
+                  </p>
+                )}
+                {state.preferences.templateGroups.map((group) => (
+                  <button
+                    key={group.id}
+                    type="button"
+                    className="flex w-full justify-between gap-2 px-4 py-2 text-left text-sm text-brand-ice hover:bg-brand-coral/10"
+                    onClick={() => handleAddTemplates(getGroupTemplates(group, state.preferences.templates))}
+                  >
+                    <span className="truncate">{group.name}</span>
+                    <span className="shrink-0 text-xs text-brand-ice/50">
+                      {group.templateIds.length} task{group.templateIds.length === 1 ? '' : 's'}
+                    </span>
+                  </button>
+                ))}
+                <button
+                  type="button"
+                  className="mt-1 w-full border-t border-brand-ice/10 px-4 py-2 text-left text-xs text-brand-coral hover:bg-brand-coral/10"
+                  onClick={() => {
+                    setShowTemplateMenu(false);
+                    setSettingsOpen(true);
+                  }}
+                >
+                  Manage templates…
+                </button>
+              </div>
+            )}
+          </div>
           <div className="relative" ref={uploadMenuRef}>
             <input
               ref={fileInputRef}
@@ -1189,8 +1655,25 @@ export default function App() {
           </button>
         </div>
 
-        <footer className="text-xs text-brand-ice/60">
-          {pendingCount > 0 ? `${pendingCount} task${pendingCount === 1 ? '' : 's'} pending` : 'All tasks completed'}
+        <footer className="flex items-center justify-between text-xs text-brand-ice/60">
+          <span>
+            {pendingCount > 0 ? `${pendingCount} task${pendingCount === 1 ? '' : 's'} pending` : 'All tasks completed'}
+            {state.deferred.length > 0 && ` · ${state.deferred.length} scheduled later`}
+          </span>
+          <span className="flex gap-3">
+            <button type="button" className="text-brand-aqua/80 hover:text-brand-aqua" onClick={() => setDashboardOpen(true)}>
+              Dashboard
+            </button>
+            <button type="button" className="text-brand-aqua/80 hover:text-brand-aqua" onClick={() => setEstimatesOpen(true)}>
+              Estimates
+            </button>
+            <button type="button" className="text-brand-aqua/80 hover:text-brand-aqua" onClick={() => setTimelineOpen(true)}>
+              Timeline
+            </button>
+            <button type="button" className="text-brand-aqua/80 hover:text-brand-aqua" onClick={() => setHistoryOpen(true)}>
+              View history
+            </button>
+          </span>
         </footer>
         </main>
         )}
@@ -1204,20 +1687,122 @@ export default function App() {
           subtitle={modalState.mode === 'create' ? 'Define your next focus block.' : 'Refine the task details.'}
           initialTitle={modalState.task?.title}
           initialSeconds={modalState.task?.timeAssignedSeconds}
-          requireTime={modalState.mode === 'create' ? requiresTimeForNextTask : false}
+          initialNeedsEstimate={modalState.task?.needsEstimate}
+          initialScheduledStart={modalState.task?.scheduledStart}
+          initialTags={modalState.task?.tags}
+          initialProject={modalState.task?.project}
+          initialNotes={modalState.task?.notes}
+          initialSubtasks={modalState.task?.subtasks}
+          initialPriority={modalState.task?.priority}
+          initialDueAt={modalState.task?.dueAt}
+          initialRecurrence={modalSeries?.rule}
+          isRecurringInstance={Boolean(modalSeries)}
+          sessions={modalState.task?.sessions ?? []}
+          estimateMultiplier={estimateMultiplier}
+          timeZone={state.preferences.timeZone}
           onSubmit={handleModalSubmit}
           onCancel={closeModal}
         />
       ) : null}
 
-      <AddTimeModal open={addTimeOpen} onSubmit={handleAddTime} onCancel={() => setAddTimeOpen(false)} />
+      <AddTimeModal
+        open={addTimeOpen}
+        scoreDelta={state.preferences.scoring.addTime}
+        onSubmit={handleAddTime}
+        onCancel={() => setAddTimeOpen(false)}
+      />
 
       <BulkTaskModal
         open={showBulkTaskModal}
         onSubmit={handleBulkTaskSubmit}
+        templates={state.preferences.templates}
+        groups={state.preferences.templateGroups}
+        onAddTemplates={handleAddTemplates}
         onCancel={() => setShowBulkTaskModal(false)}
       />
 
+      <SettingsModal
+        open={settingsOpen}
+        preferences={state.preferences}
+        onSave={updatePreferences}
+        onClose={() => setSettingsOpen(false)}
+        onListBackups={listBackups}
+        onRestoreBackup={restoreBackup}
+        recurring={state.recurring}
+        onStopRecurring={stopRecurring}
+      />
+
+      <DashboardModal
+        open={dashboardOpen}
+        dailyStats={dashboardStats}
+        todayKey={state.rollover.dayKey}
+        filterLabel={filterLabel}
+        onClose={() => setDashboardOpen(false)}
+      />
+
+      <EstimatesModal
+        open={estimatesOpen}
+        tasks={filteredHistoryTasks}
+        dayBoundary={state.preferences}
+        filterLabel={filterLabel}
+        onClose={() => setEstimatesOpen(false)}
+      />
+
+      <TimelineModal
+        open={timelineOpen}
+        tasks={state.tasks}
+        projection={queueProjection}
+        timeZone={state.preferences.timeZone}
+        onClose={() => setTimelineOpen(false)}
+      />
+
+      <ScoreLedgerModal
+        open={ledgerOpen}
+        score={state.score}
+        ledger={state.scoreLedger}
+        tasks={ledgerTasks}
+        dayBoundary={state.preferences}
+        onRecompute={recomputeScore}
+        onClose={() => setLedgerOpen(false)}
+      />
+
+      <AchievementsModal
+        open={achievementsOpen}
+        streak={state.streak}
+        goal={state.preferences.dailyGoal}
+        todayKey={state.rollover.dayKey}
+        progress={achievementProgress}
+        onClose={() => setAchievementsOpen(false)}
+      />
+
+      <AchievementToast
+        achievement={unlockQueue.length > 0 ? getAchievement(unlockQueue[0]) ?? null : null}
+        onDismiss={dismissUnlock}
+      />
+
+      <HistoryModal
+        open={historyOpen}
+        tasks={filteredHistoryTasks}
+        dayBoundary={state.preferences}
+        filterLabel={filterLabel}
+        onClose={() => setHistoryOpen(false)}
+      />
+
+      <TrashModal
+        open={trashOpen}
+        trash={state.trash}
+        retentionDays={state.preferences.trashRetentionDays}
+        onRestore={restoreFromTrash}
+        onPurge={purgeFromTrash}
+        onClose={() => setTrashOpen(false)}
+      />
+
+      {hydrated && !recoveryIssue && (
+        <CarryOverModal tasks={carryOverTasks} todayKey={state.rollover.dayKey} onResolve={resolveCarryOver} />
+      )}
+
+      <RecoveryDialog issue={recoveryIssue} onResolve={resolveRecovery} />
+
       <ReminderPopup
         open={reminderOpen}
         taskTitle={activeTask?.title}
@@ -1231,6 +1816,11 @@ export default function App() {
           open={focusSpotlightOpenState}
           taskTitle={activeTask?.title}
           timeRemaining={activeTime}
+          isStopwatch={activeIsStopwatch}
+          isOvertime={activeIsOvertime}
+          notes={activeTask?.notes}
+          subtasks={activeTask?.subtasks}
+          onToggleSubtask={activeTask ? (subtaskId) => toggleSubtask(activeTask.id, subtaskId) : undefined}
           onClose={() => {
             updateFocusSpotlightOpen(false);
           }}
@@ -1248,7 +1838,7 @@ export default function App() {
           <div className="w-full max-w-md rounded-2xl border border-brand-ice/30 bg-brand-navy p-6 shadow-2xl">
             <h3 className="text-lg font-bold text-brand-ice mb-2">Confirm Deletion</h3>
             <p className="text-sm text-brand-ice/80 mb-6">
-              Are you sure you want to delete <span className="font-semibold text-brand-coral">{tasksToDelete.length} tasks</span>? This action cannot be undone.
+              Are you sure you want to delete <span className="font-semibold text-brand-coral">{tasksToDelete.length} tasks</span>? They will be moved to the trash.
             </p>
             <div className="flex gap-3">
               <button
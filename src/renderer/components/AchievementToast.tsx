@@ -0,0 +1,36 @@
+import { useEffect } from 'react';
+import type { AchievementDefinition } from '../../shared/achievements';
+
+interface AchievementToastProps {
+  achievement: AchievementDefinition | null;
+  onDismiss: () => void;
+}
+
+const TOAST_DURATION_MS = 6000;
+
+export function AchievementToast({ achievement, onDismiss }: AchievementToastProps) {
+  useEffect(() => {
+    if (!achievement) {
+      return;
+    }
+    const timeout = setTimeout(onDismiss, TOAST_DURATION_MS);
+    return () => clearTimeout(timeout);
+  }, [achievement, onDismiss]);
+
+  if (!achievement) {
+    return null;
+  }
+
+  return (
+    <button
+      type="button"
+      className="app-region-no-drag fixed bottom-4 right-4 z-40 w-64 rounded-xl border border-brand-aqua/50 bg-brand-dusk p-3 text-left shadow-2xl"
+      onClick={onDismiss}
+      aria-live="polite"
+    >
+      <p className="text-[10px] uppercase tracking-wide text-brand-aqua/80">Achievement unlocked</p>
+      <p className="mt-1 text-sm font-semibold text-brand-ice">{achievement.title}</p>
+      <p className="text-xs text-brand-ice/60">{achievement.description}</p>
+    </button>
+  );
+}
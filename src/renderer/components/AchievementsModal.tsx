@@ -0,0 +1,94 @@
+import type { DailyGoal, StreakState } from '../../shared/types';
+import { AchievementProgress, getActiveStreak } from '../../shared/achievements';
+import { describeGoal } from '../../shared/goals';
+
+interface AchievementsModalProps {
+  open: boolean;
+  streak: StreakState;
+  goal: DailyGoal;
+  todayKey: string;
+  progress: AchievementProgress[];
+  onClose: () => void;
+}
+
+export function AchievementsModal({ open, streak, goal, todayKey, progress, onClose }: AchievementsModalProps) {
+  if (!open) {
+    return null;
+  }
+
+  const activeStreak = getActiveStreak(streak, todayKey);
+  const unlockedCount = progress.filter((item) => item.unlockedAt).length;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-brand-navy/85 px-4">
+      <div className="w-full max-w-md rounded-xl border border-brand-teal/40 bg-brand-dusk p-6 shadow-2xl flex flex-col max-h-[80vh]">
+        <header className="mb-4 app-region-no-drag">
+          <h2 className="modal-heading font-semibold text-brand-ice">Streaks &amp; Achievements</h2>
+          <p className="modal-subtitle mt-1 text-brand-ice/80">
+            A day counts towards your streak once you reach {describeGoal(goal)}.
+          </p>
+        </header>
+        <div className="overflow-auto flex-1 space-y-4">
+          <div className="grid grid-cols-3 gap-2 text-center">
+            <div className="rounded-lg bg-brand-navy/40 p-2">
+              <p className="text-lg font-semibold text-brand-coral">{activeStreak}</p>
+              <p className="text-[10px] uppercase tracking-wide text-brand-ice/50">Current streak</p>
+            </div>
+            <div className="rounded-lg bg-brand-navy/40 p-2">
+              <p className="text-lg font-semibold text-brand-ice">{streak.longest}</p>
+              <p className="text-[10px] uppercase tracking-wide text-brand-ice/50">Longest streak</p>
+            </div>
+            <div className="rounded-lg bg-brand-navy/40 p-2">
+              <p className="text-lg font-semibold text-brand-ice">
+                {unlockedCount}/{progress.length}
+              </p>
+              <p className="text-[10px] uppercase tracking-wide text-brand-ice/50">Unlocked</p>
+            </div>
+          </div>
+          {activeStreak > 0 && streak.lastMetDayKey !== todayKey && (
+            <p className="text-xs text-brand-ember">Meet today&apos;s goal to keep your streak going.</p>
+          )}
+          <ul className="space-y-2">
+            {progress.map(({ achievement, value, unlockedAt }) => (
+              <li
+                key={achievement.id}
+                className={`rounded-md px-3 py-2 ${unlockedAt ? 'border border-brand-aqua/40 bg-brand-aqua/10' : 'bg-brand-navy/40'}`}
+              >
+                <div className="flex items-start justify-between gap-3">
+                  <div>
+                    <p className={`text-sm font-semibold ${unlockedAt ? 'text-brand-aqua' : 'text-brand-ice/70'}`}>
+                      {achievement.title}
+                    </p>
+                    <p className="text-xs text-brand-ice/60">{achievement.description}</p>
+                  </div>
+                  <span className="shrink-0 text-xs text-brand-ice/50">
+                    {unlockedAt
+                      ? new Date(unlockedAt).toLocaleDateString([], { month: 'short', day: 'numeric' })
+                      : `${value}/${achievement.target}`}
+                  </span>
+                </div>
+                {!unlockedAt && (
+                  <div className="mt-2 h-1 rounded-full bg-brand-ice/10">
+                    <div
+                      className="h-1 rounded-full bg-brand-coral/70"
+                      style={{ width: `${(value / achievement.target) * 100}%` }}
+                    />
+                  </div>
+                )}
+              </li>
+            ))}
+          </ul>
+        </div>
+        <footer className="mt-6 flex justify-end app-region-no-drag">
+          <button
+            type="button"
+            className="rounded-md bg-brand-coral px-4 py-2 text-sm font-semibold text-brand-navy hover:bg-brand-coral/90"
+            onClick={onClose}
+          >
+            Done
+          </button>
+        </footer>
+      </div>
+    </div>
+  );
+}
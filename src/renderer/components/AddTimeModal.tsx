@@ -1,12 +1,15 @@
 import { ChangeEvent, useEffect, useState } from 'react';
+import { describeScoreChange } from '../../shared/scoring';
 
 interface AddTimeModalProps {
   open: boolean;
+  /** Points booked by the add-time rule, used to warn before confirming. */
+  scoreDelta: number;
   onSubmit: (seconds: number) => void;
   onCancel: () => void;
 }
 
-export function AddTimeModal({ open, onSubmit, onCancel }: AddTimeModalProps) {
+export function AddTimeModal({ open, scoreDelta, onSubmit, onCancel }: AddTimeModalProps) {
   const MAX_TOTAL_MINUTES = 180;
   const MAX_HOURS = Math.floor(MAX_TOTAL_MINUTES / 60);
   const [hours, setHours] = useState<number>(0);
@@ -23,6 +26,7 @@ export function AddTimeModal({ open, onSubmit, onCancel }: AddTimeModalProps) {
     return null;
   }
 
+  const scoreChange = describeScoreChange(scoreDelta);
   const totalMinutes = hours * 60 + minutes;
   const isValidTime = totalMinutes > 0;
 
@@ -60,7 +64,7 @@ export function AddTimeModal({ open, onSubmit, onCancel }: AddTimeModalProps) {
     <div className="fixed inset-0 z-50 flex items-center justify-center bg-brand-navy/85 px-4">
       <div className="w-full max-w-xs rounded-lg border border-brand-teal/40 bg-brand-dusk p-5 shadow-2xl">
         <h3 className="text-base font-semibold text-brand-ice">Add Time</h3>
-        <p className="mt-2 text-sm text-brand-ice/80">Adding time will deduct 1 score point.</p>
+        {scoreChange ? <p className="mt-2 text-sm text-brand-ice/80">Adding time will {scoreChange}.</p> : null}
         <div className="mt-5 space-y-3">
           <div className="flex items-center justify-between text-xs text-brand-ice/70">
             <span>Time to add</span>
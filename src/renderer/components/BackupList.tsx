@@ -0,0 +1,118 @@
+import { useEffect, useState } from 'react';
+import type { BackupInfo, BackupKind } from '../../shared/types';
+import { formatClockTime } from '../utils/time';
+
+interface BackupListProps {
+  open: boolean;
+  onList: () => Promise<BackupInfo[]>;
+  onRestore: (backupId: string) => Promise<void>;
+  onRestored: () => void;
+  timeZone: string;
+}
+
+const kindLabel: Record<BackupKind, string> = {
+  hourly: 'hourly',
+  daily: 'daily',
+  'pre-restore': 'before restore'
+};
+
+const formatSize = (bytes: number): string =>
+  bytes >= 1024 ? `${(bytes / 1024).toFixed(1)} KB` : `${bytes} B`;
+
+export function BackupList({ open, onList, onRestore, onRestored, timeZone }: BackupListProps) {
+  const [backups, setBackups] = useState<BackupInfo[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [restoringId, setRestoringId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open) {
+      return;
+    }
+    let mounted = true;
+    setError(null);
+    onList()
+      .then((list) => {
+        if (mounted) {
+          setBackups(list);
+        }
+      })
+      .catch((listError: unknown) => {
+        console.error('Failed to list backups', listError);
+        if (mounted) {
+          setError('Could not read the backup folder.');
+        }
+      });
+    return () => {
+      mounted = false;
+    };
+  }, [open, onList]);
+
+  const handleRestore = async (backup: BackupInfo) => {
+    const label = new Date(backup.createdAt).toLocaleString([], { timeZone: timeZone || undefined });
+    if (!window.confirm(`Restore the snapshot from ${label}? Your current tasks will be replaced (a copy is kept).`)) {
+      return;
+    }
+    setRestoringId(backup.id);
+    try {
+      await onRestore(backup.id);
+      onRestored();
+    } catch (restoreError) {
+      console.error('Failed to restore backup', restoreError);
+      setError('That snapshot could not be restored.');
+    } finally {
+      setRestoringId(null);
+    }
+  };
+
+  if (error) {
+    return <p className="text-xs text-red-300">{error}</p>;
+  }
+  if (!backups) {
+    return <p className="text-xs text-brand-ice/50">Loading snapshots…</p>;
+  }
+  if (backups.length === 0) {
+    return <p className="text-xs text-brand-ice/50">No snapshots yet. One is taken every hour while you work.</p>;
+  }
+
+  const days = new Map<string, BackupInfo[]>();
+  backups.forEach((backup) => {
+    const day = new Date(backup.createdAt).toLocaleDateString([], {
+      weekday: 'short',
+      month: 'short',
+      day: 'numeric',
+      timeZone: timeZone || undefined
+    });
+    days.set(day, [...(days.get(day) ?? []), backup]);
+  });
+
+  return (
+    <div className="space-y-2">
+      {Array.from(days.entries()).map(([day, dayBackups]) => (
+        <div key={day} className="space-y-1">
+          <p className="text-[11px] font-semibold uppercase tracking-wide text-brand-ice/50">{day}</p>
+          <ul className="space-y-1">
+            {dayBackups.map((backup) => (
+              <li key={backup.id} className="flex items-center justify-between gap-2 text-xs text-brand-ice/80">
+                <span>
+                  <span className="font-mono">{formatClockTime(backup.createdAt, timeZone)}</span>
+                  <span className="text-brand-ice/50">
+                    {' '}
+                    · {kindLabel[backup.kind]} · {formatSize(backup.sizeBytes)}
+                  </span>
+                </span>
+                <button
+                  type="button"
+                  className="app-region-no-drag rounded border border-brand-teal/40 px-2 py-0.5 text-[11px] font-medium text-brand-aqua hover:border-brand-aqua disabled:opacity-50"
+                  disabled={restoringId !== null}
+                  onClick={() => void handleRestore(backup)}
+                >
+                  {restoringId === backup.id ? 'Restoring…' : 'Restore'}
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      ))}
+    </div>
+  );
+}
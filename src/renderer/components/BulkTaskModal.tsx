@@ -1,12 +1,20 @@
 import { useState } from 'react';
+import type { TaskTemplate, TemplateGroup } from '../../shared/types';
+import { getGroupTemplates } from '../../shared/templates';
 
 interface BulkTaskModalProps {
   open: boolean;
   onSubmit: (tasksText: string) => void;
   onCancel: () => void;
+  templates?: TaskTemplate[];
+  groups?: TemplateGroup[];
+  onAddTemplates?: (templates: TaskTemplate[]) => void;
 }
 
-export function BulkTaskModal({ open, onSubmit, onCancel }: BulkTaskModalProps) {
+const templateButtonClasses =
+  'rounded-full border border-brand-aqua/50 px-3 py-1 text-xs text-brand-aqua hover:bg-brand-aqua/10';
+
+export function BulkTaskModal({ open, onSubmit, onCancel, templates = [], groups = [], onAddTemplates }: BulkTaskModalProps) {
   const [tasksText, setTasksText] = useState('');
 
   if (!open) {
@@ -29,6 +37,7 @@ export function BulkTaskModal({ open, onSubmit, onCancel }: BulkTaskModalProps)
           <p>• Task name [HH:MM] - e.g., "Write report [01:30]"</p>
           <p>• Task; x mins - e.g., "Testing123; 5"</p>
           <p>• Task name - e.g., "Call John" (no time)</p>
+          <p>• Add #tags and a +project anywhere in a line - e.g., "Draft intro #writing +book; 25"</p>
         </div>
 
         <textarea
@@ -39,6 +48,37 @@ export function BulkTaskModal({ open, onSubmit, onCancel }: BulkTaskModalProps)
           rows={8}
         />
 
+        {onAddTemplates && templates.length > 0 && (
+          <div className="mt-4">
+            <p className="text-xs text-brand-ice/60">Or add from templates:</p>
+            <div className="mt-2 flex flex-wrap gap-2">
+              {groups.map((group) => (
+                <button
+                  key={group.id}
+                  type="button"
+                  className={`${templateButtonClasses} font-semibold`}
+                  onClick={() => onAddTemplates(getGroupTemplates(group, templates))}
+                  title={getGroupTemplates(group, templates)
+                    .map((template) => template.title)
+                    .join(', ')}
+                >
+                  {group.name}
+                </button>
+              ))}
+              {templates.map((template) => (
+                <button
+                  key={template.id}
+                  type="button"
+                  className={templateButtonClasses}
+                  onClick={() => onAddTemplates([template])}
+                >
+                  {template.title}
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+
         <div className="mt-5 flex justify-end gap-3">
           <button
             type="button"
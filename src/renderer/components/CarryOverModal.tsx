@@ -0,0 +1,116 @@
+import { ChangeEvent, useState } from 'react';
+import type { CarryOverChoice, CarryOverDecision, Task } from '../../shared/types';
+import { addDays } from '../../shared/dates';
+import { formatSeconds } from '../utils/time';
+
+interface CarryOverModalProps {
+  tasks: Task[];
+  todayKey: string;
+  onResolve: (decisions: CarryOverDecision[]) => void;
+}
+
+const choiceLabels: Record<CarryOverChoice, string> = {
+  carry: 'Keep',
+  reschedule: 'Later',
+  drop: 'Drop'
+};
+
+const inputClasses =
+  'app-region-no-drag rounded-md border border-brand-teal/40 bg-brand-navy px-2 py-0.5 text-xs text-brand-ice focus:border-brand-coral focus:outline-none focus:ring-1 focus:ring-brand-coral/60';
+
+export function CarryOverModal({ tasks, todayKey, onResolve }: CarryOverModalProps) {
+  const tomorrowKey = addDays(todayKey, 1);
+  // Tasks without an entry default to being kept.
+  const [decisions, setDecisions] = useState<Record<string, CarryOverDecision>>({});
+
+  if (tasks.length === 0) {
+    return null;
+  }
+
+  const setChoice = (taskId: string, choice: CarryOverChoice) => {
+    setDecisions((prev) => ({
+      ...prev,
+      [taskId]: { taskId, choice, until: choice === 'reschedule' ? prev[taskId]?.until ?? tomorrowKey : undefined }
+    }));
+  };
+
+  const setUntil = (taskId: string, until: string) => {
+    setDecisions((prev) => ({ ...prev, [taskId]: { taskId, choice: 'reschedule', until: until < tomorrowKey ? tomorrowKey : until } }));
+  };
+
+  const handleApply = () => {
+    onResolve(tasks.map((task) => decisions[task.id] ?? { taskId: task.id, choice: 'carry' }));
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-brand-navy/85 px-4">
+      <div className="w-full max-w-md rounded-xl border border-brand-teal/40 bg-brand-dusk p-6 shadow-2xl flex flex-col max-h-[80vh]">
+        <header className="mb-4 app-region-no-drag">
+          <h2 className="modal-heading font-semibold text-brand-ice">A new day</h2>
+          <p className="modal-subtitle mt-1 text-brand-ice/80">
+            {tasks.length} task{tasks.length === 1 ? ' was' : 's were'} left unfinished. Keep them in today&apos;s queue,
+            schedule them for later, or drop them to the trash.
+          </p>
+        </header>
+        <ul className="overflow-auto flex-1 space-y-2">
+          {tasks.map((task) => {
+            const decision = decisions[task.id] ?? { taskId: task.id, choice: 'carry' };
+            return (
+              <li key={task.id} className="space-y-2 rounded-lg border border-brand-ice/10 bg-brand-navy/40 px-3 py-2">
+                <div className="flex items-center justify-between gap-2">
+                  <p className="truncate text-sm font-medium text-brand-ice">{task.title}</p>
+                  {task.timeAssignedSeconds !== undefined && (
+                    <span className="flex-shrink-0 font-mono text-[11px] text-brand-ice/50">
+                      {formatSeconds(task.remainingSeconds ?? task.timeAssignedSeconds)} left
+                    </span>
+                  )}
+                </div>
+                <div className="flex flex-wrap items-center gap-1 app-region-no-drag">
+                  {(Object.keys(choiceLabels) as CarryOverChoice[]).map((choice) => (
+                    <button
+                      key={choice}
+                      type="button"
+                      className={`rounded px-2 py-0.5 text-[11px] font-semibold transition ${
+                        decision.choice === choice
+                          ? 'bg-brand-coral text-brand-navy'
+                          : 'border border-brand-ice/20 text-brand-ice/70 hover:border-brand-ice/50'
+                      }`}
+                      onClick={() => setChoice(task.id, choice)}
+                    >
+                      {choiceLabels[choice]}
+                    </button>
+                  ))}
+                  {decision.choice === 'reschedule' && (
+                    <input
+                      type="date"
+                      className={inputClasses}
+                      min={tomorrowKey}
+                      value={decision.until ?? tomorrowKey}
+                      onChange={(event: ChangeEvent<HTMLInputElement>) => setUntil(task.id, event.target.value)}
+                    />
+                  )}
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+        <footer className="mt-6 flex justify-end gap-3 app-region-no-drag">
+          <button
+            type="button"
+            className="rounded-md border border-brand-ice/30 px-4 py-2 text-sm font-medium text-brand-ice hover:border-brand-ice/60"
+            onClick={() => onResolve(tasks.map((task) => ({ taskId: task.id, choice: 'carry' })))}
+          >
+            Keep All
+          </button>
+          <button
+            type="button"
+            className="rounded-md bg-brand-coral px-4 py-2 text-sm font-semibold text-brand-navy hover:bg-brand-coral/90"
+            onClick={handleApply}
+          >
+            Apply
+          </button>
+        </footer>
+      </div>
+    </div>
+  );
+}
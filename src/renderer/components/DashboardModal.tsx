@@ -0,0 +1,192 @@
+import { useMemo, useState } from 'react';
+import type { DailyStats } from '../../shared/types';
+import { createEmptyDailyStats } from '../../shared/dailyStats';
+import { addDays, formatDayLabel } from '../../shared/dates';
+import { formatDuration } from '../utils/time';
+
+interface DashboardModalProps {
+  open: boolean;
+  dailyStats: Record<string, DailyStats>;
+  todayKey: string;
+  /** Set when the stats were rebuilt for one tag or project. */
+  filterLabel?: string;
+  onClose: () => void;
+}
+
+type DashboardRange = 'week' | 'month';
+
+const RANGE_DAYS: Record<DashboardRange, number> = { week: 7, month: 30 };
+
+interface ChartSegment {
+  value: number;
+  className: string;
+}
+
+interface ChartColumn {
+  dayKey: string;
+  segments: ChartSegment[];
+  title: string;
+}
+
+const dayNumber = (dayKey: string) => Number(dayKey.slice(8, 10));
+
+const weekdayLabel = (dayKey: string) =>
+  new Date(`${dayKey}T00:00:00Z`).toLocaleDateString([], { weekday: 'short', timeZone: 'UTC' });
+
+function BarChart({ columns, range }: { columns: ChartColumn[]; range: DashboardRange }) {
+  const max = Math.max(1, ...columns.map((column) => column.segments.reduce((total, segment) => total + segment.value, 0)));
+  return (
+    <div>
+      <div className="flex h-24 items-end gap-0.5">
+        {columns.map((column) => (
+          <div key={column.dayKey} className="flex h-full flex-1 flex-col justify-end" title={column.title}>
+            {column.segments.map((segment, index) =>
+              segment.value > 0 ? (
+                <div
+                  key={index}
+                  className={`w-full first:rounded-t-sm ${segment.className}`}
+                  style={{ height: `${(segment.value / max) * 100}%` }}
+                />
+              ) : null
+            )}
+          </div>
+        ))}
+      </div>
+      <div className="mt-1 flex gap-0.5 text-[9px] text-brand-ice/40">
+        {columns.map((column, index) => (
+          <span key={column.dayKey} className="flex-1 text-center">
+            {range === 'week'
+              ? weekdayLabel(column.dayKey)
+              : index % 5 === 0
+              ? dayNumber(column.dayKey)
+              : ''}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+export function DashboardModal({ open, dailyStats, todayKey, filterLabel, onClose }: DashboardModalProps) {
+  const [range, setRange] = useState<DashboardRange>('week');
+
+  const days = useMemo(() => {
+    const count = RANGE_DAYS[range];
+    return Array.from({ length: count }, (_, index) => {
+      const dayKey = addDays(todayKey, index - (count - 1));
+      return { dayKey, stats: dailyStats[dayKey] ?? createEmptyDailyStats() };
+    });
+  }, [range, todayKey, dailyStats]);
+
+  if (!open) {
+    return null;
+  }
+
+  const totals = days.reduce((sum, { stats }) => ({
+    completed: sum.completed + stats.completed,
+    manual: sum.manual + stats.manual,
+    auto: sum.auto + stats.auto,
+    timeAssignedSeconds: sum.timeAssignedSeconds + stats.timeAssignedSeconds,
+    timeAddedSeconds: sum.timeAddedSeconds + stats.timeAddedSeconds,
+    scoreDelta: sum.scoreDelta + stats.scoreDelta,
+    focusedSeconds: sum.focusedSeconds + stats.focusedSeconds
+  }), createEmptyDailyStats());
+
+  const completionColumns: ChartColumn[] = days.map(({ dayKey, stats }) => ({
+    dayKey,
+    title: `${formatDayLabel(dayKey)}: ${stats.manual} completed, ${stats.auto} struck`,
+    segments: [
+      { value: stats.auto, className: 'bg-brand-coral/70' },
+      { value: stats.manual, className: 'bg-brand-aqua' }
+    ]
+  }));
+
+  const timeColumns: ChartColumn[] = days.map(({ dayKey, stats }) => ({
+    dayKey,
+    title: `${formatDayLabel(dayKey)}: ${formatDuration(stats.timeAssignedSeconds)} assigned, ${formatDuration(stats.timeAddedSeconds)} added, ${formatDuration(stats.focusedSeconds)} focused`,
+    segments: [
+      { value: stats.timeAddedSeconds, className: 'bg-brand-ember' },
+      { value: stats.timeAssignedSeconds, className: 'bg-brand-teal' }
+    ]
+  }));
+
+  const scoreColumns: ChartColumn[] = days.map(({ dayKey, stats }) => ({
+    dayKey,
+    title: `${formatDayLabel(dayKey)}: ${stats.scoreDelta >= 0 ? '+' : ''}${stats.scoreDelta} points`,
+    segments: [{ value: Math.abs(stats.scoreDelta), className: stats.scoreDelta >= 0 ? 'bg-brand-aqua/80' : 'bg-red-500/80' }]
+  }));
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-brand-navy/85 px-4">
+      <div className="w-full max-w-lg rounded-xl border border-brand-teal/40 bg-brand-dusk p-6 shadow-2xl flex flex-col max-h-[85vh]">
+        <header className="mb-4 flex items-start justify-between gap-3 app-region-no-drag">
+          <div>
+            <h2 className="modal-heading font-semibold text-brand-ice">Dashboard</h2>
+            <p className="modal-subtitle mt-1 text-brand-ice/80">
+              Your last {RANGE_DAYS[range]} days at a glance{filterLabel ? `, for ${filterLabel} only` : ''}.
+            </p>
+          </div>
+          <div className="flex rounded-md border border-brand-ice/20 text-xs">
+            {(Object.keys(RANGE_DAYS) as DashboardRange[]).map((option) => (
+              <button
+                key={option}
+                type="button"
+                className={`px-3 py-1 capitalize ${range === option ? 'bg-brand-coral text-brand-navy font-semibold' : 'text-brand-ice/70'}`}
+                onClick={() => setRange(option)}
+              >
+                {option}
+              </button>
+            ))}
+          </div>
+        </header>
+        <div className="overflow-auto flex-1 space-y-4">
+          <div className="grid grid-cols-3 gap-2 text-center">
+            <div className="rounded-lg bg-brand-navy/40 p-2">
+              <p className="text-lg font-semibold text-brand-ice">{totals.completed}</p>
+              <p className="text-[10px] uppercase tracking-wide text-brand-ice/50">Finished</p>
+            </div>
+            <div className="rounded-lg bg-brand-navy/40 p-2">
+              <p className={`text-lg font-semibold ${totals.scoreDelta >= 0 ? 'text-brand-aqua' : 'text-red-400'}`}>
+                {totals.scoreDelta >= 0 ? '+' : ''}
+                {totals.scoreDelta}
+              </p>
+              <p className="text-[10px] uppercase tracking-wide text-brand-ice/50">Score</p>
+            </div>
+            <div className="rounded-lg bg-brand-navy/40 p-2">
+              <p className="text-lg font-semibold text-brand-ice">{formatDuration(totals.timeAssignedSeconds)}</p>
+              <p className="text-[10px] uppercase tracking-wide text-brand-ice/50">Planned</p>
+            </div>
+          </div>
+          <section className="space-y-1">
+            <h3 className="text-xs font-semibold text-brand-ice/80">
+              Tasks finished <span className="text-brand-aqua">■ completed {totals.manual}</span>{' '}
+              <span className="text-brand-coral/80">■ struck {totals.auto}</span>
+            </h3>
+            <BarChart columns={completionColumns} range={range} />
+          </section>
+          <section className="space-y-1">
+            <h3 className="text-xs font-semibold text-brand-ice/80">
+              Time <span className="text-brand-teal">■ assigned</span>{' '}
+              <span className="text-brand-ember">■ added {formatDuration(totals.timeAddedSeconds)}</span>{' '}
+              <span className="text-brand-ice/60">· focused {formatDuration(totals.focusedSeconds)}</span>
+            </h3>
+            <BarChart columns={timeColumns} range={range} />
+          </section>
+          <section className="space-y-1">
+            <h3 className="text-xs font-semibold text-brand-ice/80">Score change per day</h3>
+            <BarChart columns={scoreColumns} range={range} />
+          </section>
+        </div>
+        <footer className="mt-6 flex justify-end app-region-no-drag">
+          <button
+            type="button"
+            className="rounded-md bg-brand-coral px-4 py-2 text-sm font-semibold text-brand-navy hover:bg-brand-coral/90"
+            onClick={onClose}
+          >
+            Done
+          </button>
+        </footer>
+      </div>
+    </div>
+  );
+}
@@ -1,5 +1,21 @@
-import { useEffect, useMemo, useState, ChangeEvent } from 'react';
-import { combineToSeconds, splitSeconds } from '../utils/time';
+import { useEffect, useMemo, useState, ChangeEvent, KeyboardEvent } from 'react';
+import { v4 as uuidv4 } from 'uuid';
+import type { RecurrenceRule, Subtask, TaskDetails, TaskPriority, WorkSession } from '../../shared/types';
+import { applyCorrection } from '../../shared/estimation';
+import { normalizeRecurrenceRule } from '../../shared/recurrence';
+import { formatTags, parseTags, parseTitleTokens } from '../../shared/tags';
+import { normalizePriority } from '../../shared/sorting';
+import {
+  combineToSeconds,
+  formatDuration,
+  fromDateTimeInputValue,
+  fromTimeInputValue,
+  splitSeconds,
+  toDateTimeInputValue,
+  toTimeInputValue
+} from '../utils/time';
+import { SessionTimeline } from './SessionTimeline';
+import { Markdown } from './Markdown';
 
 interface EditModalProps {
   open: boolean;
@@ -8,12 +24,53 @@ interface EditModalProps {
   subtitle?: string;
   initialTitle?: string;
   initialSeconds?: number;
+  initialNeedsEstimate?: boolean;
+  initialScheduledStart?: string;
+  initialTags?: string[];
+  initialProject?: string;
+  initialNotes?: string;
+  initialSubtasks?: Subtask[];
+  initialPriority?: TaskPriority;
+  initialDueAt?: string;
+  initialRecurrence?: RecurrenceRule;
+  /** The task belongs to a series, so edits can apply to this task only or to all future ones. */
+  isRecurringInstance?: boolean;
+  sessions?: WorkSession[];
   requireTime?: boolean;
   confirmLabel?: string;
-  onSubmit: (payload: { title: string; seconds?: number }) => void;
+  /** Personal correction factor from past estimates; null until there is enough history. */
+  estimateMultiplier?: number | null;
+  /** IANA zone a fixed start time is entered in; empty follows the system zone. */
+  timeZone?: string;
+  onSubmit: (payload: {
+    title: string;
+    seconds?: number;
+    needsEstimate?: boolean;
+    scheduledStart?: string;
+    recurrence: RecurrenceRule | null;
+    applyToSeries: boolean;
+    details: TaskDetails;
+  }) => void;
   onCancel: () => void;
 }
 
+type RepeatType = RecurrenceRule['type'] | 'none';
+
+const WEEKDAY_OPTIONS = [
+  { day: 1, label: 'Mon' },
+  { day: 2, label: 'Tue' },
+  { day: 3, label: 'Wed' },
+  { day: 4, label: 'Thu' },
+  { day: 5, label: 'Fri' },
+  { day: 6, label: 'Sat' },
+  { day: 0, label: 'Sun' }
+];
+
+const getInitialWeeklyDays = (rule?: RecurrenceRule): number[] =>
+  rule?.type === 'weekly' ? rule.days : [new Date().getDay()];
+
+const getInitialEveryDays = (rule?: RecurrenceRule): number => (rule?.type === 'interval' ? rule.everyDays : 2);
+
 export function EditModal({
   open,
   mode,
@@ -21,8 +78,21 @@ export function EditModal({
   subtitle,
   initialTitle = '',
   initialSeconds,
+  initialNeedsEstimate = false,
+  initialScheduledStart,
+  initialTags,
+  initialProject = '',
+  initialNotes = '',
+  initialSubtasks,
+  initialPriority,
+  initialDueAt,
+  initialRecurrence,
+  isRecurringInstance = false,
+  sessions,
   requireTime = false,
   confirmLabel,
+  estimateMultiplier = null,
+  timeZone = '',
   onSubmit,
   onCancel,
 }: EditModalProps) {
@@ -40,27 +110,120 @@ export function EditModal({
     };
   };
   const [title, setTitle] = useState(initialTitle);
+  const initialTagsText = formatTags(initialTags);
+  const [tagsText, setTagsText] = useState(initialTagsText);
+  const [project, setProject] = useState(initialProject);
+  const [notes, setNotes] = useState(initialNotes);
+  const [previewNotes, setPreviewNotes] = useState(false);
+  const [subtasks, setSubtasks] = useState<Subtask[]>(initialSubtasks ?? []);
+  const [newStep, setNewStep] = useState('');
+  const [priority, setPriority] = useState<TaskPriority | undefined>(initialPriority);
+  const initialDueValue = initialDueAt ? toDateTimeInputValue(initialDueAt, timeZone) : '';
+  const [dueValue, setDueValue] = useState(initialDueValue);
   const normalizedInitial = clampDuration(initialTime.hours, initialTime.minutes);
   const [hours, setHours] = useState<number>(normalizedInitial.hours);
   const [minutes, setMinutes] = useState<number>(normalizedInitial.minutes);
   const [useTime, setUseTime] = useState<boolean>(initialSeconds !== undefined);
+  const [needsEstimate, setNeedsEstimate] = useState<boolean>(initialNeedsEstimate);
   const [error, setError] = useState<string | null>(null);
+  const [acceptedSuggestion, setAcceptedSuggestion] = useState<number | null>(null);
+  const initialStartTime = initialScheduledStart ? toTimeInputValue(initialScheduledStart, timeZone) : '';
+  const [useSchedule, setUseSchedule] = useState<boolean>(Boolean(initialScheduledStart));
+  const [startTime, setStartTime] = useState(initialStartTime);
+  const [repeatType, setRepeatType] = useState<RepeatType>(initialRecurrence?.type ?? 'none');
+  const [weeklyDays, setWeeklyDays] = useState<number[]>(getInitialWeeklyDays(initialRecurrence));
+  const [everyDays, setEveryDays] = useState<number>(getInitialEveryDays(initialRecurrence));
+  const [applyToSeries, setApplyToSeries] = useState(false);
 
   useEffect(() => {
     if (open) {
       setTitle(initialTitle);
+      setTagsText(initialTagsText);
+      setProject(initialProject);
+      setNotes(initialNotes);
+      setPreviewNotes(false);
+      setSubtasks(initialSubtasks ?? []);
+      setNewStep('');
+      setPriority(initialPriority);
+      setDueValue(initialDueValue);
       const clamped = clampDuration(initialTime.hours, initialTime.minutes);
       setHours(clamped.hours);
       setMinutes(clamped.minutes);
       setUseTime(initialSeconds !== undefined);
+      setNeedsEstimate(initialNeedsEstimate);
       setError(null);
+      setAcceptedSuggestion(null);
+      setUseSchedule(Boolean(initialScheduledStart));
+      setStartTime(initialStartTime);
+      setRepeatType(initialRecurrence?.type ?? 'none');
+      setWeeklyDays(getInitialWeeklyDays(initialRecurrence));
+      setEveryDays(getInitialEveryDays(initialRecurrence));
+      setApplyToSeries(false);
     }
-  }, [open, initialTitle, initialSeconds, initialTime.hours, initialTime.minutes]);
+  }, [
+    open,
+    initialTitle,
+    initialTagsText,
+    initialProject,
+    initialNotes,
+    initialSubtasks,
+    initialPriority,
+    initialDueValue,
+    initialSeconds,
+    initialNeedsEstimate,
+    initialScheduledStart,
+    initialStartTime,
+    initialRecurrence,
+    initialTime.hours,
+    initialTime.minutes
+  ]);
 
   if (!open) {
     return null;
   }
 
+  const enteredSeconds = combineToSeconds(hours, minutes);
+  const seriesLocked = isRecurringInstance && !applyToSeries;
+  const suggestedSeconds =
+    estimateMultiplier !== null && Math.abs(estimateMultiplier - 1) >= 0.05 && enteredSeconds > 0
+      ? Math.min(MAX_TOTAL_MINUTES * 60, applyCorrection(enteredSeconds, estimateMultiplier))
+      : null;
+  const showSuggestion =
+    useTime &&
+    suggestedSeconds !== null &&
+    suggestedSeconds !== enteredSeconds &&
+    enteredSeconds !== acceptedSuggestion &&
+    (mode === 'create' || enteredSeconds !== initialSeconds);
+
+  const applySuggestion = () => {
+    if (suggestedSeconds === null) {
+      return;
+    }
+    const next = splitSeconds(suggestedSeconds);
+    setHours(next.hours);
+    setMinutes(next.minutes);
+    setAcceptedSuggestion(suggestedSeconds);
+  };
+
+  const updateSubtask = (subtaskId: string, patch: Partial<Subtask>) => {
+    setSubtasks(subtasks.map((subtask) => (subtask.id === subtaskId ? { ...subtask, ...patch } : subtask)));
+  };
+
+  const moveSubtask = (index: number, offset: number) => {
+    const next = [...subtasks];
+    const [moved] = next.splice(index, 1);
+    next.splice(index + offset, 0, moved);
+    setSubtasks(next);
+  };
+
+  const handleNewStepKeyDown = (event: KeyboardEvent<HTMLInputElement>) => {
+    if (event.key === 'Enter' && newStep.trim()) {
+      event.preventDefault();
+      setSubtasks([...subtasks, { id: uuidv4(), title: newStep.trim(), done: false }]);
+      setNewStep('');
+    }
+  };
+
   const handleSubmit = () => {
     if (!title.trim()) {
       setError('Task title is required.');
@@ -79,7 +242,59 @@ export function EditModal({
       return;
     }
 
-    onSubmit({ title: title.trim(), seconds: computedSeconds });
+    let scheduledStart: string | undefined;
+    if (useSchedule) {
+      // An untouched time keeps the original date, so editing a block set for another day is safe.
+      scheduledStart =
+        initialScheduledStart && startTime === initialStartTime ? initialScheduledStart : fromTimeInputValue(startTime, timeZone);
+      if (!scheduledStart) {
+        setError('Please pick a start time.');
+        return;
+      }
+    }
+
+    let recurrence: RecurrenceRule | null = null;
+    if (repeatType !== 'none') {
+      const rule = normalizeRecurrenceRule(
+        repeatType === 'weekly'
+          ? { type: 'weekly', days: weeklyDays }
+          : repeatType === 'interval'
+          ? { type: 'interval', everyDays }
+          : { type: repeatType }
+      );
+      if (!rule) {
+        setError(repeatType === 'weekly' ? 'Pick at least one day to repeat on.' : 'Repeat every 1 to 365 days.');
+        return;
+      }
+      recurrence = rule;
+    }
+
+    const dueAt = dueValue ? fromDateTimeInputValue(dueValue, timeZone) : undefined;
+    if (dueValue && !dueAt) {
+      setError('Please pick a valid deadline.');
+      return;
+    }
+
+    // Tokens typed into the title add to the tag field; a +project token overrides the project field.
+    const tokens = parseTitleTokens(title);
+    const pendingStep = newStep.trim();
+    onSubmit({
+      title: tokens.title,
+      seconds: computedSeconds,
+      needsEstimate: !useTime && needsEstimate,
+      scheduledStart,
+      recurrence,
+      applyToSeries,
+      details: {
+        tags: [...parseTags(tagsText), ...tokens.tags],
+        project: tokens.project ?? project,
+        notes,
+        // A step still being typed counts, so it is not lost by clicking save.
+        subtasks: pendingStep ? [...subtasks, { id: uuidv4(), title: pendingStep, done: false }] : subtasks,
+        priority,
+        dueAt
+      }
+    });
   };
 
   return (
@@ -97,9 +312,117 @@ export function EditModal({
               rows={3}
               value={title}
               onChange={(event: ChangeEvent<HTMLTextAreaElement>) => setTitle(event.target.value)}
-              placeholder="Describe the task"
+              placeholder="Describe the task, e.g. Draft intro #writing +book"
             />
           </label>
+          <div className="grid grid-cols-2 gap-3">
+            <label className="modal-label block text-brand-ice">
+              Tags
+              <input
+                type="text"
+                className="app-region-no-drag mt-2 w-full rounded-md border border-brand-teal/40 bg-brand-navy px-3 py-2 text-sm text-brand-ice focus:border-brand-coral focus:outline-none focus:ring-1 focus:ring-brand-coral/60"
+                value={tagsText}
+                onChange={(event: ChangeEvent<HTMLInputElement>) => setTagsText(event.target.value)}
+                placeholder="#writing #review"
+              />
+            </label>
+            <label className="modal-label block text-brand-ice">
+              Project
+              <input
+                type="text"
+                className="app-region-no-drag mt-2 w-full rounded-md border border-brand-teal/40 bg-brand-navy px-3 py-2 text-sm text-brand-ice focus:border-brand-coral focus:outline-none focus:ring-1 focus:ring-brand-coral/60"
+                value={project}
+                onChange={(event: ChangeEvent<HTMLInputElement>) => setProject(event.target.value)}
+                placeholder="+book"
+              />
+            </label>
+          </div>
+          <div className="modal-label block text-brand-ice">
+            <div className="flex items-center justify-between">
+              <label htmlFor="task-notes">Notes</label>
+              <button
+                type="button"
+                className="text-xs font-medium text-brand-teal hover:text-brand-ice disabled:opacity-40"
+                onClick={() => setPreviewNotes(!previewNotes)}
+                disabled={!notes.trim()}
+              >
+                {previewNotes ? 'Edit' : 'Preview'}
+              </button>
+            </div>
+            {previewNotes && notes.trim() ? (
+              <Markdown
+                source={notes}
+                className="mt-2 max-h-40 overflow-auto rounded-md border border-brand-teal/20 bg-brand-navy/60 px-3 py-2 text-sm text-brand-ice/90"
+              />
+            ) : (
+              <textarea
+                id="task-notes"
+                className="mt-2 w-full resize-none rounded-md border border-brand-teal/40 bg-brand-navy px-3 py-2 text-sm text-brand-ice focus:border-brand-coral focus:outline-none focus:ring-1 focus:ring-brand-coral/60"
+                rows={3}
+                value={notes}
+                onChange={(event: ChangeEvent<HTMLTextAreaElement>) => setNotes(event.target.value)}
+                placeholder="Optional. Markdown: **bold**, *italic*, `code`, - lists"
+              />
+            )}
+          </div>
+          <div className="modal-label block text-brand-ice">
+            <span>Checklist</span>
+            {subtasks.length > 0 && (
+              <ol className="mt-2 space-y-1">
+                {subtasks.map((subtask, index) => (
+                  <li key={subtask.id} className="flex items-center gap-2">
+                    <input
+                      type="checkbox"
+                      className="h-4 w-4 shrink-0 accent-brand-coral"
+                      checked={subtask.done}
+                      onChange={() => updateSubtask(subtask.id, { done: !subtask.done })}
+                      aria-label={`Step ${index + 1} done`}
+                    />
+                    <input
+                      type="text"
+                      className="app-region-no-drag min-w-0 flex-1 rounded-md border border-brand-teal/40 bg-brand-navy px-2 py-1 text-sm text-brand-ice focus:border-brand-coral focus:outline-none"
+                      value={subtask.title}
+                      onChange={(event: ChangeEvent<HTMLInputElement>) => updateSubtask(subtask.id, { title: event.target.value })}
+                    />
+                    <button
+                      type="button"
+                      className="text-xs text-brand-ice/50 hover:text-brand-ice disabled:opacity-30"
+                      onClick={() => moveSubtask(index, -1)}
+                      disabled={index === 0}
+                      aria-label="Move step up"
+                    >
+                      ↑
+                    </button>
+                    <button
+                      type="button"
+                      className="text-xs text-brand-ice/50 hover:text-brand-ice disabled:opacity-30"
+                      onClick={() => moveSubtask(index, 1)}
+                      disabled={index === subtasks.length - 1}
+                      aria-label="Move step down"
+                    >
+                      ↓
+                    </button>
+                    <button
+                      type="button"
+                      className="text-xs text-brand-ice/50 hover:text-red-300"
+                      onClick={() => setSubtasks(subtasks.filter((candidate) => candidate.id !== subtask.id))}
+                      aria-label="Remove step"
+                    >
+                      ✕
+                    </button>
+                  </li>
+                ))}
+              </ol>
+            )}
+            <input
+              type="text"
+              className="app-region-no-drag mt-2 w-full rounded-md border border-brand-teal/40 bg-brand-navy px-3 py-2 text-sm text-brand-ice focus:border-brand-coral focus:outline-none focus:ring-1 focus:ring-brand-coral/60"
+              value={newStep}
+              onChange={(event: ChangeEvent<HTMLInputElement>) => setNewStep(event.target.value)}
+              onKeyDown={handleNewStepKeyDown}
+              placeholder="Add a step and press Enter"
+            />
+          </div>
           <div className="flex items-center justify-between">
             <div className="flex items-center gap-2">
               <input
@@ -173,10 +496,196 @@ export function EditModal({
                   />
                 </label>
               </div>
+              {showSuggestion && suggestedSeconds !== null && estimateMultiplier !== null ? (
+                <div className="flex items-center justify-between gap-3 rounded-md border border-brand-ember/40 bg-brand-ember/10 px-3 py-2">
+                  <p className="text-xs text-brand-ice/80">
+                    Your tasks usually take ×{estimateMultiplier.toFixed(2)} of the first estimate. Suggested:{' '}
+                    <span className="font-semibold text-brand-ice">{formatDuration(suggestedSeconds)}</span>
+                  </p>
+                  <button
+                    type="button"
+                    className="shrink-0 rounded-md border border-brand-ember/60 px-2 py-1 text-xs font-semibold text-brand-ember hover:bg-brand-ember/20"
+                    onClick={applySuggestion}
+                  >
+                    Use
+                  </button>
+                </div>
+              ) : null}
               <p className="modal-subtitle text-brand-ice/60">
                 Maximum task length is {Math.floor(MAX_TOTAL_MINUTES / 60)}h {(MAX_TOTAL_MINUTES % 60).toString().padStart(2, '0')}m.
               </p>
             </div>
+          ) : (
+            <div className="space-y-2">
+              <div className="flex items-center gap-2">
+                <input
+                  id="edit-modal-estimate-toggle"
+                  type="checkbox"
+                  className="h-4 w-4 rounded border-brand-teal/40 bg-brand-navy text-brand-coral focus:ring-brand-coral/60"
+                  checked={needsEstimate}
+                  onChange={(event: ChangeEvent<HTMLInputElement>) => setNeedsEstimate(event.target.checked)}
+                />
+                <label htmlFor="edit-modal-estimate-toggle" className="modal-label text-brand-ice">
+                  Needs estimate
+                </label>
+              </div>
+              <p className="modal-subtitle text-brand-ice/60">
+                {needsEstimate
+                  ? 'You will be reminded to set a time when this task becomes active.'
+                  : 'Without a time limit the task runs as a stopwatch and counts up.'}
+              </p>
+            </div>
+          )}
+          <div className="grid grid-cols-2 gap-3">
+            <label className="modal-label block text-brand-ice">
+              Priority
+              <select
+                className="app-region-no-drag mt-2 w-full rounded-md border border-brand-teal/40 bg-brand-navy px-3 py-2 text-sm text-brand-ice focus:border-brand-coral focus:outline-none focus:ring-1 focus:ring-brand-coral/60"
+                value={priority ?? ''}
+                onChange={(event: ChangeEvent<HTMLSelectElement>) => setPriority(normalizePriority(Number(event.target.value)))}
+              >
+                <option value="">None</option>
+                <option value="1">P1 (urgent)</option>
+                <option value="2">P2</option>
+                <option value="3">P3</option>
+                <option value="4">P4 (low)</option>
+              </select>
+            </label>
+            <label className="modal-label block text-brand-ice">
+              Deadline
+              <input
+                type="datetime-local"
+                className="app-region-no-drag mt-2 w-full rounded-md border border-brand-teal/40 bg-brand-navy px-3 py-2 text-sm text-brand-ice focus:border-brand-coral focus:outline-none focus:ring-1 focus:ring-brand-coral/60"
+                value={dueValue}
+                onChange={(event: ChangeEvent<HTMLInputElement>) => setDueValue(event.target.value)}
+              />
+            </label>
+          </div>
+          <div className="space-y-2">
+            <div className="flex items-center gap-2">
+              <input
+                id="edit-modal-schedule-toggle"
+                type="checkbox"
+                className="h-4 w-4 rounded border-brand-teal/40 bg-brand-navy text-brand-coral focus:ring-brand-coral/60"
+                checked={useSchedule}
+                onChange={(event: ChangeEvent<HTMLInputElement>) => setUseSchedule(event.target.checked)}
+              />
+              <label htmlFor="edit-modal-schedule-toggle" className="modal-label text-brand-ice">
+                Start at a fixed time
+              </label>
+              {useSchedule ? (
+                <input
+                  type="time"
+                  className="app-region-no-drag ml-auto rounded-md border border-brand-teal/40 bg-brand-navy px-2 py-1 text-sm text-brand-ice focus:border-brand-coral focus:outline-none focus:ring-1 focus:ring-brand-coral/60"
+                  value={startTime}
+                  onChange={(event: ChangeEvent<HTMLInputElement>) => setStartTime(event.target.value)}
+                />
+              ) : null}
+            </div>
+            {useSchedule ? (
+              <p className="modal-subtitle text-brand-ice/60">
+                If the task comes up early the queue waits for this time, like a calendar block.
+              </p>
+            ) : null}
+          </div>
+          <div className="space-y-2">
+            {isRecurringInstance ? (
+              <div className="flex gap-4 text-sm text-brand-ice">
+                <label className="flex items-center gap-2">
+                  <input
+                    type="radio"
+                    name="edit-modal-series-scope"
+                    className="text-brand-coral focus:ring-brand-coral/60"
+                    checked={!applyToSeries}
+                    onChange={() => setApplyToSeries(false)}
+                  />
+                  This task only
+                </label>
+                <label className="flex items-center gap-2">
+                  <input
+                    type="radio"
+                    name="edit-modal-series-scope"
+                    className="text-brand-coral focus:ring-brand-coral/60"
+                    checked={applyToSeries}
+                    onChange={() => setApplyToSeries(true)}
+                  />
+                  This and all future
+                </label>
+              </div>
+            ) : null}
+            <label className="modal-label block text-brand-ice">
+              Repeat
+              <select
+                className="app-region-no-drag mt-2 w-full rounded-md border border-brand-teal/40 bg-brand-navy px-3 py-2 text-sm text-brand-ice focus:border-brand-coral focus:outline-none focus:ring-1 focus:ring-brand-coral/60 disabled:opacity-50"
+                value={repeatType}
+                disabled={seriesLocked}
+                onChange={(event: ChangeEvent<HTMLSelectElement>) => setRepeatType(event.target.value as RepeatType)}
+              >
+                <option value="none">Does not repeat</option>
+                <option value="daily">Every day</option>
+                <option value="weekdays">Weekdays</option>
+                <option value="weekly">Weekly on…</option>
+                <option value="interval">Every few days</option>
+              </select>
+            </label>
+            {repeatType === 'weekly' ? (
+              <div className="flex gap-1">
+                {WEEKDAY_OPTIONS.map(({ day, label }) => (
+                  <button
+                    key={day}
+                    type="button"
+                    disabled={seriesLocked}
+                    className={`flex-1 rounded-md border px-1 py-1 text-xs disabled:opacity-50 ${
+                      weeklyDays.includes(day)
+                        ? 'border-brand-coral bg-brand-coral/20 font-semibold text-brand-coral'
+                        : 'border-brand-ice/20 text-brand-ice/70'
+                    }`}
+                    onClick={() =>
+                      setWeeklyDays((previous) =>
+                        previous.includes(day) ? previous.filter((item) => item !== day) : [...previous, day]
+                      )
+                    }
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+            ) : null}
+            {repeatType === 'interval' ? (
+              <label className="flex items-center gap-2 text-sm text-brand-ice">
+                Every
+                <input
+                  type="number"
+                  min={1}
+                  max={365}
+                  disabled={seriesLocked}
+                  className="app-region-no-drag w-20 rounded-md border border-brand-teal/40 bg-brand-navy px-2 py-1 text-sm text-brand-ice focus:border-brand-coral focus:outline-none focus:ring-1 focus:ring-brand-coral/60 disabled:opacity-50"
+                  value={everyDays}
+                  onChange={(event: ChangeEvent<HTMLInputElement>) => {
+                    const next = Number(event.target.value);
+                    setEveryDays(Number.isFinite(next) ? Math.floor(next) : everyDays);
+                  }}
+                />
+                days
+              </label>
+            ) : null}
+            {seriesLocked ? (
+              <p className="modal-subtitle text-brand-ice/60">Pick &ldquo;This and all future&rdquo; to change how the task repeats.</p>
+            ) : isRecurringInstance && repeatType === 'none' ? (
+              <p className="modal-subtitle text-brand-ice/60">The series stops; this task stays in the queue.</p>
+            ) : repeatType !== 'none' ? (
+              <p className="modal-subtitle text-brand-ice/60">
+                {isRecurringInstance
+                  ? 'Future copies will use this title and time limit.'
+                  : 'A fresh copy with this title and time limit is added when a matching day starts.'}
+              </p>
+            ) : null}
+          </div>
+          {mode === 'edit' && sessions ? (
+            <div className="space-y-2 border-t border-brand-ice/10 pt-3">
+              <p className="modal-label font-medium text-brand-ice">Work Sessions</p>
+              <SessionTimeline sessions={sessions} timeZone={timeZone} />
+            </div>
           ) : null}
           {error ? <p className="text-sm text-brand-coral">{error}</p> : null}
         </div>
@@ -0,0 +1,163 @@
+import { useMemo } from 'react';
+import type { Task } from '../../shared/types';
+import { DayBoundary, formatDayLabel } from '../../shared/dates';
+import {
+  CHRONIC_UNDERESTIMATE_RATIO,
+  MIN_CORRECTION_SAMPLES,
+  getCorrectionMultiplier,
+  getEstimateRatio,
+  getEstimateRecords,
+  groupEstimatesByWeek,
+  isUnderestimated
+} from '../../shared/estimation';
+import { formatDuration } from '../utils/time';
+
+interface EstimatesModalProps {
+  open: boolean;
+  tasks: Task[];
+  dayBoundary: DayBoundary;
+  filterLabel?: string;
+  onClose: () => void;
+}
+
+const MAX_TASK_ROWS = 50;
+
+const formatRatio = (ratio: number) => `×${ratio.toFixed(2)}`;
+
+const ratioClassName = (ratio: number) =>
+  ratio >= CHRONIC_UNDERESTIMATE_RATIO ? 'text-red-400' : ratio < 1 ? 'text-brand-aqua' : 'text-brand-ice';
+
+export function EstimatesModal({ open, tasks, dayBoundary, filterLabel, onClose }: EstimatesModalProps) {
+  const report = useMemo(() => {
+    if (!open) {
+      return null;
+    }
+    const records = getEstimateRecords(tasks);
+    return {
+      records,
+      weeks: groupEstimatesByWeek(records, dayBoundary),
+      multiplier: getCorrectionMultiplier(records),
+      underestimated: records.filter(isUnderestimated).length
+    };
+  }, [open, tasks, dayBoundary]);
+
+  if (!open || !report) {
+    return null;
+  }
+
+  const { records, weeks, multiplier, underestimated } = report;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-brand-navy/85 px-4">
+      <div className="w-full max-w-lg rounded-xl border border-brand-teal/40 bg-brand-dusk p-6 shadow-2xl flex flex-col max-h-[85vh]">
+        <header className="mb-4 app-region-no-drag">
+          <h2 className="modal-heading font-semibold text-brand-ice">Estimation Accuracy</h2>
+          <p className="modal-subtitle mt-1 text-brand-ice/80">
+            First estimate vs. final time vs. time actually used{filterLabel ? `, for ${filterLabel} only` : ''}.
+          </p>
+        </header>
+        <div className="overflow-auto flex-1 space-y-4">
+          <div className="grid grid-cols-3 gap-2 text-center">
+            <div className="rounded-lg bg-brand-navy/40 p-2">
+              <p className="text-lg font-semibold text-brand-ice">{records.length}</p>
+              <p className="text-[10px] uppercase tracking-wide text-brand-ice/50">Tasks measured</p>
+            </div>
+            <div className="rounded-lg bg-brand-navy/40 p-2">
+              <p className="text-lg font-semibold text-brand-ice">
+                {records.length > 0 ? `${Math.round((underestimated / records.length) * 100)}%` : '—'}
+              </p>
+              <p className="text-[10px] uppercase tracking-wide text-brand-ice/50">Underestimated</p>
+            </div>
+            <div className="rounded-lg bg-brand-navy/40 p-2">
+              <p className={`text-lg font-semibold ${multiplier !== null ? ratioClassName(multiplier) : 'text-brand-ice'}`}>
+                {multiplier !== null ? formatRatio(multiplier) : '—'}
+              </p>
+              <p className="text-[10px] uppercase tracking-wide text-brand-ice/50">Correction</p>
+            </div>
+          </div>
+          {multiplier === null ? (
+            <p className="text-xs text-brand-ice/60">
+              Finish at least {MIN_CORRECTION_SAMPLES} timed tasks to get a personal correction multiplier.
+            </p>
+          ) : multiplier >= CHRONIC_UNDERESTIMATE_RATIO ? (
+            <p className="rounded-md border border-red-400/40 bg-red-500/10 px-3 py-2 text-xs text-red-200">
+              You consistently underestimate: recent tasks took {formatRatio(multiplier)} their first estimate. New
+              estimates will suggest a corrected time.
+            </p>
+          ) : null}
+          <section className="space-y-1">
+            <h3 className="text-xs font-semibold text-brand-ice/80">By week</h3>
+            {weeks.length === 0 ? (
+              <p className="text-sm text-brand-ice/50">No finished timed tasks yet.</p>
+            ) : (
+              <table className="w-full text-xs text-brand-ice/80">
+                <thead className="text-left text-[10px] uppercase tracking-wide text-brand-ice/50">
+                  <tr>
+                    <th className="py-1 font-medium">Week of</th>
+                    <th className="py-1 text-right font-medium">Tasks</th>
+                    <th className="py-1 text-right font-medium">Estimated</th>
+                    <th className="py-1 text-right font-medium">Final</th>
+                    <th className="py-1 text-right font-medium">Used</th>
+                    <th className="py-1 text-right font-medium">Ratio</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {weeks.map((week) => {
+                    const ratio = getEstimateRatio(week.actualSeconds, week.originalSeconds);
+                    const chronic = ratio >= CHRONIC_UNDERESTIMATE_RATIO;
+                    return (
+                      <tr key={week.weekKey} className={`border-t border-brand-ice/10 ${chronic ? 'bg-red-500/10' : ''}`}>
+                        <td className="py-1">{formatDayLabel(week.weekKey)}</td>
+                        <td className="py-1 text-right" title={`${week.underestimated} underestimated`}>
+                          {week.tasks}
+                        </td>
+                        <td className="py-1 text-right">{formatDuration(week.originalSeconds)}</td>
+                        <td className="py-1 text-right">{formatDuration(week.finalSeconds)}</td>
+                        <td className="py-1 text-right">{formatDuration(week.actualSeconds)}</td>
+                        <td className={`py-1 text-right font-semibold ${ratioClassName(ratio)}`}>{formatRatio(ratio)}</td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            )}
+          </section>
+          {records.length > 0 && (
+            <section className="space-y-1">
+              <h3 className="text-xs font-semibold text-brand-ice/80">Recent tasks</h3>
+              <ul className="space-y-1">
+                {records.slice(0, MAX_TASK_ROWS).map((record) => {
+                  const ratio = getEstimateRatio(record.actualSeconds, record.originalSeconds);
+                  return (
+                    <li key={record.taskId} className="rounded-md bg-brand-navy/40 px-3 py-2">
+                      <div className="flex items-start justify-between gap-3">
+                        <p className="text-sm text-brand-ice break-words">{record.title}</p>
+                        <span className={`shrink-0 text-xs font-semibold ${ratioClassName(ratio)}`}>{formatRatio(ratio)}</span>
+                      </div>
+                      <p className="mt-1 text-xs text-brand-ice/60">
+                        Estimated {formatDuration(record.originalSeconds)}
+                        {record.finalSeconds !== record.originalSeconds && ` · final ${formatDuration(record.finalSeconds)}`}
+                        {` · used ${formatDuration(record.actualSeconds)}`}
+                        {record.struck && ' · ran out'}
+                        {isUnderestimated(record) && <span className="text-red-300"> · underestimated</span>}
+                      </p>
+                    </li>
+                  );
+                })}
+              </ul>
+            </section>
+          )}
+        </div>
+        <footer className="mt-6 flex justify-end app-region-no-drag">
+          <button
+            type="button"
+            className="rounded-md bg-brand-coral px-4 py-2 text-sm font-semibold text-brand-navy hover:bg-brand-coral/90"
+            onClick={onClose}
+          >
+            Done
+          </button>
+        </footer>
+      </div>
+    </div>
+  );
+}
@@ -1,15 +1,34 @@
 import { useEffect } from 'react';
 import type { CSSProperties } from 'react';
+import type { Subtask } from '../../shared/types';
+import { getChecklistProgress } from '../../shared/checklist';
+import { Markdown } from './Markdown';
 
 interface FocusSpotlightProps {
   open: boolean;
   taskTitle?: string;
   timeRemaining?: string;
+  isStopwatch?: boolean;
+  isOvertime?: boolean;
+  notes?: string;
+  subtasks?: Subtask[];
+  onToggleSubtask?: (subtaskId: string) => void;
   onClose: () => void;
 }
 
 export function FocusSpotlight(props: FocusSpotlightProps) {
-  const { open, taskTitle, timeRemaining, onClose } = props;
+  const {
+    open,
+    taskTitle,
+    timeRemaining,
+    isStopwatch = false,
+    isOvertime = false,
+    notes,
+    subtasks = [],
+    onToggleSubtask,
+    onClose
+  } = props;
+  const checklist = getChecklistProgress({ subtasks });
 
   const overlayStyle = { WebkitAppRegion: 'drag' } as unknown as CSSProperties;
 
@@ -56,13 +75,59 @@ export function FocusSpotlight(props: FocusSpotlightProps) {
             {taskTitle}
           </p>
           <div className="text-center">
-            <span className="focus-overlay-timer inline-flex items-center justify-center rounded-xl bg-brand-coral/25 px-4 py-2 font-black text-brand-coral sm:px-6">
+            <span
+              className={`focus-overlay-timer inline-flex items-center justify-center rounded-xl px-4 py-2 font-black sm:px-6 ${
+                isOvertime ? 'bg-red-500/25 text-red-400' : 'bg-brand-coral/25 text-brand-coral'
+              }`}
+            >
               {timeRemaining ?? '--:--'}
             </span>
           </div>
           <p className="focus-overlay-subcopy text-center text-brand-ice/70">
-            Stay on track—focus on this single task until the timer completes.
+            {isOvertime
+              ? 'You are past your estimate—wrap up and mark it complete.'
+              : isStopwatch
+              ? 'Open-ended task—the stopwatch keeps counting until you mark it complete.'
+              : 'Stay on track—focus on this single task until the timer completes.'}
           </p>
+          {checklist.total > 0 && (
+            <div className="mx-auto w-full max-w-md space-y-2">
+              <div className="flex items-center gap-3 text-xs font-semibold uppercase tracking-[0.2em] text-brand-ice/60">
+                <span>Steps</span>
+                <div className="h-1.5 flex-1 overflow-hidden rounded-full bg-brand-ice/10">
+                  <div
+                    className="h-full rounded-full bg-brand-coral transition-all"
+                    style={{ width: `${(checklist.done / checklist.total) * 100}%` }}
+                  />
+                </div>
+                <span>
+                  {checklist.done}/{checklist.total}
+                </span>
+              </div>
+              <ul className="max-h-48 space-y-1 overflow-auto">
+                {subtasks.map((subtask) => (
+                  <li key={subtask.id}>
+                    <label className="flex cursor-pointer items-center gap-3 rounded-lg px-3 py-1.5 text-sm hover:bg-brand-ice/5">
+                      <input
+                        type="checkbox"
+                        className="h-4 w-4 shrink-0 accent-brand-coral"
+                        checked={subtask.done}
+                        disabled={!onToggleSubtask}
+                        onChange={() => onToggleSubtask?.(subtask.id)}
+                      />
+                      <span className={subtask.done ? 'text-brand-ice/50 line-through' : 'text-brand-ice'}>{subtask.title}</span>
+                    </label>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+          {notes && (
+            <Markdown
+              source={notes}
+              className="mx-auto max-h-40 w-full max-w-md overflow-auto rounded-xl bg-brand-navy/40 px-4 py-3 text-sm text-brand-ice/80"
+            />
+          )}
         </div>
       </div>
     </div>
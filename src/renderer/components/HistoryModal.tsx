@@ -0,0 +1,116 @@
+import { ChangeEvent, useMemo, useState } from 'react';
+import type { Task } from '../../shared/types';
+import { getActualSeconds, getCompletionEntry } from '../../shared/archive';
+import { DayBoundary, formatDayLabel, getDayKey } from '../../shared/dates';
+import { formatClockTime, formatDuration } from '../utils/time';
+
+interface HistoryModalProps {
+  open: boolean;
+  tasks: Task[];
+  dayBoundary: DayBoundary;
+  filterLabel?: string;
+  onClose: () => void;
+}
+
+const inputClasses =
+  'app-region-no-drag w-full rounded-md border border-brand-teal/40 bg-brand-navy px-2 py-1 text-sm text-brand-ice focus:border-brand-coral focus:outline-none focus:ring-1 focus:ring-brand-coral/60';
+
+const completionLabel = (task: Task): { label: string; className: string } =>
+  getCompletionEntry(task)?.type === 'auto_complete'
+    ? { label: 'Struck', className: 'text-brand-coral' }
+    : { label: 'Completed', className: 'text-brand-aqua' };
+
+export function HistoryModal({ open, tasks, dayBoundary, filterLabel, onClose }: HistoryModalProps) {
+  const [query, setQuery] = useState('');
+
+  const days = useMemo(() => {
+    const needle = query.trim().toLowerCase();
+    const grouped = new Map<string, Task[]>();
+    tasks
+      .filter((task) => task.completedAt && (!needle || task.title.toLowerCase().includes(needle)))
+      .sort((a, b) => (b.completedAt ?? '').localeCompare(a.completedAt ?? ''))
+      .forEach((task) => {
+        const dayKey = getDayKey(new Date(task.completedAt as string), dayBoundary);
+        grouped.set(dayKey, [...(grouped.get(dayKey) ?? []), task]);
+      });
+    return Array.from(grouped.entries());
+  }, [tasks, query, dayBoundary]);
+
+  if (!open) {
+    return null;
+  }
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-brand-navy/85 px-4">
+      <div className="w-full max-w-lg rounded-xl border border-brand-teal/40 bg-brand-dusk p-6 shadow-2xl flex flex-col max-h-[80vh]">
+        <header className="mb-4 space-y-3 app-region-no-drag">
+          <div>
+            <h2 className="modal-heading font-semibold text-brand-ice">History</h2>
+            <p className="modal-subtitle mt-1 text-brand-ice/80">
+              Everything you finished{filterLabel ? ` for ${filterLabel}` : ''}, newest first.
+            </p>
+          </div>
+          <input
+            type="search"
+            className={inputClasses}
+            placeholder="Search by title"
+            value={query}
+            onChange={(event: ChangeEvent<HTMLInputElement>) => setQuery(event.target.value)}
+          />
+        </header>
+        <div className="overflow-auto flex-1 space-y-3">
+          {days.length === 0 ? (
+            <p className="text-sm text-brand-ice/50">{query ? 'No finished tasks match your search.' : 'No finished tasks yet.'}</p>
+          ) : (
+            days.map(([day, dayTasks]) => (
+              <div key={day} className="space-y-1">
+                <p className="text-[11px] font-semibold uppercase tracking-wide text-brand-ice/50">
+                  {formatDayLabel(day)} · {dayTasks.length} task{dayTasks.length === 1 ? '' : 's'}
+                </p>
+                <ul className="space-y-1">
+                  {dayTasks.map((task) => {
+                    const completion = completionLabel(task);
+                    return (
+                      <li
+                        key={task.id}
+                        className="flex items-center justify-between gap-3 rounded-lg border border-brand-ice/10 bg-brand-navy/40 px-3 py-2"
+                      >
+                        <div className="min-w-0">
+                          <p className="truncate text-sm font-medium text-brand-ice">{task.title}</p>
+                          <p className="text-[11px] text-brand-ice/50">
+                            {formatClockTime(task.completedAt as string, dayBoundary.timeZone)} ·{' '}
+                            <span className={completion.className}>{completion.label}</span>
+                          </p>
+                        </div>
+                        <div className="flex-shrink-0 text-right text-[11px] text-brand-ice/70">
+                          <p>
+                            Assigned{' '}
+                            <span className="font-mono">
+                              {task.timeAssignedSeconds !== undefined ? formatDuration(task.timeAssignedSeconds) : '—'}
+                            </span>
+                          </p>
+                          <p>
+                            Actual <span className="font-mono">{formatDuration(getActualSeconds(task))}</span>
+                          </p>
+                        </div>
+                      </li>
+                    );
+                  })}
+                </ul>
+              </div>
+            ))
+          )}
+        </div>
+        <footer className="mt-6 flex justify-end app-region-no-drag">
+          <button
+            type="button"
+            className="rounded-md bg-brand-coral px-4 py-2 text-sm font-semibold text-brand-navy hover:bg-brand-coral/90"
+            onClick={onClose}
+          >
+            Done
+          </button>
+        </footer>
+      </div>
+    </div>
+  );
+}
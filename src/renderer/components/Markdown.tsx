@@ -0,0 +1,147 @@
+import type { ReactNode } from 'react';
+
+interface MarkdownProps {
+  source: string;
+  className?: string;
+}
+
+type Block =
+  | { type: 'heading'; level: number; text: string }
+  | { type: 'paragraph'; text: string }
+  | { type: 'list'; ordered: boolean; items: string[] }
+  | { type: 'code'; text: string };
+
+// `code`, **bold**, *italic* / _italic_ and [text](url), in that order of precedence.
+const INLINE_PATTERN = /(`[^`]+`)|(\*\*[^*]+\*\*)|(\*[^*\s][^*]*\*|_[^_\s][^_]*_)|(\[[^\]]+\]\([^)\s]+\))/g;
+
+const BULLET_PATTERN = /^\s*[-*+]\s+(.*)$/;
+const ORDERED_PATTERN = /^\s*\d+[.)]\s+(.*)$/;
+
+const parseBlocks = (source: string): Block[] => {
+  const blocks: Block[] = [];
+  const lines = source.replace(/\r\n/g, '\n').split('\n');
+  let index = 0;
+  while (index < lines.length) {
+    const line = lines[index];
+    if (!line.trim()) {
+      index += 1;
+      continue;
+    }
+    if (line.trim().startsWith('```')) {
+      const code: string[] = [];
+      index += 1;
+      while (index < lines.length && !lines[index].trim().startsWith('```')) {
+        code.push(lines[index]);
+        index += 1;
+      }
+      blocks.push({ type: 'code', text: code.join('\n') });
+      index += 1;
+      continue;
+    }
+    const heading = line.match(/^(#{1,3})\s+(.*)$/);
+    if (heading) {
+      blocks.push({ type: 'heading', level: heading[1].length, text: heading[2] });
+      index += 1;
+      continue;
+    }
+    const listPattern = BULLET_PATTERN.test(line) ? BULLET_PATTERN : ORDERED_PATTERN.test(line) ? ORDERED_PATTERN : null;
+    if (listPattern) {
+      const items: string[] = [];
+      while (index < lines.length) {
+        const item = lines[index].match(listPattern);
+        if (!item) {
+          break;
+        }
+        items.push(item[1]);
+        index += 1;
+      }
+      blocks.push({ type: 'list', ordered: listPattern === ORDERED_PATTERN, items });
+      continue;
+    }
+    const paragraph: string[] = [];
+    while (
+      index < lines.length &&
+      lines[index].trim() &&
+      !/^(#{1,3}\s|```)/.test(lines[index].trim()) &&
+      !BULLET_PATTERN.test(lines[index]) &&
+      !ORDERED_PATTERN.test(lines[index])
+    ) {
+      paragraph.push(lines[index].trim());
+      index += 1;
+    }
+    blocks.push({ type: 'paragraph', text: paragraph.join(' ') });
+  }
+  return blocks;
+};
+
+const renderInline = (text: string): ReactNode[] => {
+  const nodes: ReactNode[] = [];
+  let last = 0;
+  for (const match of text.matchAll(INLINE_PATTERN)) {
+    const [token] = match;
+    const start = match.index ?? 0;
+    if (start > last) {
+      nodes.push(text.slice(last, start));
+    }
+    if (match[1]) {
+      nodes.push(
+        <code key={start} className="rounded bg-brand-navy/80 px-1 font-mono text-[0.9em]">
+          {token.slice(1, -1)}
+        </code>
+      );
+    } else if (match[2]) {
+      nodes.push(<strong key={start}>{renderInline(token.slice(2, -2))}</strong>);
+    } else if (match[3]) {
+      nodes.push(<em key={start}>{renderInline(token.slice(1, -1))}</em>);
+    } else {
+      // Links are shown, not followed: navigating would replace the app window.
+      const link = token.match(/^\[([^\]]+)\]\(([^)\s]+)\)$/);
+      nodes.push(
+        <span key={start} className="text-brand-aqua underline" title={link?.[2]}>
+          {link?.[1] ?? token}
+        </span>
+      );
+    }
+    last = start + token.length;
+  }
+  if (last < text.length) {
+    nodes.push(text.slice(last));
+  }
+  return nodes;
+};
+
+/** Renders the small Markdown subset used in task notes, without injecting HTML. */
+export function Markdown({ source, className = '' }: MarkdownProps) {
+  return (
+    <div className={['space-y-2 break-words', className].filter(Boolean).join(' ')}>
+      {parseBlocks(source).map((block, index) => {
+        switch (block.type) {
+          case 'heading':
+            return (
+              <p key={index} className={`font-semibold ${block.level === 1 ? 'text-base' : 'text-sm'}`}>
+                {renderInline(block.text)}
+              </p>
+            );
+          case 'list': {
+            const ListTag = block.ordered ? 'ol' : 'ul';
+            return (
+              <ListTag key={index} className={`space-y-0.5 pl-5 ${block.ordered ? 'list-decimal' : 'list-disc'}`}>
+                {block.items.map((item, itemIndex) => (
+                  <li key={itemIndex}>{renderInline(item)}</li>
+                ))}
+              </ListTag>
+            );
+          }
+          case 'code':
+            return (
+              <pre key={index} className="overflow-auto rounded bg-brand-navy/80 p-2 font-mono text-xs">
+                {block.text}
+              </pre>
+            );
+          default:
+            return <p key={index}>{renderInline(block.text)}</p>;
+        }
+      })}
+    </div>
+  );
+}
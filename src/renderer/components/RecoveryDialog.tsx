@@ -0,0 +1,93 @@
+import { ChangeEvent, useRef, useState } from 'react';
+import type { StateRecoveryChoice, StateRecoveryIssue } from '../../shared/types';
+
+interface RecoveryDialogProps {
+  issue: StateRecoveryIssue | null;
+  onResolve: (choice: StateRecoveryChoice) => Promise<void>;
+}
+
+export function RecoveryDialog({ issue, onResolve }: RecoveryDialogProps) {
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  if (!issue) {
+    return null;
+  }
+
+  const resolveWith = async (choice: StateRecoveryChoice) => {
+    setBusy(true);
+    setError(null);
+    try {
+      await onResolve(choice);
+    } catch (resolveError) {
+      setError(resolveError instanceof Error ? resolveError.message : 'Recovery failed. Try another option.');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleFileChange = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) {
+      return;
+    }
+    await resolveWith({ kind: 'import', contents: await file.text() });
+  };
+
+  const handleStartFresh = () => {
+    if (window.confirm('Start with an empty task list? The unreadable file stays where it was moved.')) {
+      void resolveWith({ kind: 'fresh' });
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-brand-navy/85 px-4">
+      <div className="w-full max-w-md rounded-lg border border-brand-coral/60 bg-brand-dusk p-5 shadow-2xl app-region-no-drag">
+        <h3 className="text-lg font-semibold text-brand-coral">Your saved data could not be read</h3>
+        <p className="mt-2 text-sm text-brand-ice/80">
+          TimeBound moved the unreadable file aside so nothing is overwritten. Choose how to continue.
+        </p>
+        <p className="mt-2 break-all rounded bg-brand-navy/60 px-2 py-1 font-mono text-[11px] text-brand-ice/60">
+          {issue.quarantinedPath}
+        </p>
+        <p className="mt-1 text-xs text-brand-ice/50">{issue.message}</p>
+        {error && <p className="mt-3 text-xs text-red-300">{error}</p>}
+        <div className="mt-5 flex flex-col gap-2">
+          <button
+            type="button"
+            className="rounded-md bg-brand-coral px-4 py-2 text-sm font-semibold text-brand-navy hover:bg-brand-coral/90 disabled:opacity-50"
+            disabled={busy || !issue.backupAvailable}
+            onClick={() => void resolveWith({ kind: 'backup' })}
+          >
+            {issue.backupAvailable ? 'Restore Latest Backup' : 'No Backup Available'}
+          </button>
+          <button
+            type="button"
+            className="rounded-md border border-brand-teal/60 px-4 py-2 text-sm font-semibold text-brand-aqua hover:border-brand-aqua disabled:opacity-50"
+            disabled={busy}
+            onClick={() => fileInputRef.current?.click()}
+          >
+            Import a File…
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="application/json,.json"
+            className="hidden"
+            onChange={(event) => void handleFileChange(event)}
+          />
+          <button
+            type="button"
+            className="rounded-md border border-brand-ice/10 px-4 py-2 text-sm font-medium text-brand-ice/60 hover:border-brand-ice/30 hover:text-brand-ice disabled:opacity-50"
+            disabled={busy}
+            onClick={handleStartFresh}
+          >
+            Start Fresh
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,157 @@
+import { ChangeEvent, useMemo, useState } from 'react';
+import type { ScoreLedgerEntry, ScoreRule, Task } from '../../shared/types';
+import { DayBoundary, formatDayLabel, getDayKey } from '../../shared/dates';
+import { getLedgerTotal } from '../../shared/scoring';
+import { formatClockTime } from '../utils/time';
+
+interface ScoreLedgerModalProps {
+  open: boolean;
+  score: number;
+  ledger: ScoreLedgerEntry[];
+  /** Every task the ledger may refer to, used to show titles. */
+  tasks: Task[];
+  dayBoundary: DayBoundary;
+  onRecompute: () => void;
+  onClose: () => void;
+}
+
+const MAX_VISIBLE_ENTRIES = 200;
+
+const RULE_LABELS: Record<ScoreRule, string> = {
+  complete: 'Completed',
+  earlyFinishBonus: 'Early-finish bonus',
+  overtime: 'Finished in overtime',
+  strike: 'Timer ran out',
+  addTime: 'Time added',
+  openingBalance: 'Opening balance'
+};
+
+const inputClasses =
+  'app-region-no-drag w-full rounded-md border border-brand-teal/40 bg-brand-navy px-2 py-1 text-sm text-brand-ice focus:border-brand-coral focus:outline-none focus:ring-1 focus:ring-brand-coral/60';
+
+const formatDelta = (delta: number) => `${delta > 0 ? '+' : ''}${delta}`;
+
+export function ScoreLedgerModal({ open, score, ledger, tasks, dayBoundary, onRecompute, onClose }: ScoreLedgerModalProps) {
+  const [dayFilter, setDayFilter] = useState('');
+
+  const view = useMemo(() => {
+    if (!open) {
+      return null;
+    }
+    const titles = new Map(tasks.map((task) => [task.id, task.title]));
+    const entries = ledger.map((entry) => ({
+      entry,
+      dayKey: getDayKey(new Date(entry.at), dayBoundary),
+      title: entry.taskId ? titles.get(entry.taskId) : undefined
+    }));
+    return {
+      dayKeys: Array.from(new Set(entries.map(({ dayKey }) => dayKey))),
+      entries: dayFilter ? entries.filter(({ dayKey }) => dayKey === dayFilter) : entries,
+      total: getLedgerTotal(ledger)
+    };
+  }, [open, ledger, tasks, dayBoundary, dayFilter]);
+
+  if (!open || !view) {
+    return null;
+  }
+
+  const { dayKeys, entries, total } = view;
+  const filteredDelta = entries.reduce((sum, { entry }) => sum + entry.delta, 0);
+
+  const handleRecompute = () => {
+    if (window.confirm(`Set your score to the ledger total of ${formatDelta(total)}?`)) {
+      onRecompute();
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-brand-navy/85 px-4">
+      <div className="w-full max-w-lg rounded-xl border border-brand-teal/40 bg-brand-dusk p-6 shadow-2xl flex flex-col max-h-[80vh]">
+        <header className="mb-4 space-y-3 app-region-no-drag">
+          <div>
+            <h2 className="modal-heading font-semibold text-brand-ice">Score History</h2>
+            <p className="modal-subtitle mt-1 text-brand-ice/80">Every change to your score and the rule behind it.</p>
+          </div>
+          <div className="flex items-center gap-3">
+            <select
+              className={inputClasses}
+              value={dayFilter}
+              onChange={(event: ChangeEvent<HTMLSelectElement>) => setDayFilter(event.target.value)}
+            >
+              <option value="">All days</option>
+              {dayKeys.map((dayKey) => (
+                <option key={dayKey} value={dayKey}>
+                  {formatDayLabel(dayKey)}
+                </option>
+              ))}
+            </select>
+            <span
+              className={`shrink-0 text-sm font-semibold ${filteredDelta >= 0 ? 'text-brand-aqua' : 'text-red-400'}`}
+              title={dayFilter ? 'Net change on this day' : 'Ledger total'}
+            >
+              {formatDelta(filteredDelta)}
+            </span>
+          </div>
+          {total !== score && (
+            <div className="flex items-center justify-between gap-3 rounded-md border border-red-400/40 bg-red-500/10 px-3 py-2">
+              <p className="text-xs text-red-200">
+                Your score ({formatDelta(score)}) does not match the ledger total ({formatDelta(total)}).
+              </p>
+              <button
+                type="button"
+                className="shrink-0 rounded-md border border-red-300/60 px-2 py-1 text-xs font-semibold text-red-200 hover:bg-red-500/20"
+                onClick={handleRecompute}
+              >
+                Recompute total
+              </button>
+            </div>
+          )}
+        </header>
+        <div className="overflow-auto flex-1">
+          {entries.length === 0 ? (
+            <p className="text-sm text-brand-ice/50">No score changes recorded yet.</p>
+          ) : (
+            <ul className="space-y-1">
+              {entries.slice(0, MAX_VISIBLE_ENTRIES).map(({ entry, dayKey, title }, index) => (
+                <li
+                  key={`${entry.at}-${entry.rule}-${index}`}
+                  className="flex items-center justify-between gap-3 rounded-md bg-brand-navy/40 px-3 py-2"
+                  title={`Action: ${entry.action}`}
+                >
+                  <div className="min-w-0">
+                    <p className="text-sm text-brand-ice">{RULE_LABELS[entry.rule] ?? entry.rule}</p>
+                    <p className="truncate text-xs text-brand-ice/50">
+                      {dayFilter ? '' : `${formatDayLabel(dayKey)} `}
+                      {formatClockTime(entry.at, dayBoundary.timeZone)}
+                      {entry.taskId && ` · ${title ?? 'Deleted task'}`}
+                    </p>
+                  </div>
+                  <div className="shrink-0 text-right">
+                    <p className={`text-sm font-semibold ${entry.delta >= 0 ? 'text-brand-aqua' : 'text-red-400'}`}>
+                      {formatDelta(entry.delta)}
+                    </p>
+                    <p className="text-[10px] text-brand-ice/40">= {entry.balance}</p>
+                  </div>
+                </li>
+              ))}
+              {entries.length > MAX_VISIBLE_ENTRIES && (
+                <li className="pt-1 text-center text-xs text-brand-ice/40">
+                  Showing the latest {MAX_VISIBLE_ENTRIES} of {entries.length} entries. Pick a day to see more.
+                </li>
+              )}
+            </ul>
+          )}
+        </div>
+        <footer className="mt-6 flex justify-end app-region-no-drag">
+          <button
+            type="button"
+            className="rounded-md bg-brand-coral px-4 py-2 text-sm font-semibold text-brand-navy hover:bg-brand-coral/90"
+            onClick={onClose}
+          >
+            Done
+          </button>
+        </footer>
+      </div>
+    </div>
+  );
+}
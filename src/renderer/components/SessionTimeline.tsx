@@ -0,0 +1,62 @@
+import type { WorkSession, WorkSessionEnd } from '../../shared/types';
+import { getSessionSeconds } from '../../shared/sessions';
+import { formatClockTime, formatDuration } from '../utils/time';
+
+interface SessionTimelineProps {
+  sessions: WorkSession[];
+  timeZone: string;
+}
+
+const endReasonLabel: Record<WorkSessionEnd, string> = {
+  pause: 'paused',
+  stop: 'stopped',
+  reorder: 'reordered',
+  break: 'break',
+  shutdown: 'app closed'
+};
+
+export function SessionTimeline({ sessions, timeZone }: SessionTimelineProps) {
+  if (sessions.length === 0) {
+    return <p className="text-xs text-brand-ice/50">No work sessions recorded yet.</p>;
+  }
+
+  const totalSeconds = sessions.reduce((total, session) => total + getSessionSeconds(session), 0);
+  const days = new Map<string, WorkSession[]>();
+  sessions.forEach((session) => {
+    const day = new Date(session.startedAt).toLocaleDateString([], {
+      weekday: 'short',
+      month: 'short',
+      day: 'numeric',
+      timeZone: timeZone || undefined
+    });
+    days.set(day, [...(days.get(day) ?? []), session]);
+  });
+
+  return (
+    <div className="space-y-2">
+      <p className="text-xs text-brand-ice/70">
+        Tracked: <span className="font-semibold text-brand-aqua">{formatDuration(totalSeconds)}</span> across{' '}
+        {sessions.length} session{sessions.length === 1 ? '' : 's'}
+      </p>
+      {Array.from(days.entries()).map(([day, daySessions]) => (
+        <div key={day} className="space-y-1">
+          <p className="text-[11px] font-semibold uppercase tracking-wide text-brand-ice/50">{day}</p>
+          <ol className="space-y-1 border-l border-brand-teal/40 pl-3">
+            {daySessions.map((session) => (
+              <li key={session.startedAt} className="flex items-center justify-between text-xs text-brand-ice/80">
+                <span className="font-mono">
+                  {formatClockTime(session.startedAt, timeZone)} –{' '}
+                  {session.endedAt ? formatClockTime(session.endedAt, timeZone) : 'now'}
+                </span>
+                <span className="text-brand-ice/60">
+                  {formatDuration(getSessionSeconds(session))}
+                  {session.endReason ? ` · ${endReasonLabel[session.endReason]}` : ' · running'}
+                </span>
+              </li>
+            ))}
+          </ol>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,469 @@
+import { ChangeEvent, useEffect, useState } from 'react';
+import type {
+  BackupInfo,
+  DailyGoal,
+  PreferencesState,
+  RecurringTask,
+  ScoringRules,
+  TaskTemplate,
+  TemplateGroup
+} from '../../shared/types';
+import { BackupList } from './BackupList';
+import { TemplateSettings } from './TemplateSettings';
+import { getSystemTimeZone, isValidTimeZone } from '../../shared/dates';
+import { DEFAULT_SCORING_RULES } from '../../shared/scoring';
+import { describeRecurrence } from '../../shared/recurrence';
+import { normalizeTemplateGroups, normalizeTemplates } from '../../shared/templates';
+import { formatDuration } from '../utils/time';
+
+interface SettingsModalProps {
+  open: boolean;
+  preferences: PreferencesState;
+  onSave: (value: Partial<PreferencesState>) => void;
+  onClose: () => void;
+  onListBackups?: () => Promise<BackupInfo[]>;
+  onRestoreBackup?: (backupId: string) => Promise<void>;
+  recurring?: RecurringTask[];
+  onStopRecurring?: (recurringId: string) => void;
+}
+
+const inputClasses =
+  'app-region-no-drag mt-1 w-full rounded-md border border-brand-teal/40 bg-brand-navy px-2 py-1 text-sm text-brand-ice focus:border-brand-coral focus:outline-none focus:ring-1 focus:ring-brand-coral/60';
+
+const COMMON_TIME_ZONES = [
+  'UTC',
+  'America/Los_Angeles',
+  'America/Denver',
+  'America/Chicago',
+  'America/New_York',
+  'America/Sao_Paulo',
+  'Europe/London',
+  'Europe/Berlin',
+  'Europe/Moscow',
+  'Africa/Johannesburg',
+  'Asia/Dubai',
+  'Asia/Kolkata',
+  'Asia/Singapore',
+  'Asia/Tokyo',
+  'Australia/Sydney',
+  'Pacific/Auckland'
+];
+
+const SCORING_FIELDS: { key: keyof ScoringRules; label: string; min?: number; max?: number }[] = [
+  { key: 'complete', label: 'Complete a task' },
+  { key: 'earlyFinishBonus', label: 'Early-finish bonus' },
+  { key: 'earlyFinishPercent', label: 'Bonus needs % of estimate left', min: 0, max: 100 },
+  { key: 'overtime', label: 'Complete in overtime' },
+  { key: 'strike', label: 'Timer strikes a task' },
+  { key: 'addTime', label: 'Add time to a task' }
+];
+
+const toMinutes = (seconds: number): number => Math.round(seconds / 60);
+
+export function SettingsModal({
+  open,
+  preferences,
+  onSave,
+  onClose,
+  onListBackups,
+  onRestoreBackup,
+  recurring = [],
+  onStopRecurring
+}: SettingsModalProps) {
+  const { pomodoro } = preferences;
+  const [overtime, setOvertime] = useState(preferences.overtime);
+  const [enabled, setEnabled] = useState(pomodoro.enabled);
+  const [workMinutes, setWorkMinutes] = useState(toMinutes(pomodoro.workSeconds));
+  const [shortBreakMinutes, setShortBreakMinutes] = useState(toMinutes(pomodoro.shortBreakSeconds));
+  const [longBreakMinutes, setLongBreakMinutes] = useState(toMinutes(pomodoro.longBreakSeconds));
+  const [longBreakEvery, setLongBreakEvery] = useState(pomodoro.longBreakEvery);
+  const [trashRetentionDays, setTrashRetentionDays] = useState(preferences.trashRetentionDays);
+  const [archiveDelayMinutes, setArchiveDelayMinutes] = useState(preferences.archiveDelayMinutes);
+  const [dayStartHour, setDayStartHour] = useState(preferences.dayStartHour);
+  const [timeZone, setTimeZone] = useState(preferences.timeZone);
+  const [scoring, setScoring] = useState<ScoringRules>(preferences.scoring);
+  const [dailyGoalUnit, setDailyGoalUnit] = useState<DailyGoal['unit']>(preferences.dailyGoal.unit);
+  const [dailyGoalTarget, setDailyGoalTarget] = useState(preferences.dailyGoal.target);
+  const [workdayEndHour, setWorkdayEndHour] = useState(preferences.workdayEndHour);
+  const [templates, setTemplates] = useState<TaskTemplate[]>(preferences.templates);
+  const [templateGroups, setTemplateGroups] = useState<TemplateGroup[]>(preferences.templateGroups);
+
+  useEffect(() => {
+    if (open) {
+      setOvertime(preferences.overtime);
+      setEnabled(pomodoro.enabled);
+      setWorkMinutes(toMinutes(pomodoro.workSeconds));
+      setShortBreakMinutes(toMinutes(pomodoro.shortBreakSeconds));
+      setLongBreakMinutes(toMinutes(pomodoro.longBreakSeconds));
+      setLongBreakEvery(pomodoro.longBreakEvery);
+      setTrashRetentionDays(preferences.trashRetentionDays);
+      setArchiveDelayMinutes(preferences.archiveDelayMinutes);
+      setDayStartHour(preferences.dayStartHour);
+      setTimeZone(preferences.timeZone);
+      setScoring(preferences.scoring);
+      setDailyGoalUnit(preferences.dailyGoal.unit);
+      setDailyGoalTarget(preferences.dailyGoal.target);
+      setWorkdayEndHour(preferences.workdayEndHour);
+      setTemplates(preferences.templates);
+      setTemplateGroups(preferences.templateGroups);
+    }
+  }, [open, preferences, pomodoro]);
+
+  if (!open) {
+    return null;
+  }
+
+  const parsePositive = (value: string, fallback: number): number => {
+    const next = Number(value);
+    return Number.isFinite(next) && next >= 1 ? Math.floor(next) : fallback;
+  };
+
+  const parseNonNegative = (value: string, fallback: number): number => {
+    const next = Number(value);
+    return Number.isFinite(next) && next >= 0 ? Math.floor(next) : fallback;
+  };
+
+  const parseInteger = (value: string, fallback: number, min = -Infinity, max = Infinity): number => {
+    const next = Number(value);
+    return value.trim() !== '' && Number.isFinite(next) ? Math.min(max, Math.max(min, Math.round(next))) : fallback;
+  };
+
+  const timeZoneValid = !timeZone.trim() || isValidTimeZone(timeZone.trim());
+
+  const handleSave = () => {
+    if (!timeZoneValid) {
+      return;
+    }
+    const savedTemplates = normalizeTemplates(templates);
+    onSave({
+      overtime,
+      pomodoro: {
+        enabled,
+        workSeconds: workMinutes * 60,
+        shortBreakSeconds: shortBreakMinutes * 60,
+        longBreakSeconds: longBreakMinutes * 60,
+        longBreakEvery
+      },
+      trashRetentionDays,
+      archiveDelayMinutes,
+      dayStartHour,
+      timeZone: timeZone.trim(),
+      scoring,
+      dailyGoal: { unit: dailyGoalUnit, target: dailyGoalTarget },
+      workdayEndHour,
+      templates: savedTemplates,
+      templateGroups: normalizeTemplateGroups(templateGroups, savedTemplates)
+    });
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-brand-navy/85 px-4">
+      <div className="w-full max-w-md rounded-xl border border-brand-teal/40 bg-brand-dusk p-6 shadow-2xl flex flex-col max-h-[80vh]">
+        <header className="mb-4 app-region-no-drag">
+          <h2 className="modal-heading font-semibold text-brand-ice">Settings</h2>
+          <p className="modal-subtitle mt-1 text-brand-ice/80">Tune how TimeBound runs your queue.</p>
+        </header>
+        <div className="space-y-4 overflow-auto flex-1">
+          <section className="space-y-2 rounded-lg border border-brand-ice/10 bg-brand-navy/40 p-3">
+            <div className="flex items-center gap-2">
+              <input
+                id="settings-overtime-toggle"
+                type="checkbox"
+                className="h-4 w-4 rounded border-brand-teal/40 bg-brand-navy text-brand-coral focus:ring-brand-coral/60"
+                checked={overtime}
+                onChange={(event: ChangeEvent<HTMLInputElement>) => setOvertime(event.target.checked)}
+              />
+              <label htmlFor="settings-overtime-toggle" className="modal-label font-medium text-brand-ice">
+                Track overtime
+              </label>
+            </div>
+            <p className="text-xs text-brand-ice/60">
+              When a timer runs out the task stays active and counts the overrun until you complete it, instead of
+              being struck automatically.
+            </p>
+          </section>
+          <section className="space-y-3 rounded-lg border border-brand-ice/10 bg-brand-navy/40 p-3">
+            <div className="flex items-center gap-2">
+              <input
+                id="settings-pomodoro-toggle"
+                type="checkbox"
+                className="h-4 w-4 rounded border-brand-teal/40 bg-brand-navy text-brand-coral focus:ring-brand-coral/60"
+                checked={enabled}
+                onChange={(event: ChangeEvent<HTMLInputElement>) => setEnabled(event.target.checked)}
+              />
+              <label htmlFor="settings-pomodoro-toggle" className="modal-label font-medium text-brand-ice">
+                Pomodoro mode
+              </label>
+            </div>
+            <p className="text-xs text-brand-ice/60">
+              Split each timebox into work intervals with breaks in between. Breaks never affect your score.
+            </p>
+            <div className="grid grid-cols-2 gap-3">
+              <label className="flex flex-col text-xs text-brand-ice/70">
+                Work interval (min)
+                <input
+                  type="number"
+                  min={1}
+                  className={inputClasses}
+                  value={workMinutes}
+                  disabled={!enabled}
+                  onChange={(event: ChangeEvent<HTMLInputElement>) => setWorkMinutes(parsePositive(event.target.value, workMinutes))}
+                />
+              </label>
+              <label className="flex flex-col text-xs text-brand-ice/70">
+                Long break every (intervals)
+                <input
+                  type="number"
+                  min={1}
+                  className={inputClasses}
+                  value={longBreakEvery}
+                  disabled={!enabled}
+                  onChange={(event: ChangeEvent<HTMLInputElement>) => setLongBreakEvery(parsePositive(event.target.value, longBreakEvery))}
+                />
+              </label>
+              <label className="flex flex-col text-xs text-brand-ice/70">
+                Short break (min)
+                <input
+                  type="number"
+                  min={1}
+                  className={inputClasses}
+                  value={shortBreakMinutes}
+                  disabled={!enabled}
+                  onChange={(event: ChangeEvent<HTMLInputElement>) => setShortBreakMinutes(parsePositive(event.target.value, shortBreakMinutes))}
+                />
+              </label>
+              <label className="flex flex-col text-xs text-brand-ice/70">
+                Long break (min)
+                <input
+                  type="number"
+                  min={1}
+                  className={inputClasses}
+                  value={longBreakMinutes}
+                  disabled={!enabled}
+                  onChange={(event: ChangeEvent<HTMLInputElement>) => setLongBreakMinutes(parsePositive(event.target.value, longBreakMinutes))}
+                />
+              </label>
+            </div>
+          </section>
+          <section className="space-y-2 rounded-lg border border-brand-ice/10 bg-brand-navy/40 p-3">
+            <div className="grid grid-cols-2 gap-3">
+              <label className="flex flex-col text-xs text-brand-ice/70">
+                Daily goal
+                <input
+                  type="number"
+                  min={1}
+                  className={inputClasses}
+                  value={dailyGoalTarget}
+                  onChange={(event: ChangeEvent<HTMLInputElement>) =>
+                    setDailyGoalTarget(parsePositive(event.target.value, dailyGoalTarget))
+                  }
+                />
+              </label>
+              <label className="flex flex-col text-xs text-brand-ice/70">
+                Measured in
+                <select
+                  className={inputClasses}
+                  value={dailyGoalUnit}
+                  onChange={(event: ChangeEvent<HTMLSelectElement>) =>
+                    setDailyGoalUnit(event.target.value === 'minutes' ? 'minutes' : 'tasks')
+                  }
+                >
+                  <option value="tasks">Tasks finished</option>
+                  <option value="minutes">Focused minutes</option>
+                </select>
+              </label>
+            </div>
+            <label className="flex flex-col text-xs text-brand-ice/70">
+              Working day ends at
+              <select
+                className={inputClasses}
+                value={workdayEndHour}
+                onChange={(event: ChangeEvent<HTMLSelectElement>) => setWorkdayEndHour(Number(event.target.value))}
+              >
+                {Array.from({ length: 24 }, (_, index) => index + 1).map((hour) => (
+                  <option key={hour} value={hour}>
+                    {`${hour.toString().padStart(2, '0')}:00`}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <p className="text-xs text-brand-ice/60">
+              Each day you reach the goal extends your streak. You are warned when the queue holds more work than
+              fits before the working day ends.
+            </p>
+          </section>
+          <section className="space-y-2 rounded-lg border border-brand-ice/10 bg-brand-navy/40 p-3">
+            <label className="flex flex-col text-xs text-brand-ice/70">
+              New day starts at
+              <select
+                className={inputClasses}
+                value={dayStartHour}
+                onChange={(event: ChangeEvent<HTMLSelectElement>) => setDayStartHour(Number(event.target.value))}
+              >
+                {Array.from({ length: 24 }, (_, hour) => (
+                  <option key={hour} value={hour}>
+                    {`${hour.toString().padStart(2, '0')}:00`}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="flex flex-col text-xs text-brand-ice/70">
+              Time zone
+              <input
+                type="text"
+                list="settings-time-zones"
+                className={inputClasses}
+                placeholder={`System (${getSystemTimeZone()})`}
+                value={timeZone}
+                onChange={(event: ChangeEvent<HTMLInputElement>) => setTimeZone(event.target.value)}
+              />
+              <datalist id="settings-time-zones">
+                {COMMON_TIME_ZONES.map((zone) => (
+                  <option key={zone} value={zone} />
+                ))}
+              </datalist>
+            </label>
+            {!timeZoneValid && <p className="text-xs text-red-300">Unknown time zone. Use an IANA name like Europe/Berlin.</p>}
+            <p className="text-xs text-brand-ice/60">
+              Daily counts reset at this hour in this zone, and unfinished tasks are offered for carry-over. Leave the
+              zone empty to follow the system.
+            </p>
+          </section>
+          <section className="space-y-3 rounded-lg border border-brand-ice/10 bg-brand-navy/40 p-3">
+            <div className="flex items-center justify-between">
+              <h3 className="modal-label font-medium text-brand-ice">Scoring</h3>
+              <button
+                type="button"
+                className="text-xs text-brand-aqua/80 hover:text-brand-aqua"
+                onClick={() => setScoring({ ...DEFAULT_SCORING_RULES })}
+              >
+                Reset to defaults
+              </button>
+            </div>
+            <p className="text-xs text-brand-ice/60">
+              Points per event; use negative numbers for penalties. Changes apply from now on and do not rescore the past.
+            </p>
+            <div className="grid grid-cols-2 gap-3">
+              {SCORING_FIELDS.map(({ key, label, min, max }) => (
+                <label key={key} className="flex flex-col text-xs text-brand-ice/70">
+                  {label}
+                  <input
+                    type="number"
+                    min={min}
+                    max={max}
+                    className={inputClasses}
+                    value={scoring[key]}
+                    onChange={(event: ChangeEvent<HTMLInputElement>) => {
+                      const next = parseInteger(event.target.value, scoring[key], min, max);
+                      setScoring((previous) => ({ ...previous, [key]: next }));
+                    }}
+                  />
+                </label>
+              ))}
+            </div>
+          </section>
+          <section className="space-y-2 rounded-lg border border-brand-ice/10 bg-brand-navy/40 p-3">
+            <label className="flex flex-col text-xs text-brand-ice/70">
+              Move finished tasks to history after (min)
+              <input
+                type="number"
+                min={0}
+                className={inputClasses}
+                value={archiveDelayMinutes}
+                onChange={(event: ChangeEvent<HTMLInputElement>) =>
+                  setArchiveDelayMinutes(parseNonNegative(event.target.value, archiveDelayMinutes))
+                }
+              />
+            </label>
+            <p className="text-xs text-brand-ice/60">Tasks finished on an earlier day are always moved at day rollover.</p>
+          </section>
+          <section className="space-y-2 rounded-lg border border-brand-ice/10 bg-brand-navy/40 p-3">
+            <label className="flex flex-col text-xs text-brand-ice/70">
+              Keep deleted tasks in the trash for (days)
+              <input
+                type="number"
+                min={1}
+                className={inputClasses}
+                value={trashRetentionDays}
+                onChange={(event: ChangeEvent<HTMLInputElement>) =>
+                  setTrashRetentionDays(parsePositive(event.target.value, trashRetentionDays))
+                }
+              />
+            </label>
+            <p className="text-xs text-brand-ice/60">Older items are purged the next time TimeBound starts.</p>
+          </section>
+          <TemplateSettings
+            templates={templates}
+            groups={templateGroups}
+            onChange={(nextTemplates, nextGroups) => {
+              setTemplates(nextTemplates);
+              setTemplateGroups(nextGroups);
+            }}
+          />
+          {onStopRecurring && recurring.length > 0 && (
+            <section className="space-y-2 rounded-lg border border-brand-ice/10 bg-brand-navy/40 p-3">
+              <h3 className="modal-label font-medium text-brand-ice">Recurring tasks</h3>
+              <ul className="space-y-1">
+                {recurring.map((series) => (
+                  <li key={series.id} className="flex items-center justify-between gap-3 text-xs">
+                    <div className="min-w-0">
+                      <p className="truncate text-brand-ice">{series.title}</p>
+                      <p className="text-brand-ice/50">
+                        {describeRecurrence(series.rule)}
+                        {series.timeAssignedSeconds !== undefined && ` · ${formatDuration(series.timeAssignedSeconds)}`}
+                      </p>
+                    </div>
+                    <button
+                      type="button"
+                      className="shrink-0 rounded-md border border-red-400/50 px-2 py-1 text-red-300 hover:bg-red-500/10"
+                      onClick={() => {
+                        if (window.confirm(`Stop repeating "${series.title}"? Tasks already in the queue stay.`)) {
+                          onStopRecurring(series.id);
+                        }
+                      }}
+                    >
+                      Stop
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            </section>
+          )}
+          {onListBackups && onRestoreBackup && (
+            <section className="space-y-2 rounded-lg border border-brand-ice/10 bg-brand-navy/40 p-3">
+              <h3 className="modal-label font-medium text-brand-ice">Backups</h3>
+              <p className="text-xs text-brand-ice/60">
+                Snapshots are kept for the last 24 hours and the last 14 days. Restoring one replaces your current data.
+              </p>
+              <BackupList
+                open={open}
+                onList={onListBackups}
+                onRestore={onRestoreBackup}
+                onRestored={onClose}
+                timeZone={preferences.timeZone}
+              />
+            </section>
+          )}
+        </div>
+        <footer className="mt-6 flex justify-end gap-3 app-region-no-drag">
+          <button
+            type="button"
+            className="rounded-md border border-brand-ice/30 px-4 py-2 text-sm font-medium text-brand-ice hover:border-brand-ice/60"
+            onClick={onClose}
+          >
+            Cancel
+          </button>
+          <button
+            type="button"
+            className="rounded-md bg-brand-coral px-4 py-2 text-sm font-semibold text-brand-navy hover:bg-brand-coral/90 disabled:opacity-50"
+            disabled={!timeZoneValid}
+            onClick={handleSave}
+          >
+            Save Settings
+          </button>
+        </footer>
+      </div>
+    </div>
+  );
+}
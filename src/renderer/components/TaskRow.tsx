@@ -1,6 +1,12 @@
 import { useState, useRef, useEffect } from 'react';
-import type { Task } from '../../shared/types';
-import { formatSeconds } from '../utils/time';
+import type { Task, TaskPriority } from '../../shared/types';
+import { isBreakTask } from '../../shared/pomodoro';
+import { getTaskOverrunSeconds, isStopwatchTask } from '../../shared/stateHelpers';
+import type { TaskEta } from '../../shared/queue';
+import { isAwaitingSlot } from '../../shared/schedule';
+import { getChecklistProgress } from '../../shared/checklist';
+import { formatClockTime, formatDueTime, formatElapsed, formatOverrun, formatSeconds } from '../utils/time';
+import { getLabelClasses } from '../utils/labels';
 
 interface TaskRowProps {
   task: Task;
@@ -8,6 +14,10 @@ interface TaskRowProps {
   isActive: boolean;
   isSelected?: boolean;
   multiSelectCount?: number;
+  /** Projected start and finish; only open tasks have one. */
+  eta?: TaskEta;
+  /** Zone that clock times are shown in ('' = the system zone). */
+  timeZone: string;
   onEdit: (task: Task) => void;
   onSelect?: (task: Task, event?: React.MouseEvent) => void;
   onAddTime?: (task: Task) => void;
@@ -23,6 +33,13 @@ const statusTone: Record<Task['status'], string> = {
   struck: 'text-brand-ice/50'
 };
 
+const priorityTone: Record<TaskPriority, string> = {
+  1: 'border-red-400/60 bg-red-500/20 text-red-300',
+  2: 'border-brand-ember/60 bg-brand-ember/15 text-brand-ember',
+  3: 'border-brand-aqua/50 bg-brand-aqua/10 text-brand-aqua',
+  4: 'border-brand-ice/20 text-brand-ice/50'
+};
+
 const statusDecoration: Record<Task['status'], string> = {
   pending: '',
   in_progress: '',
@@ -31,11 +48,29 @@ const statusDecoration: Record<Task['status'], string> = {
 };
 
 export function TaskRow(props: TaskRowProps) {
-  const { task, index, isActive, isSelected = false, multiSelectCount = 0, onEdit, onSelect, onAddTime, onDelete, onDeleteMultiple, onMakeActive } = props;
+  const { task, index, isActive, isSelected = false, multiSelectCount = 0, eta, timeZone, onEdit, onSelect, onAddTime, onDelete, onDeleteMultiple, onMakeActive } = props;
   const [contextMenu, setContextMenu] = useState<{ x: number; y: number } | null>(null);
   const menuRef = useRef<HTMLDivElement>(null);
-  const time = formatSeconds(task.remainingSeconds ?? task.timeAssignedSeconds);
+  const isStopwatch = isStopwatchTask(task);
+  const isOvertime = typeof task.remainingSeconds === 'number' && task.remainingSeconds < 0;
+  const overrunSeconds = task.status === 'completed' ? getTaskOverrunSeconds(task) : 0;
+  const time = isStopwatch
+    ? formatElapsed(task.elapsedSeconds)
+    : isOvertime
+    ? formatOverrun(task.remainingSeconds ?? 0)
+    : formatSeconds(task.remainingSeconds ?? task.timeAssignedSeconds);
+  const timeTone = isOvertime ? 'text-red-400 font-semibold' : isStopwatch ? 'text-brand-ember/80' : 'text-brand-aqua/70';
   const displayIndex = index + 1;
+  const isBreak = isBreakTask(task);
+  const checklist = getChecklistProgress(task);
+  const isOpen = task.status !== 'completed' && task.status !== 'struck';
+  const isPastDue = Boolean(task.dueAt) && isOpen && Date.parse(task.dueAt as string) < Date.now();
+  const etaEnd = eta?.endsAt ? formatClockTime(eta.endsAt, timeZone) : undefined;
+  const etaLabel = !eta
+    ? undefined
+    : isActive && !isAwaitingSlot(task)
+    ? etaEnd && `ends ${etaEnd}`
+    : `${formatClockTime(eta.startsAt, timeZone)}–${etaEnd ?? '?'}`;
 
   // Close context menu when clicking outside
   useEffect(() => {
@@ -54,6 +89,7 @@ export function TaskRow(props: TaskRowProps) {
   const containerClasses = [
     'flex items-center justify-between rounded-lg border border-brand-ice/10 bg-brand-dusk/70 px-3 py-2 transition-colors shadow-sm cursor-grab select-none focus:outline-none focus:ring-2 focus:ring-brand-coral/60 focus:ring-offset-2 focus:ring-offset-brand-navy active:cursor-grabbing',
     isActive ? 'border-brand-teal/60 bg-brand-teal/20 shadow-md' : '',
+    isBreak ? 'border-dashed border-brand-ember/60 bg-brand-ember/10' : '',
     // Multi-select: white border for all selected tasks
     // Single-select: coral border only for selected non-active task
     isSelected && !isActive && multiSelectCount > 1 ? 'border-brand-ice bg-brand-ice/10 shadow-md' : '',
@@ -98,10 +134,12 @@ export function TaskRow(props: TaskRowProps) {
         onContextMenu={handleContextMenu}
         onDoubleClick={(e) => {
           e.stopPropagation();
-          onEdit(task);
+          if (!isBreak) {
+            onEdit(task);
+          }
         }}
         onKeyDown={(event) => {
-          if (event.key === 'Enter' || event.key === ' ') {
+          if (!isBreak && (event.key === 'Enter' || event.key === ' ')) {
             event.preventDefault();
             onEdit(task);
           }
@@ -111,8 +149,96 @@ export function TaskRow(props: TaskRowProps) {
         title="Click to select, Shift+Click to select range, Ctrl+Click to toggle, double-click to edit, right-click for options"
       >
         <span className="text-xs font-semibold tracking-wide text-brand-aqua/80">{displayIndex.toString().padStart(2, '0')}</span>
-        <span className="w-20 text-xs font-mono text-brand-aqua/70">[{time}]</span>
-        <span className={titleClasses}>{task.title}</span>
+        <span
+          className={`w-20 text-xs font-mono ${timeTone}`}
+          title={
+            isOvertime
+              ? 'Over estimate'
+              : isStopwatch
+              ? 'Stopwatch: elapsed time'
+              : task.needsEstimate
+              ? 'Needs an estimate'
+              : undefined
+          }
+        >
+          [{time}]
+        </span>
+        {isBreak ? (
+          <span className="flex-1 truncate pl-3 text-sm font-medium italic text-brand-ember">☕ {task.title}</span>
+        ) : (
+          <span className={titleClasses}>{task.title}</span>
+        )}
+        {task.priority && (
+          <span
+            className={`ml-2 shrink-0 rounded border px-1 text-[10px] font-bold ${priorityTone[task.priority]}`}
+            title="Priority"
+          >
+            P{task.priority}
+          </span>
+        )}
+        {task.dueAt && (
+          <span
+            className={`ml-2 shrink-0 text-[11px] ${isPastDue ? 'font-semibold text-red-400' : 'text-brand-ice/60'}`}
+            title={isPastDue ? 'Past its deadline' : 'Deadline'}
+          >
+            due {formatDueTime(task.dueAt, timeZone)}
+          </span>
+        )}
+        {task.project && (
+          <span
+            className={`ml-2 shrink-0 rounded border px-1 text-[10px] font-semibold ${getLabelClasses(task.project)}`}
+            title="Project"
+          >
+            +{task.project}
+          </span>
+        )}
+        {(task.tags ?? []).map((tag) => (
+          <span
+            key={tag}
+            className={`ml-1 shrink-0 rounded-full border px-1.5 text-[10px] ${getLabelClasses(tag)}`}
+            title="Tag"
+          >
+            #{tag}
+          </span>
+        ))}
+        {task.notes && (
+          <span className="ml-2 shrink-0 text-xs text-brand-ice/50" title={task.notes}>
+            ✎
+          </span>
+        )}
+        {checklist.total > 0 && (
+          <span
+            className={`ml-2 shrink-0 text-[11px] font-mono ${
+              checklist.done === checklist.total ? 'text-brand-aqua' : 'text-brand-ice/60'
+            }`}
+            title="Checklist steps done"
+          >
+            ☑ {checklist.done}/{checklist.total}
+          </span>
+        )}
+        {task.recurrenceId && (
+          <span className="ml-2 shrink-0 text-xs text-brand-aqua/70" title="Recurring task">
+            ↻
+          </span>
+        )}
+        {task.scheduledStart && (
+          <span
+            className="ml-2 shrink-0 rounded border border-brand-coral/50 px-1 text-[10px] font-semibold text-brand-coral"
+            title="Fixed start time"
+          >
+            @ {formatClockTime(task.scheduledStart, timeZone)}
+          </span>
+        )}
+        {etaLabel && (
+          <span className="ml-2 shrink-0 text-[11px] font-mono text-brand-ice/50" title="Projected start and finish">
+            {etaLabel}
+          </span>
+        )}
+        {overrunSeconds > 0 && (
+          <span className="ml-2 text-[11px] font-mono text-red-400/80" title="Time spent past the estimate">
+            over {formatSeconds(overrunSeconds)}
+          </span>
+        )}
       </div>
 
       {contextMenu && (
@@ -133,6 +259,15 @@ export function TaskRow(props: TaskRowProps) {
             >
               Delete Selected ({multiSelectCount} tasks)
             </button>
+          ) : isBreak ? (
+            // Break rows can only be skipped
+            <button
+              type="button"
+              className="w-full px-4 py-2 text-left text-sm text-brand-ember hover:bg-brand-ember/10 rounded-lg transition-colors"
+              onClick={handleDelete}
+            >
+              Skip Break
+            </button>
           ) : (
             // Single select context menu: Show all options
             <>
@@ -0,0 +1,185 @@
+import { ChangeEvent } from 'react';
+import { v4 as uuidv4 } from 'uuid';
+import type { TaskTemplate, TemplateGroup } from '../../shared/types';
+import { formatTags, parseTags } from '../../shared/tags';
+
+interface TemplateSettingsProps {
+  templates: TaskTemplate[];
+  groups: TemplateGroup[];
+  onChange: (templates: TaskTemplate[], groups: TemplateGroup[]) => void;
+}
+
+const inputClasses =
+  'app-region-no-drag w-full rounded-md border border-brand-teal/40 bg-brand-navy px-2 py-1 text-sm text-brand-ice focus:border-brand-coral focus:outline-none focus:ring-1 focus:ring-brand-coral/60';
+
+const linkButtonClasses = 'text-xs font-medium text-brand-teal hover:text-brand-ice';
+
+const removeButtonClasses = 'shrink-0 rounded-md border border-red-400/50 px-2 py-1 text-xs text-red-300 hover:bg-red-500/10';
+
+export function TemplateSettings({ templates, groups, onChange }: TemplateSettingsProps) {
+  const titles = new Map(templates.map((template) => [template.id, template.title.trim() || 'Untitled']));
+
+  const updateTemplate = (templateId: string, patch: Partial<TaskTemplate>) => {
+    onChange(
+      templates.map((template) => (template.id === templateId ? { ...template, ...patch } : template)),
+      groups
+    );
+  };
+
+  const removeTemplate = (templateId: string) => {
+    onChange(
+      templates.filter((template) => template.id !== templateId),
+      groups.map((group) => ({ ...group, templateIds: group.templateIds.filter((id) => id !== templateId) }))
+    );
+  };
+
+  const updateGroup = (groupId: string, patch: Partial<TemplateGroup>) => {
+    onChange(
+      templates,
+      groups.map((group) => (group.id === groupId ? { ...group, ...patch } : group))
+    );
+  };
+
+  return (
+    <>
+      <section className="space-y-2 rounded-lg border border-brand-ice/10 bg-brand-navy/40 p-3">
+        <h3 className="modal-label font-medium text-brand-ice">Task templates</h3>
+        <p className="text-xs text-brand-ice/60">Presets you can add from the "+ Add Task" menu. Leave minutes empty to estimate later.</p>
+        {templates.map((template) => (
+          <div key={template.id} className="space-y-1 rounded-md border border-brand-ice/10 p-2">
+            <div className="flex items-center gap-2">
+              <input
+                type="text"
+                className={inputClasses}
+                value={template.title}
+                placeholder="Title"
+                onChange={(event: ChangeEvent<HTMLInputElement>) => updateTemplate(template.id, { title: event.target.value })}
+              />
+              <input
+                type="number"
+                min={1}
+                className={`${inputClasses} w-20`}
+                value={template.seconds ? Math.round(template.seconds / 60) : ''}
+                placeholder="min"
+                aria-label="Minutes"
+                onChange={(event: ChangeEvent<HTMLInputElement>) => {
+                  const minutes = Number(event.target.value);
+                  updateTemplate(template.id, {
+                    seconds: Number.isFinite(minutes) && minutes >= 1 ? Math.floor(minutes) * 60 : undefined
+                  });
+                }}
+              />
+              <button
+                type="button"
+                className={removeButtonClasses}
+                onClick={() => removeTemplate(template.id)}
+              >
+                Remove
+              </button>
+            </div>
+            <div className="flex items-center gap-2">
+              <input
+                type="text"
+                className={inputClasses}
+                defaultValue={formatTags(template.tags)}
+                placeholder="#tags"
+                aria-label="Tags"
+                onBlur={(event) => updateTemplate(template.id, { tags: parseTags(event.target.value) })}
+              />
+              <input
+                type="text"
+                className={`${inputClasses} w-32`}
+                value={template.project ?? ''}
+                placeholder="+project"
+                aria-label="Project"
+                onChange={(event: ChangeEvent<HTMLInputElement>) => updateTemplate(template.id, { project: event.target.value })}
+              />
+            </div>
+            <textarea
+              className={`${inputClasses} resize-none`}
+              rows={1}
+              value={template.notes ?? ''}
+              placeholder="Notes"
+              onChange={(event: ChangeEvent<HTMLTextAreaElement>) => updateTemplate(template.id, { notes: event.target.value })}
+            />
+          </div>
+        ))}
+        <button
+          type="button"
+          className={linkButtonClasses}
+          onClick={() => onChange([...templates, { id: uuidv4(), title: '' }], groups)}
+        >
+          + Add template
+        </button>
+      </section>
+      <section className="space-y-2 rounded-lg border border-brand-ice/10 bg-brand-navy/40 p-3">
+        <h3 className="modal-label font-medium text-brand-ice">Routines</h3>
+        <p className="text-xs text-brand-ice/60">A routine queues its templates in order with one click.</p>
+        {groups.map((group) => (
+          <div key={group.id} className="space-y-1 rounded-md border border-brand-ice/10 p-2">
+            <div className="flex items-center gap-2">
+              <input
+                type="text"
+                className={inputClasses}
+                value={group.name}
+                placeholder="Routine name"
+                onChange={(event: ChangeEvent<HTMLInputElement>) => updateGroup(group.id, { name: event.target.value })}
+              />
+              <button
+                type="button"
+                className={removeButtonClasses}
+                onClick={() => onChange(templates, groups.filter((candidate) => candidate.id !== group.id))}
+              >
+                Remove
+              </button>
+            </div>
+            <ol className="space-y-1">
+              {group.templateIds.map((templateId, index) => (
+                <li key={`${templateId}-${index}`} className="flex items-center justify-between gap-2 text-xs text-brand-ice">
+                  <span className="truncate">
+                    {index + 1}. {titles.get(templateId)}
+                  </span>
+                  <button
+                    type="button"
+                    className="text-brand-ice/50 hover:text-red-300"
+                    aria-label={`Remove step ${index + 1}`}
+                    onClick={() =>
+                      updateGroup(group.id, { templateIds: group.templateIds.filter((_, position) => position !== index) })
+                    }
+                  >
+                    ✕
+                  </button>
+                </li>
+              ))}
+            </ol>
+            {templates.length > 0 && (
+              <select
+                className={inputClasses}
+                value=""
+                onChange={(event: ChangeEvent<HTMLSelectElement>) => {
+                  if (event.target.value) {
+                    updateGroup(group.id, { templateIds: [...group.templateIds, event.target.value] });
+                  }
+                }}
+              >
+                <option value="">Add a step…</option>
+                {templates.map((template) => (
+                  <option key={template.id} value={template.id}>
+                    {titles.get(template.id)}
+                  </option>
+                ))}
+              </select>
+            )}
+          </div>
+        ))}
+        <button
+          type="button"
+          className={linkButtonClasses}
+          onClick={() => onChange(templates, [...groups, { id: uuidv4(), name: '', templateIds: [] }])}
+        >
+          + Add routine
+        </button>
+      </section>
+    </>
+  );
+}
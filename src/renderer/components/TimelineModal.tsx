@@ -0,0 +1,149 @@
+import { useMemo } from 'react';
+import type { Task } from '../../shared/types';
+import type { QueueProjection } from '../../shared/queue';
+import { isBreakTask } from '../../shared/pomodoro';
+import { formatClockTime, formatDuration } from '../utils/time';
+
+interface TimelineModalProps {
+  open: boolean;
+  tasks: Task[];
+  projection: QueueProjection;
+  timeZone: string;
+  onClose: () => void;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+const HOUR_HEIGHT = 48;
+/** Height given to a task whose end cannot be projected. */
+const OPEN_ENDED_MS = 15 * 60 * 1000;
+const MIN_GAP_MS = 60 * 1000;
+
+interface TimelineBlock {
+  task: Task;
+  start: number;
+  end?: number;
+  late: boolean;
+}
+
+const toOffset = (time: number, rangeStart: number) => ((time - rangeStart) / HOUR_MS) * HOUR_HEIGHT;
+
+export function TimelineModal({ open, tasks, projection, timeZone, onClose }: TimelineModalProps) {
+  const view = useMemo(() => {
+    if (!open) {
+      return null;
+    }
+    const now = Date.now();
+    const lateIds = new Set(projection.conflicts.map((conflict) => conflict.taskId));
+    const blocks: TimelineBlock[] = tasks
+      .filter((task) => projection.etas[task.id])
+      .map((task) => {
+        const eta = projection.etas[task.id];
+        return {
+          task,
+          start: Date.parse(eta.startsAt),
+          end: eta.endsAt ? Date.parse(eta.endsAt) : undefined,
+          late: lateIds.has(task.id)
+        };
+      });
+    const gaps = blocks.slice(1).flatMap((block, index) => {
+      const previousEnd = blocks[index].end;
+      return previousEnd !== undefined && block.start - previousEnd >= MIN_GAP_MS
+        ? [{ start: previousEnd, end: block.start }]
+        : [];
+    });
+    const latest = blocks.reduce((max, block) => Math.max(max, block.end ?? block.start + OPEN_ENDED_MS), now + HOUR_MS);
+    const rangeStart = Math.floor(Math.min(now, blocks[0]?.start ?? now) / HOUR_MS) * HOUR_MS;
+    const rangeEnd = Math.min(Math.ceil(latest / HOUR_MS) * HOUR_MS, rangeStart + 24 * HOUR_MS);
+    return {
+      now,
+      blocks,
+      gaps,
+      rangeStart,
+      hours: Array.from({ length: Math.round((rangeEnd - rangeStart) / HOUR_MS) }, (_, index) => rangeStart + index * HOUR_MS)
+    };
+  }, [open, tasks, projection]);
+
+  if (!open || !view) {
+    return null;
+  }
+
+  const { now, blocks, gaps, rangeStart, hours } = view;
+  const scheduledCount = blocks.filter(({ task }) => task.scheduledStart).length;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-brand-navy/85 px-4">
+      <div className="w-full max-w-md rounded-xl border border-brand-teal/40 bg-brand-dusk p-6 shadow-2xl flex flex-col max-h-[85vh]">
+        <header className="mb-4 app-region-no-drag">
+          <h2 className="modal-heading font-semibold text-brand-ice">Timeline</h2>
+          <p className="modal-subtitle mt-1 text-brand-ice/80">
+            {scheduledCount > 0
+              ? `The queue as it should play out, with ${scheduledCount} fixed time block${scheduledCount === 1 ? '' : 's'}.`
+              : 'The queue as it should play out. Give a task a fixed start time to block it in.'}
+          </p>
+        </header>
+        <div className="overflow-auto flex-1">
+          {blocks.length === 0 ? (
+            <p className="text-sm text-brand-ice/50">Nothing queued.</p>
+          ) : (
+            <div className="relative ml-12" style={{ height: hours.length * HOUR_HEIGHT }}>
+              {hours.map((hour) => (
+                <div
+                  key={hour}
+                  className="absolute inset-x-0 border-t border-brand-ice/10"
+                  style={{ top: toOffset(hour, rangeStart) }}
+                >
+                  <span className="absolute -left-12 -top-2 w-10 text-right text-[10px] text-brand-ice/40">
+                    {formatClockTime(new Date(hour).toISOString(), timeZone)}
+                  </span>
+                </div>
+              ))}
+              {gaps.map((gap) => (
+                <div
+                  key={`gap-${gap.start}`}
+                  className="absolute inset-x-2 flex items-center justify-center rounded border border-dashed border-brand-ice/20 text-[10px] text-brand-ice/40"
+                  style={{ top: toOffset(gap.start, rangeStart), height: toOffset(gap.end, gap.start) }}
+                  title="The queue waits here for the next time block"
+                >
+                  idle {formatDuration((gap.end - gap.start) / 1000)}
+                </div>
+              ))}
+              {blocks.map(({ task, start, end, late }) => (
+                <div
+                  key={task.id}
+                  className={`absolute inset-x-2 overflow-hidden rounded px-2 py-0.5 text-[11px] ${
+                    late
+                      ? 'border border-red-400/70 bg-red-500/20 text-red-100'
+                      : task.scheduledStart
+                      ? 'border border-brand-coral/70 bg-brand-coral/20 text-brand-ice'
+                      : isBreakTask(task)
+                      ? 'border border-dashed border-brand-ember/60 bg-brand-ember/10 text-brand-ember'
+                      : 'border border-brand-teal/50 bg-brand-teal/20 text-brand-ice'
+                  } ${end === undefined ? 'border-dashed' : ''}`}
+                  style={{ top: toOffset(start, rangeStart), height: Math.max(14, toOffset(end ?? start + OPEN_ENDED_MS, start)) }}
+                  title={`${task.title}: ${formatClockTime(new Date(start).toISOString(), timeZone)}–${
+                    end === undefined ? '?' : formatClockTime(new Date(end).toISOString(), timeZone)
+                  }${late ? ' (starts late: the tasks before it overrun its slot)' : ''}`}
+                >
+                  <span className="font-semibold">{task.title}</span>
+                  {task.scheduledStart && <span className="ml-1 opacity-70">@ {formatClockTime(task.scheduledStart, timeZone)}</span>}
+                </div>
+              ))}
+              <div className="absolute inset-x-0 border-t-2 border-brand-coral" style={{ top: toOffset(now, rangeStart) }}>
+                <span className="absolute -left-12 -top-2 w-10 text-right text-[10px] font-semibold text-brand-coral">now</span>
+              </div>
+            </div>
+          )}
+        </div>
+        <footer className="mt-6 flex justify-end app-region-no-drag">
+          <button
+            type="button"
+            className="rounded-md bg-brand-coral px-4 py-2 text-sm font-semibold text-brand-navy hover:bg-brand-coral/90"
+            onClick={onClose}
+          >
+            Done
+          </button>
+        </footer>
+      </div>
+    </div>
+  );
+}
@@ -5,6 +5,9 @@ interface TitleBarProps {
   alwaysOnTop: boolean;
   isMaximized: boolean;
   onToggleAlwaysOnTop: () => void;
+  onOpenSettings: () => void;
+  trashCount: number;
+  onOpenTrash: () => void;
   onMinimize: () => void;
   onToggleMaximize: () => void;
   onClose: () => void;
@@ -20,6 +23,9 @@ export const TitleBar: FC<TitleBarProps> = ({
   alwaysOnTop,
   isMaximized,
   onToggleAlwaysOnTop,
+  onOpenSettings,
+  trashCount,
+  onOpenTrash,
   onMinimize,
   onToggleMaximize,
   onClose
@@ -42,6 +48,32 @@ export const TitleBar: FC<TitleBarProps> = ({
         </div>
       </div>
       <div className="flex items-center gap-2 flex-shrink-0" style={noDragRegionStyle}>
+        <button
+          type="button"
+          className={`${buttonBase} relative text-brand-ice/80 hover:bg-brand-ice/10 hover:text-brand-ice`}
+          aria-label="Open trash"
+          title={trashCount > 0 ? `Trash (${trashCount})` : 'Trash'}
+          onClick={onOpenTrash}
+        >
+          <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24" strokeWidth="2">
+            <path strokeLinecap="round" strokeLinejoin="round" d="M4 7h16M10 11v6M14 11v6M5 7l1 12a2 2 0 0 0 2 2h8a2 2 0 0 0 2-2l1-12M9 7V4h6v3" />
+          </svg>
+          {trashCount > 0 && (
+            <span className="absolute -right-0.5 -top-0.5 h-2 w-2 rounded-full bg-brand-coral" aria-hidden="true" />
+          )}
+        </button>
+        <button
+          type="button"
+          className={`${buttonBase} text-brand-ice/80 hover:bg-brand-ice/10 hover:text-brand-ice`}
+          aria-label="Open settings"
+          title="Settings"
+          onClick={onOpenSettings}
+        >
+          <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24" strokeWidth="2">
+            <path strokeLinecap="round" strokeLinejoin="round" d="M10.3 4.3a1.7 1.7 0 0 1 3.4 0 1.7 1.7 0 0 0 2.6 1.1 1.7 1.7 0 0 1 2.4 2.4 1.7 1.7 0 0 0 1.1 2.6 1.7 1.7 0 0 1 0 3.4 1.7 1.7 0 0 0-1.1 2.6 1.7 1.7 0 0 1-2.4 2.4 1.7 1.7 0 0 0-2.6 1.1 1.7 1.7 0 0 1-3.4 0 1.7 1.7 0 0 0-2.6-1.1 1.7 1.7 0 0 1-2.4-2.4 1.7 1.7 0 0 0-1.1-2.6 1.7 1.7 0 0 1 0-3.4 1.7 1.7 0 0 0 1.1-2.6 1.7 1.7 0 0 1 2.4-2.4 1.7 1.7 0 0 0 2.6-1.1z" />
+            <circle cx="12" cy="12" r="3" />
+          </svg>
+        </button>
         <button
           type="button"
           className={`flex items-center gap-1.5 rounded-full border px-2.5 py-1 text-[11px] font-semibold uppercase tracking-wide transition focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-1 focus-visible:outline-brand-coral whitespace-nowrap ${
@@ -0,0 +1,100 @@
+import type { Task } from '../../shared/types';
+import { formatSeconds } from '../utils/time';
+
+interface TrashModalProps {
+  open: boolean;
+  trash: Task[];
+  retentionDays: number;
+  onRestore: (taskIds: string[]) => void;
+  onPurge: (taskIds: string[]) => void;
+  onClose: () => void;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const daysLeft = (task: Task, retentionDays: number, now: number): number => {
+  const deletedAt = task.deletedAt ? new Date(task.deletedAt).getTime() : now;
+  return Math.max(0, Math.ceil((deletedAt + retentionDays * DAY_MS - now) / DAY_MS));
+};
+
+export function TrashModal({ open, trash, retentionDays, onRestore, onPurge, onClose }: TrashModalProps) {
+  if (!open) {
+    return null;
+  }
+
+  const now = Date.now();
+
+  const handleEmpty = () => {
+    if (window.confirm(`Permanently delete ${trash.length} task${trash.length === 1 ? '' : 's'} from the trash?`)) {
+      onPurge(trash.map((task) => task.id));
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-brand-navy/85 px-4">
+      <div className="w-full max-w-md rounded-xl border border-brand-teal/40 bg-brand-dusk p-6 shadow-2xl flex flex-col max-h-[80vh]">
+        <header className="mb-4 app-region-no-drag">
+          <h2 className="modal-heading font-semibold text-brand-ice">Trash</h2>
+          <p className="modal-subtitle mt-1 text-brand-ice/80">
+            Deleted tasks are kept for {retentionDays} day{retentionDays === 1 ? '' : 's'}, then removed for good.
+          </p>
+        </header>
+        <div className="overflow-auto flex-1 space-y-2">
+          {trash.length === 0 ? (
+            <p className="text-sm text-brand-ice/50">The trash is empty.</p>
+          ) : (
+            trash.map((task) => (
+              <div
+                key={task.id}
+                className="flex items-center justify-between gap-3 rounded-lg border border-brand-ice/10 bg-brand-navy/40 px-3 py-2"
+              >
+                <div className="min-w-0">
+                  <p className="truncate text-sm font-medium text-brand-ice">{task.title}</p>
+                  <p className="text-[11px] text-brand-ice/50">
+                    {task.deletedAt ? `Deleted ${new Date(task.deletedAt).toLocaleString()}` : 'Deleted'}
+                    {task.timeAssignedSeconds !== undefined ? ` · ${formatSeconds(task.timeAssignedSeconds)}` : ''}
+                    {` · ${daysLeft(task, retentionDays, now)}d left`}
+                  </p>
+                </div>
+                <div className="flex flex-shrink-0 gap-2 app-region-no-drag">
+                  <button
+                    type="button"
+                    className="rounded border border-brand-teal/40 px-2 py-0.5 text-[11px] font-medium text-brand-aqua hover:border-brand-aqua"
+                    onClick={() => onRestore([task.id])}
+                  >
+                    Restore
+                  </button>
+                  <button
+                    type="button"
+                    className="rounded border border-red-500/40 px-2 py-0.5 text-[11px] font-medium text-red-400 hover:border-red-400"
+                    title="Delete permanently"
+                    onClick={() => onPurge([task.id])}
+                  >
+                    Delete
+                  </button>
+                </div>
+              </div>
+            ))
+          )}
+        </div>
+        <footer className="mt-6 flex justify-between gap-3 app-region-no-drag">
+          <button
+            type="button"
+            className="rounded-md border border-red-500/40 px-4 py-2 text-sm font-medium text-red-400 hover:border-red-400 disabled:opacity-40"
+            disabled={trash.length === 0}
+            onClick={handleEmpty}
+          >
+            Empty Trash
+          </button>
+          <button
+            type="button"
+            className="rounded-md bg-brand-coral px-4 py-2 text-sm font-semibold text-brand-navy hover:bg-brand-coral/90"
+            onClick={onClose}
+          >
+            Done
+          </button>
+        </footer>
+      </div>
+    </div>
+  );
+}
@@ -1,7 +1,35 @@
 import { useCallback, useEffect, useReducer, useRef, useState } from 'react';
 import { v4 as uuid } from 'uuid';
-import type { AppState, Task } from '../../shared/types';
-import { createEmptyState, ensureAlignedTasks } from '../../shared/stateHelpers';
+import type {
+  AppState,
+  BackupInfo,
+  CarryOverDecision,
+  DailyStats,
+  JournalEntry,
+  PreferencesState,
+  RecurrenceRule,
+  StateRecoveryChoice,
+  StateRecoveryIssue,
+  Task,
+  TaskDetails,
+  TaskTemplate,
+  WorkSessionEnd
+} from '../../shared/types';
+import { createEmptyState, ensureAlignedTasks, isStopwatchTask } from '../../shared/stateHelpers';
+import { isBreakTask, startBreakIfDue } from '../../shared/pomodoro';
+import { isHeldForSlot } from '../../shared/schedule';
+import { createRecurringTask, getSeriesTemplate, normalizeRecurrenceRule } from '../../shared/recurrence';
+import { normalizeTaskDetails } from '../../shared/templates';
+import { toggleSubtask } from '../../shared/checklist';
+import { sortQueue } from '../../shared/sorting';
+import { closeOpenSessions, getRunningTaskId, syncWorkSessions } from '../../shared/sessions';
+import { archiveFinishedTasks, hasArchivableTasks } from '../../shared/archive';
+import { getDayKey } from '../../shared/dates';
+import { applyDayRollover } from '../../shared/rollover';
+import { recordDailyStats } from '../../shared/dailyStats';
+import { evaluateAchievements } from '../../shared/achievements';
+import { bookScoreAwards, evaluateScoreEvent, getLedgerTotal, ScoreAward, sumScoreAwards } from '../../shared/scoring';
+import { applyUndoPatch, createUndoPatch, UndoPatch, UndoSide } from '../../shared/undo';
 import type { ElectronApi } from '../../shared/ipc';
 
 const initialState: AppState = createEmptyState('0.0.0');
@@ -9,34 +37,191 @@ const initialState: AppState = createEmptyState('0.0.0');
 type AppAction =
   | { type: 'hydrate'; payload: AppState }
   | { type: 'tick'; now: string }
-  | { type: 'addTask'; payload: { title: string; seconds?: number; now: string } }
-  | { type: 'manualComplete'; now: string }
+  | {
+      type: 'addTask';
+      payload: {
+        title: string;
+        seconds?: number;
+        needsEstimate?: boolean;
+        scheduledStart?: string;
+        recurrence?: RecurrenceRule;
+        details?: TaskDetails;
+        now: string;
+      };
+    }
+  | { type: 'addFromTemplates'; payload: { templates: TaskTemplate[]; now: string } }
+  | { type: 'manualComplete'; now: string; taskId?: string }
   | { type: 'addTime'; payload: { taskId: string; seconds: number; now: string } }
-  | { type: 'updateTask'; payload: { taskId: string; title: string; seconds?: number; now: string } }
+  | {
+      type: 'updateTask';
+      payload: {
+        taskId: string;
+        title: string;
+        seconds?: number;
+        needsEstimate?: boolean;
+        scheduledStart?: string;
+        /** Only read when the edit starts a series or applies to one; null stops it. */
+        recurrence?: RecurrenceRule | null;
+        applyToSeries?: boolean;
+        details?: TaskDetails;
+        now: string;
+      };
+    }
+  | { type: 'stopRecurring'; payload: { recurringId: string; now: string } }
+  | { type: 'toggleSubtask'; payload: { taskId: string; subtaskId: string; now: string } }
   | { type: 'deleteTask'; payload: { taskId: string; now: string } }
+  | { type: 'deleteTasks'; payload: { taskIds: string[]; now: string } }
+  | { type: 'restoreFromTrash'; payload: { taskIds: string[]; now: string } }
+  | { type: 'purgeFromTrash'; payload: { taskIds: string[]; now: string } }
+  | { type: 'archiveTasks'; payload: { now: string } }
+  | { type: 'resolveCarryOver'; payload: { decisions: CarryOverDecision[]; now: string } }
+  | { type: 'recomputeScore'; payload: { now: string } }
   | { type: 'reorderTasks'; payload: { orderedTaskIds: string[]; now: string } }
   | { type: 'syncMeta'; payload: { lastSavedAt: string; appVersion: string } }
   | { type: 'setAlwaysOnTop'; payload: { value: boolean } }
+  | { type: 'updatePreferences'; payload: { value: Partial<PreferencesState> } }
   | { type: 'pauseTask'; payload: { taskId: string; now: string } }
-  | { type: 'resumeTask'; payload: { taskId: string; now: string } };
+  | { type: 'resumeTask'; payload: { taskId: string; now: string } }
+  | { type: 'applyUndoPatch'; payload: { patch: UndoPatch; side: UndoSide; now: string } }
+  | { type: 'undo'; now: string }
+  | { type: 'redo'; now: string };
 
 type Reducer = (state: AppState, action: AppAction) => AppState;
 
+interface HistoryState {
+  present: AppState;
+  past: UndoPatch[];
+  future: UndoPatch[];
+}
+
+const MAX_UNDO_STEPS = 100;
+const ARCHIVE_SWEEP_INTERVAL_MS = 30 * 1000;
+
+const UNDOABLE_ACTIONS: ReadonlySet<AppAction['type']> = new Set<AppAction['type']>([
+  'addTask',
+  'addFromTemplates',
+  'manualComplete',
+  'addTime',
+  'updateTask',
+  'stopRecurring',
+  'toggleSubtask',
+  'deleteTask',
+  'deleteTasks',
+  'restoreFromTrash',
+  'purgeFromTrash',
+  'resolveCarryOver',
+  'reorderTasks',
+  'pauseTask',
+  'resumeTask'
+]);
+
+const createTask = (id: string, title: string, seconds: number | undefined, now: string): Task => {
+  const hasTime = typeof seconds === 'number';
+  return {
+    id,
+    title,
+    createdAt: now,
+    updatedAt: now,
+    timeAssignedSeconds: seconds,
+    remainingSeconds: hasTime ? seconds : undefined,
+    elapsedSeconds: hasTime ? undefined : 0,
+    status: 'pending',
+    history: []
+  };
+};
+
 const findActiveTaskIndex = (tasks: Task[]): number =>
   tasks.findIndex((task) => task.status !== 'completed' && task.status !== 'struck');
 
-const updateStatsOnCompletion = (state: AppState, completionIso: string): AppState['stats'] => {
-  const dateKey = completionIso.slice(0, 10);
+const updateStatsOnCompletion = (
+  state: AppState,
+  completionIso: string,
+  overrunSeconds = 0
+): AppState['stats'] => {
+  const dateKey = getDayKey(new Date(completionIso), state.preferences);
   const lastDate = state.stats.lastCompletionDate;
   const todayCompleted = lastDate === dateKey ? state.stats.todayCompleted + 1 : 1;
   return {
+    ...state.stats,
     totalCompleted: state.stats.totalCompleted + 1,
+    totalOverrunSeconds: state.stats.totalOverrunSeconds + overrunSeconds,
     todayCompleted,
     lastCompletionDate: dateKey
   };
 };
 
-const reducer: Reducer = (state, action) => {
+// Ends a series and turns its instances back into ordinary tasks.
+const stopSeries = (state: AppState, recurringId: string, now: string): Pick<AppState, 'tasks' | 'recurring'> => ({
+  recurring: state.recurring.filter((series) => series.id !== recurringId),
+  tasks: state.tasks.map((task) =>
+    task.recurrenceId === recurringId ? { ...task, recurrenceId: undefined, updatedAt: now } : task
+  )
+});
+
+type UpdateTaskPayload = Extract<AppAction, { type: 'updateTask' }>['payload'];
+
+// An edit can start a series from a plain task or, when applied to its series, change the
+// template for all future instances or stop it. "This one" edits leave the series alone.
+const applySeriesEdit = (
+  state: AppState,
+  tasks: Task[],
+  edited: Task,
+  { recurrence, applyToSeries, now }: UpdateTaskPayload
+): Pick<AppState, 'tasks' | 'recurring'> => {
+  const rule = normalizeRecurrenceRule(recurrence);
+  if (!edited.recurrenceId) {
+    if (!rule) {
+      return { tasks, recurring: state.recurring };
+    }
+    return {
+      tasks: tasks.map((task) => (task.id === edited.id ? { ...task, recurrenceId: task.id } : task)),
+      recurring: [
+        ...state.recurring.filter((series) => series.id !== edited.id),
+        createRecurringTask(edited, rule, state.rollover.dayKey, now, state.preferences.timeZone)
+      ]
+    };
+  }
+  if (!applyToSeries) {
+    return { tasks, recurring: state.recurring };
+  }
+  if (!rule) {
+    return stopSeries({ ...state, tasks }, edited.recurrenceId, now);
+  }
+  return {
+    tasks,
+    recurring: state.recurring.map((series) =>
+      series.id === edited.recurrenceId
+        ? { ...series, ...getSeriesTemplate(edited, state.preferences.timeZone), rule, updatedAt: now }
+        : series
+    )
+  };
+};
+
+// Break rows are generated, so they are dropped outright instead of being trashed.
+const moveToTrash = (state: AppState, taskIds: string[], now: string): AppState => {
+  const ids = new Set(taskIds);
+  const trashed: Task[] = [];
+  const remaining: Task[] = [];
+  state.tasks.forEach((task, index) => {
+    if (!ids.has(task.id)) {
+      remaining.push(task);
+    } else if (!isBreakTask(task)) {
+      const [closed] = closeOpenSessions([task], now, 'stop');
+      trashed.push({ ...closed, deletedAt: now, deletedIndex: index });
+    }
+  });
+  if (remaining.length === state.tasks.length) {
+    return state;
+  }
+  return {
+    ...state,
+    tasks: ensureAlignedTasks(remaining),
+    trash: [...trashed, ...state.trash],
+    meta: { ...state.meta, lastSavedAt: now }
+  };
+};
+
+const applyAction: Reducer = (state, action) => {
   switch (action.type) {
     case 'hydrate': {
       return {
@@ -49,14 +234,48 @@ const reducer: Reducer = (state, action) => {
       if (activeIndex === -1) {
         return state;
       }
-      const tasks = state.tasks.map((task, index) => {
+      const pomodoro = state.preferences.pomodoro;
+      const breakTask = state.tasks[activeIndex];
+      if (isBreakTask(breakTask)) {
+        if (breakTask.isPaused || typeof breakTask.remainingSeconds !== 'number') {
+          return state;
+        }
+        const remainingSeconds = breakTask.remainingSeconds - 1;
+        const tasks =
+          remainingSeconds > 0
+            ? state.tasks.map((task, index) =>
+                index === activeIndex ? { ...task, remainingSeconds, updatedAt: action.now } : task
+              )
+            : state.tasks.filter((_, index) => index !== activeIndex);
+        return {
+          ...state,
+          tasks: ensureAlignedTasks(tasks)
+        };
+      }
+      // A time-blocked task at the head keeps the queue idle until its slot opens.
+      if (isHeldForSlot(state.tasks[activeIndex], new Date(action.now))) {
+        return state;
+      }
+      const tickedTasks = state.tasks.map((task, index) => {
         if (index !== activeIndex) {
           return task;
         }
+        if (isStopwatchTask(task)) {
+          if (task.isPaused) {
+            return task;
+          }
+          return {
+            ...task,
+            elapsedSeconds: (task.elapsedSeconds ?? 0) + 1,
+            pomodoroWorkedSeconds: pomodoro.enabled ? (task.pomodoroWorkedSeconds ?? 0) + 1 : task.pomodoroWorkedSeconds,
+            updatedAt: action.now,
+            status: 'in_progress' as const
+          };
+        }
         if (typeof task.remainingSeconds !== 'number') {
           return task;
         }
-        if (task.remainingSeconds <= 0) {
+        if (task.remainingSeconds <= 0 && !state.preferences.overtime) {
           return task;
         }
         // Don't decrement timer if task is paused
@@ -64,10 +283,12 @@ const reducer: Reducer = (state, action) => {
           return task;
         }
         const remainingSeconds = task.remainingSeconds - 1;
-        if (remainingSeconds > 0) {
+        // In overtime the task stays active and keeps counting below zero.
+        if (remainingSeconds > 0 || state.preferences.overtime) {
           return {
             ...task,
             remainingSeconds,
+            pomodoroWorkedSeconds: pomodoro.enabled ? (task.pomodoroWorkedSeconds ?? 0) + 1 : task.pomodoroWorkedSeconds,
             updatedAt: action.now,
             status: 'in_progress' as const
           };
@@ -89,52 +310,101 @@ const reducer: Reducer = (state, action) => {
           ]
         };
       });
+      const tasks = startBreakIfDue(tickedTasks, activeIndex, pomodoro, action.now);
       const updatedState: AppState = {
         ...state,
         tasks: ensureAlignedTasks(tasks)
       };
       const activeTask = state.tasks[activeIndex];
+      // Any change to the active task means its clock moved, i.e. one more second of focus.
+      if (tickedTasks[activeIndex] !== activeTask) {
+        updatedState.dailyStats = recordDailyStats(state.dailyStats, action.now, state.preferences, { focusedSeconds: 1 });
+      }
       const becameStruck =
         typeof activeTask.remainingSeconds === 'number' &&
         activeTask.remainingSeconds > 0 &&
-        (tasks[activeIndex].status === 'struck' || tasks[activeIndex].status === 'completed');
+        (tickedTasks[activeIndex].status === 'struck' || tickedTasks[activeIndex].status === 'completed');
       if (becameStruck) {
+        const awards = evaluateScoreEvent(state.preferences.scoring, { type: 'strike' });
         updatedState.stats = updateStatsOnCompletion(state, action.now);
-        // Award +1 point for auto-completing when timer expires
-        updatedState.score = state.score + 1;
+        const booked = bookScoreAwards(state, awards, { action: action.type, taskId: activeTask.id, at: action.now });
+        updatedState.score = booked.score;
+        updatedState.scoreLedger = booked.scoreLedger;
+        updatedState.dailyStats = recordDailyStats(updatedState.dailyStats, action.now, state.preferences, {
+          completed: 1,
+          auto: 1,
+          scoreDelta: sumScoreAwards(awards)
+        });
       }
       return updatedState;
     }
     case 'addTask': {
-      const { title, seconds, now } = action.payload;
+      const { title, seconds, needsEstimate, scheduledStart, details, now } = action.payload;
+      const hasTime = typeof seconds === 'number';
+      const recurrence = normalizeRecurrenceRule(action.payload.recurrence);
+      const id = uuid();
       const newTask: Task = {
-        id: uuid(),
-        title,
-        createdAt: now,
-        updatedAt: now,
-        timeAssignedSeconds: seconds,
-        remainingSeconds: typeof seconds === 'number' ? seconds : undefined,
-        status: 'pending' as const,
-        history: []
+        ...createTask(id, title, seconds, now),
+        needsEstimate: hasTime ? undefined : needsEstimate || undefined,
+        scheduledStart,
+        recurrenceId: recurrence ? id : undefined,
+        ...normalizeTaskDetails(details)
       };
       const tasks = ensureAlignedTasks([...state.tasks, newTask]);
       return {
         ...state,
         tasks,
+        recurring: recurrence
+          ? [...state.recurring, createRecurringTask(newTask, recurrence, state.rollover.dayKey, now, state.preferences.timeZone)]
+          : state.recurring,
+        dailyStats: hasTime
+          ? recordDailyStats(state.dailyStats, now, state.preferences, { timeAssignedSeconds: seconds })
+          : state.dailyStats,
+        meta: { ...state.meta, lastSavedAt: now }
+      };
+    }
+    case 'addFromTemplates': {
+      const { templates, now } = action.payload;
+      if (templates.length === 0) {
+        return state;
+      }
+      const newTasks = templates.map((template) => ({
+        ...createTask(uuid(), template.title, template.seconds, now),
+        ...normalizeTaskDetails(template)
+      }));
+      const assignedSeconds = templates.reduce((sum, template) => sum + (template.seconds ?? 0), 0);
+      return {
+        ...state,
+        tasks: ensureAlignedTasks([...state.tasks, ...newTasks]),
+        dailyStats:
+          assignedSeconds > 0
+            ? recordDailyStats(state.dailyStats, now, state.preferences, { timeAssignedSeconds: assignedSeconds })
+            : state.dailyStats,
         meta: { ...state.meta, lastSavedAt: now }
       };
     }
     case 'manualComplete': {
       const activeIndex = findActiveTaskIndex(state.tasks);
-      if (activeIndex === -1) {
+      // A completion meant for another task (e.g. one the timer already finished) is dropped.
+      if (activeIndex === -1 || (action.taskId !== undefined && state.tasks[activeIndex].id !== action.taskId)) {
         return state;
       }
       const now = action.now;
+      if (isBreakTask(state.tasks[activeIndex])) {
+        // Completing a break just skips it; breaks never touch score or stats.
+        return {
+          ...state,
+          tasks: ensureAlignedTasks(state.tasks.filter((_, index) => index !== activeIndex)),
+          meta: { ...state.meta, lastSavedAt: now }
+        };
+      }
+      const activeTask = state.tasks[activeIndex];
+      const overrunSeconds = Math.max(0, -(activeTask.remainingSeconds ?? 0));
       const tasks = state.tasks.map((task, index) => {
         if (index !== activeIndex) {
           return task;
         }
-        const remaining = task.remainingSeconds ?? 0;
+        const remaining = isStopwatchTask(task) ? task.elapsedSeconds ?? 0 : Math.max(0, task.remainingSeconds ?? 0);
         return {
           ...task,
           status: 'completed' as const,
@@ -146,23 +416,33 @@ const reducer: Reducer = (state, action) => {
             {
               type: 'manual_complete' as const,
               amountSeconds: remaining,
+              overrunSeconds: overrunSeconds > 0 ? overrunSeconds : undefined,
               at: now
             }
           ]
         };
       });
       const aligned = ensureAlignedTasks(tasks);
+      const awards = evaluateScoreEvent(state.preferences.scoring, {
+        type: 'complete',
+        assignedSeconds: activeTask.timeAssignedSeconds,
+        remainingSeconds: Math.max(0, activeTask.remainingSeconds ?? 0),
+        overrunSeconds
+      });
+      const scoreDelta = sumScoreAwards(awards);
       return {
         ...state,
-        score: state.score + 2, // +1 base + +1 bonus for completing before timer
-        stats: updateStatsOnCompletion(state, now),
+        ...bookScoreAwards(state, awards, { action: action.type, taskId: activeTask.id, at: now }),
+        stats: updateStatsOnCompletion(state, now, overrunSeconds),
+        dailyStats: recordDailyStats(state.dailyStats, now, state.preferences, { completed: 1, manual: 1, scoreDelta }),
         tasks: aligned,
         meta: { ...state.meta, lastSavedAt: now }
       };
     }
     case 'addTime': {
       const { taskId, seconds, now } = action.payload;
-      let scoreDelta = 0;
+      let awards: ScoreAward[] = [];
+      let dailyDelta: Partial<DailyStats> = {};
       const tasks = state.tasks.map((task) => {
         if (task.id !== taskId) {
           return task;
@@ -174,14 +454,22 @@ const reducer: Reducer = (state, action) => {
         const status: Task['status'] =
           wasFinished && remaining > 0 ? 'in_progress' : task.status === 'completed' || task.status === 'struck' ? task.status : 'in_progress';
 
-        if (seconds > 0 && previousAssigned > 0) {
-          scoreDelta -= 1;
+        if (seconds > 0 && previousAssigned > 0 && !isBreakTask(task)) {
+          awards = evaluateScoreEvent(state.preferences.scoring, { type: 'addTime' });
+        }
+        if (!isBreakTask(task)) {
+          const scoreDelta = sumScoreAwards(awards);
+          dailyDelta =
+            previousAssigned > 0
+              ? { timeAddedSeconds: seconds, scoreDelta }
+              : { timeAssignedSeconds: seconds, scoreDelta };
         }
 
         return {
           ...task,
           timeAssignedSeconds: totalAssigned,
           remainingSeconds: remaining,
+          needsEstimate: undefined,
           updatedAt: now,
           status,
           completedAt: wasFinished && remaining > 0 ? undefined : task.completedAt,
@@ -197,14 +485,16 @@ const reducer: Reducer = (state, action) => {
       });
       return {
         ...state,
-        score: state.score + scoreDelta,
+        ...bookScoreAwards(state, awards, { action: action.type, taskId, at: now }),
         tasks: ensureAlignedTasks(tasks),
+        dailyStats: recordDailyStats(state.dailyStats, now, state.preferences, dailyDelta),
         meta: { ...state.meta, lastSavedAt: now }
       };
     }
     case 'updateTask': {
-      const { taskId, title, seconds, now } = action.payload;
-      let scoreDelta = 0;
+      const { taskId, title, seconds, needsEstimate, scheduledStart, details, now } = action.payload;
+      let awards: ScoreAward[] = [];
+      let dailyDelta: Partial<DailyStats> = {};
       const tasks = state.tasks.map((task) => {
         if (task.id !== taskId) {
           return task;
@@ -219,7 +509,10 @@ const reducer: Reducer = (state, action) => {
           const candidate = previousRemaining + diff;
           nextRemaining = Math.max(0, candidate);
           if (diff > 0 && previousAssigned > 0) {
-            scoreDelta -= 1;
+            awards = evaluateScoreEvent(state.preferences.scoring, { type: 'addTime' });
+            dailyDelta = { timeAddedSeconds: diff, scoreDelta: sumScoreAwards(awards) };
+          } else if (previousAssigned === 0) {
+            dailyDelta = { timeAssignedSeconds: nextAssigned };
           }
         } else {
           nextRemaining = undefined;
@@ -238,27 +531,152 @@ const reducer: Reducer = (state, action) => {
           title,
           timeAssignedSeconds: hasTime ? nextAssigned : undefined,
           remainingSeconds: hasTime ? nextRemaining : undefined,
+          elapsedSeconds: hasTime ? task.elapsedSeconds : task.elapsedSeconds ?? 0,
+          needsEstimate: hasTime ? undefined : needsEstimate || undefined,
+          scheduledStart,
+          ...(details ? normalizeTaskDetails(details) : {}),
           updatedAt: now,
           status,
           completedAt: wasFinished && hasTime && nextRemaining && nextRemaining > 0 ? undefined : task.completedAt
         };
       });
+      const edited = tasks.find((task) => task.id === taskId);
+      const series = edited ? applySeriesEdit(state, tasks, edited, action.payload) : { tasks, recurring: state.recurring };
       const nextState: AppState = {
         ...state,
-        score: state.score + scoreDelta,
-        tasks: ensureAlignedTasks(tasks),
+        ...bookScoreAwards(state, awards, { action: action.type, taskId, at: now }),
+        tasks: ensureAlignedTasks(series.tasks),
+        recurring: series.recurring,
+        dailyStats: recordDailyStats(state.dailyStats, now, state.preferences, dailyDelta),
         meta: { ...state.meta, lastSavedAt: now }
       };
       return nextState;
     }
-    case 'deleteTask': {
-      const tasks = state.tasks.filter((task) => task.id !== action.payload.taskId);
+    case 'stopRecurring': {
+      const { recurringId, now } = action.payload;
+      if (!state.recurring.some((series) => series.id === recurringId)) {
+        return state;
+      }
+      return {
+        ...state,
+        ...stopSeries(state, recurringId, now),
+        meta: { ...state.meta, lastSavedAt: now }
+      };
+    }
+    case 'toggleSubtask': {
+      const { taskId, subtaskId, now } = action.payload;
+      const target = state.tasks.find((task) => task.id === taskId);
+      if (!target?.subtasks?.some((subtask) => subtask.id === subtaskId)) {
+        return state;
+      }
+      return {
+        ...state,
+        tasks: state.tasks.map((task) =>
+          task.id === taskId ? { ...task, subtasks: toggleSubtask(task.subtasks ?? [], subtaskId), updatedAt: now } : task
+        ),
+        meta: { ...state.meta, lastSavedAt: now }
+      };
+    }
+    case 'deleteTask':
+      return moveToTrash(state, [action.payload.taskId], action.payload.now);
+    case 'deleteTasks':
+      return moveToTrash(state, action.payload.taskIds, action.payload.now);
+    case 'restoreFromTrash': {
+      const { taskIds, now } = action.payload;
+      const ids = new Set(taskIds);
+      const restoring = state.trash
+        .filter((task) => ids.has(task.id))
+        .sort((a, b) => (a.deletedIndex ?? Number.MAX_SAFE_INTEGER) - (b.deletedIndex ?? Number.MAX_SAFE_INTEGER));
+      if (restoring.length === 0) {
+        return state;
+      }
+      // Re-inserting lowest index first puts a multi-task delete back in its original order.
+      const tasks = [...state.tasks];
+      restoring.forEach(({ deletedAt: _deletedAt, deletedIndex, ...task }) => {
+        const index = Math.min(deletedIndex ?? tasks.length, tasks.length);
+        tasks.splice(index, 0, { ...task, updatedAt: now });
+      });
       return {
         ...state,
         tasks: ensureAlignedTasks(tasks),
+        trash: state.trash.filter((task) => !ids.has(task.id)),
+        meta: { ...state.meta, lastSavedAt: now }
+      };
+    }
+    case 'archiveTasks': {
+      const { now } = action.payload;
+      const archived = archiveFinishedTasks(state.tasks, state.archive, state.preferences, new Date(now));
+      if (archived.tasks === state.tasks) {
+        return state;
+      }
+      return {
+        ...state,
+        tasks: ensureAlignedTasks(archived.tasks),
+        archive: archived.archive,
+        meta: { ...state.meta, lastSavedAt: now }
+      };
+    }
+    case 'resolveCarryOver': {
+      const { decisions, now } = action.payload;
+      const dropped = decisions.filter((decision) => decision.choice === 'drop').map((decision) => decision.taskId);
+      const rescheduled = new Map(
+        decisions
+          .filter((decision) => decision.choice === 'reschedule' && decision.until)
+          .map((decision) => [decision.taskId, decision.until as string])
+      );
+      const afterDrop = moveToTrash(state, dropped, now);
+      const deferred: Task[] = [];
+      const tasks = afterDrop.tasks.filter((task) => {
+        const until = rescheduled.get(task.id);
+        if (!until) {
+          return true;
+        }
+        const [closed] = closeOpenSessions([task], now, 'stop');
+        deferred.push({ ...closed, deferredUntil: until, updatedAt: now });
+        return false;
+      });
+      return {
+        ...afterDrop,
+        tasks: ensureAlignedTasks(tasks),
+        deferred: [...afterDrop.deferred, ...deferred],
+        rollover: { ...afterDrop.rollover, carryOverTaskIds: [] },
+        meta: { ...afterDrop.meta, lastSavedAt: now }
+      };
+    }
+    case 'recomputeScore': {
+      const score = getLedgerTotal(state.scoreLedger);
+      if (score === state.score) {
+        return state;
+      }
+      // Shift the day's starting point too, so the correction does not show up as today's progress.
+      return {
+        ...state,
+        score,
+        rollover: { ...state.rollover, dayStartScore: state.rollover.dayStartScore + score - state.score },
         meta: { ...state.meta, lastSavedAt: action.payload.now }
       };
     }
+    case 'purgeFromTrash': {
+      const ids = new Set(action.payload.taskIds);
+      const trash = state.trash.filter((task) => !ids.has(task.id));
+      if (trash.length === state.trash.length) {
+        return state;
+      }
+      return {
+        ...state,
+        trash,
+        meta: { ...state.meta, lastSavedAt: action.payload.now }
+      };
+    }
+    case 'applyUndoPatch': {
+      const { patch, side, now } = action.payload;
+      const restored = applyUndoPatch(state, patch, side, now);
+      return {
+        ...restored,
+        tasks: ensureAlignedTasks(restored.tasks),
+        meta: { ...state.meta, lastSavedAt: now }
+      };
+    }
     case 'reorderTasks': {
       const { orderedTaskIds, now } = action.payload;
       if (orderedTaskIds.length === 0) {
@@ -302,6 +720,15 @@ const reducer: Reducer = (state, action) => {
         }
       };
     }
+    case 'updatePreferences': {
+      return {
+        ...state,
+        preferences: {
+          ...state.preferences,
+          ...action.payload.value
+        }
+      };
+    }
     case 'pauseTask': {
       const { taskId, now } = action.payload;
       const tasks = state.tasks.map((task) => {
@@ -343,20 +770,190 @@ const reducer: Reducer = (state, action) => {
   }
 };
 
+const getActionTimestamp = (action: AppAction): string => {
+  if (action.type === 'tick' || action.type === 'manualComplete' || action.type === 'undo' || action.type === 'redo') {
+    return action.now;
+  }
+  if ('payload' in action && 'now' in action.payload) {
+    return action.payload.now;
+  }
+  return new Date().toISOString();
+};
+
+const getSessionEndReason = (action: AppAction, tasks: Task[]): WorkSessionEnd => {
+  switch (action.type) {
+    case 'pauseTask':
+      return 'pause';
+    case 'reorderTasks':
+      return 'reorder';
+    case 'tick':
+      return tasks.some((task) => isBreakTask(task) && task.status === 'in_progress') ? 'break' : 'stop';
+    default:
+      return 'stop';
+  }
+};
+
+// Actions that add tasks or change what a sort strategy looks at.
+const RESORT_ACTIONS: ReadonlySet<AppAction['type']> = new Set<AppAction['type']>([
+  'addTask',
+  'addFromTemplates',
+  'updateTask',
+  'addTime',
+  'restoreFromTrash',
+  'resolveCarryOver'
+]);
+
+// Sorting inside the action that added or changed tasks keeps it one undo step and one journal entry.
+const keepQueueSorted = (state: AppState, now: string): AppState => {
+  const strategy = state.preferences.queueSort;
+  if (strategy === 'manual') {
+    return state;
+  }
+  const tasks = sortQueue(state.tasks, strategy, new Date(now));
+  return tasks === state.tasks ? state : { ...state, tasks: ensureAlignedTasks(tasks) };
+};
+
+// Streaks and achievements only move when the numbers they are based on do.
+const trackAchievements = (previous: AppState, next: AppState, now: string): AppState =>
+  next.stats === previous.stats &&
+  next.dailyStats === previous.dailyStats &&
+  next.score === previous.score &&
+  next.preferences.dailyGoal === previous.preferences.dailyGoal
+    ? next
+    : evaluateAchievements(next, now);
+
+// Keeps each task's work-session log in step with whichever task is actually running.
+const reducer: Reducer = (state, action) => {
+  const now = getActionTimestamp(action);
+  // A window left open overnight rolls the day over on the first tick after the boundary.
+  const rolledOver = action.type === 'tick' ? applyDayRollover(state, new Date(action.now)) : state;
+  // Recurring instances join the queue in sorted order; other ticks never move tasks.
+  const current = rolledOver === state ? state : keepQueueSorted(rolledOver, now);
+  const applied = applyAction(current, action);
+  const next = trackAchievements(current, RESORT_ACTIONS.has(action.type) ? keepQueueSorted(applied, now) : applied, now);
+  if (action.type === 'hydrate') {
+    return { ...next, tasks: syncWorkSessions([], next.tasks, new Date().toISOString(), 'stop') };
+  }
+  if (next.tasks === state.tasks || getRunningTaskId(state.tasks) === getRunningTaskId(next.tasks)) {
+    return next;
+  }
+  return {
+    ...next,
+    tasks: syncWorkSessions(state.tasks, next.tasks, now, getSessionEndReason(action, next.tasks))
+  };
+};
+
+/**
+ * Keeps undo/redo stacks of per-action patches around the app reducer, so undo reverts only
+ * what the action changed. Preferences and window settings are deliberately left out of undo.
+ */
+const historyReducer = (history: HistoryState, action: AppAction): HistoryState => {
+  const { present, past, future } = history;
+  if (action.type === 'undo' || action.type === 'redo') {
+    const source = action.type === 'undo' ? past : future;
+    const target = source[source.length - 1];
+    if (!target) {
+      return history;
+    }
+    const side: UndoSide = action.type === 'undo' ? 'before' : 'after';
+    const restored = reducer(present, { type: 'applyUndoPatch', payload: { patch: target, side, now: action.now } });
+    return action.type === 'undo'
+      ? { present: restored, past: past.slice(0, -1), future: [...future, target] }
+      : { present: restored, past: [...past, target], future: future.slice(0, -1) };
+  }
+  const next = reducer(present, action);
+  if (action.type === 'hydrate') {
+    return { present: next, past: [], future: [] };
+  }
+  if (next === present) {
+    return history;
+  }
+  if (!UNDOABLE_ACTIONS.has(action.type)) {
+    return { ...history, present: next };
+  }
+  return {
+    present: next,
+    past: [...past, createUndoPatch(present, next, action.type, getActionTimestamp(action))].slice(-MAX_UNDO_STEPS),
+    future: []
+  };
+};
+
+// The undo stacks are gone after a restart, so undo and redo are journaled as the patch they applied.
+const toJournalEntry = (action: AppAction, history: HistoryState): JournalEntry | null => {
+  if (action.type === 'undo' || action.type === 'redo') {
+    const source = action.type === 'undo' ? history.past : history.future;
+    const patch = source[source.length - 1];
+    const side: UndoSide = action.type === 'undo' ? 'before' : 'after';
+    return patch ? { at: action.now, type: 'applyUndoPatch', payload: { patch, side, now: action.now } } : null;
+  }
+  return {
+    at: getActionTimestamp(action),
+    type: action.type,
+    payload: 'payload' in action ? action.payload : undefined,
+    taskId: action.type === 'manualComplete' ? action.taskId : undefined
+  };
+};
+
+// Only actions that went through the journal can come back out of it.
+const UNJOURNALED_ACTIONS: ReadonlySet<string> = new Set<AppAction['type']>(['hydrate', 'tick', 'syncMeta', 'undo', 'redo']);
+
+const fromJournalEntry = (entry: JournalEntry): AppAction | null => {
+  // Without its target a completion could land on whichever task is active after catch-up.
+  if (entry.type === 'manualComplete') {
+    return entry.taskId ? { type: 'manualComplete', now: entry.at, taskId: entry.taskId } : null;
+  }
+  if (UNJOURNALED_ACTIONS.has(entry.type) || typeof entry.payload !== 'object' || entry.payload === null) {
+    return null;
+  }
+  return { type: entry.type, payload: entry.payload } as AppAction;
+};
+
 export interface AppStore {
   state: AppState;
   hydrated: boolean;
-  addTask: (title: string, seconds?: number) => void;
+  recoveryIssue: StateRecoveryIssue | null;
+  canUndo: boolean;
+  canRedo: boolean;
+  undo: () => void;
+  redo: () => void;
+  addTask: (
+    title: string,
+    seconds?: number,
+    needsEstimate?: boolean,
+    scheduledStart?: string,
+    recurrence?: RecurrenceRule,
+    details?: TaskDetails
+  ) => void;
+  addFromTemplates: (templates: TaskTemplate[]) => void;
   completeActiveTask: () => void;
   addTime: (taskId: string, seconds: number) => void;
-  updateTask: (taskId: string, title: string, seconds?: number) => void;
+  updateTask: (
+    taskId: string,
+    title: string,
+    seconds?: number,
+    needsEstimate?: boolean,
+    scheduledStart?: string,
+    recurrence?: RecurrenceRule | null,
+    applyToSeries?: boolean,
+    details?: TaskDetails
+  ) => void;
+  stopRecurring: (recurringId: string) => void;
+  toggleSubtask: (taskId: string, subtaskId: string) => void;
   deleteTask: (taskId: string) => void;
   deleteTasks: (taskIds: string[]) => void;
+  restoreFromTrash: (taskIds: string[]) => void;
+  purgeFromTrash: (taskIds: string[]) => void;
+  resolveCarryOver: (decisions: CarryOverDecision[]) => void;
+  recomputeScore: () => void;
   reorderTasks: (orderedTaskIds: string[]) => void;
   dispatchTick: (timestamp?: number) => void;
   setAlwaysOnTop: (value: boolean) => Promise<void>;
+  updatePreferences: (value: Partial<PreferencesState>) => void;
   pauseTask: (taskId: string) => void;
   resumeTask: (taskId: string) => void;
+  listBackups: () => Promise<BackupInfo[]>;
+  restoreBackup: (backupId: string) => Promise<void>;
+  resolveRecovery: (choice: StateRecoveryChoice) => Promise<void>;
 }
 
 const shouldPersist = (type: AppAction['type']): boolean => {
@@ -364,10 +961,13 @@ const shouldPersist = (type: AppAction['type']): boolean => {
 };
 
 export const useAppStore = (): AppStore => {
-  const [state, dispatch] = useReducer(reducer, initialState);
+  const [history, dispatch] = useReducer(historyReducer, { present: initialState, past: [], future: [] });
+  const state = history.present;
   const [hydrated, setHydrated] = useState(false);
+  const [recoveryIssue, setRecoveryIssue] = useState<StateRecoveryIssue | null>(null);
   const apiRef = useRef<ElectronApi | null>(null);
   const stateRef = useRef(state);
+  const historyRef = useRef(history);
   const pendingPersistRef = useRef(false);
   const debounceRef = useRef<ReturnType<typeof setTimeout> | null>(null);
   const lastActionRef = useRef<AppAction['type']>('hydrate');
@@ -375,6 +975,7 @@ export const useAppStore = (): AppStore => {
     totalCompleted: state.stats.totalCompleted,
     todayCompleted: state.stats.todayCompleted
   });
+  const rolloverDayKeyRef = useRef(state.rollover.dayKey);
   const lastTickTimestampRef = useRef<number | null>(null);
   const tickCarryoverRef = useRef(0);
 
@@ -382,6 +983,10 @@ export const useAppStore = (): AppStore => {
     stateRef.current = state;
   }, [state]);
 
+  useEffect(() => {
+    historyRef.current = history;
+  }, [history]);
+
   const queuePersist = useCallback(() => {
     pendingPersistRef.current = true;
   }, []);
@@ -394,13 +999,28 @@ export const useAppStore = (): AppStore => {
       return;
     }
     let mounted = true;
+    const unsubscribeRecovery = api.onStateRecoveryRequired?.((issue) => {
+      if (mounted) {
+        setRecoveryIssue(issue);
+      }
+    });
     api
       .loadState()
-      .then((loaded) => {
+      .then(async (loaded) => {
+        // The push event can fire before this listener exists, so ask as well.
+        const issue = (await api.getStateRecovery?.()) ?? null;
+        const pending = (await api.takePendingJournal?.()) ?? [];
         if (!mounted) {
           return;
         }
         dispatch({ type: 'hydrate', payload: loaded });
+        // Actions journaled after the last save (e.g. before a crash) are replayed and saved again.
+        const replayed = pending.map(fromJournalEntry).filter((action): action is AppAction => action !== null);
+        replayed.forEach((action) => dispatch(action));
+        if (replayed.length > 0) {
+          queuePersist();
+        }
+        setRecoveryIssue(issue);
         setHydrated(true);
       })
       .catch((error) => {
@@ -409,8 +1029,9 @@ export const useAppStore = (): AppStore => {
       });
     return () => {
       mounted = false;
+      unsubscribeRecovery?.();
     };
-  }, []);
+  }, [queuePersist]);
 
   useEffect(() => {
     if (!hydrated) {
@@ -467,12 +1088,26 @@ export const useAppStore = (): AppStore => {
     };
   }, [state.stats.totalCompleted, state.stats.todayCompleted, queuePersist]);
 
+  // Day rollovers happen inside ticks, which are not persisted on their own.
+  useEffect(() => {
+    if (rolloverDayKeyRef.current !== state.rollover.dayKey && lastActionRef.current === 'tick') {
+      queuePersist();
+    }
+    rolloverDayKeyRef.current = state.rollover.dayKey;
+  }, [state.rollover.dayKey, queuePersist]);
+
   const dispatchWithPersist = useCallback(
     (action: AppAction) => {
       lastActionRef.current = action.type;
       dispatch(action);
       if (shouldPersist(action.type)) {
         queuePersist();
+        const entry = toJournalEntry(action, historyRef.current);
+        if (entry) {
+          void apiRef.current?.appendJournal?.(entry).catch((error: unknown) => {
+            console.error('Failed to append to journal', error);
+          });
+        }
       }
     },
     [queuePersist]
@@ -514,18 +1149,44 @@ export const useAppStore = (): AppStore => {
     [dispatchWithPersist]
   );
 
+  const updatePreferences = useCallback(
+    (value: Partial<PreferencesState>) => {
+      dispatchWithPersist({ type: 'updatePreferences', payload: { value } });
+    },
+    [dispatchWithPersist]
+  );
+
   const addTask = useCallback(
-    (title: string, seconds?: number) => {
+    (
+      title: string,
+      seconds?: number,
+      needsEstimate?: boolean,
+      scheduledStart?: string,
+      recurrence?: RecurrenceRule,
+      details?: TaskDetails
+    ) => {
       dispatchWithPersist({
         type: 'addTask',
-        payload: { title, seconds, now: new Date().toISOString() }
+        payload: { title, seconds, needsEstimate, scheduledStart, recurrence, details, now: new Date().toISOString() }
+      });
+    },
+    [dispatchWithPersist]
+  );
+
+  const addFromTemplates = useCallback(
+    (templates: TaskTemplate[]) => {
+      dispatchWithPersist({
+        type: 'addFromTemplates',
+        payload: { templates, now: new Date().toISOString() }
       });
     },
     [dispatchWithPersist]
   );
 
   const completeActiveTask = useCallback(() => {
-    dispatchWithPersist({ type: 'manualComplete', now: new Date().toISOString() });
+    const { tasks } = stateRef.current;
+    const taskId = tasks[findActiveTaskIndex(tasks)]?.id;
+    dispatchWithPersist({ type: 'manualComplete', now: new Date().toISOString(), taskId });
   }, [dispatchWithPersist]);
 
   const addTime = useCallback(
@@ -539,10 +1200,49 @@ export const useAppStore = (): AppStore => {
   );
 
   const updateTask = useCallback(
-    (taskId: string, title: string, seconds?: number) => {
+    (
+      taskId: string,
+      title: string,
+      seconds?: number,
+      needsEstimate?: boolean,
+      scheduledStart?: string,
+      recurrence?: RecurrenceRule | null,
+      applyToSeries?: boolean,
+      details?: TaskDetails
+    ) => {
       dispatchWithPersist({
         type: 'updateTask',
-        payload: { taskId, title, seconds, now: new Date().toISOString() }
+        payload: {
+          taskId,
+          title,
+          seconds,
+          needsEstimate,
+          scheduledStart,
+          recurrence,
+          applyToSeries,
+          details,
+          now: new Date().toISOString()
+        }
+      });
+    },
+    [dispatchWithPersist]
+  );
+
+  const stopRecurring = useCallback(
+    (recurringId: string) => {
+      dispatchWithPersist({
+        type: 'stopRecurring',
+        payload: { recurringId, now: new Date().toISOString() }
+      });
+    },
+    [dispatchWithPersist]
+  );
+
+  const toggleSubtaskDone = useCallback(
+    (taskId: string, subtaskId: string) => {
+      dispatchWithPersist({
+        type: 'toggleSubtask',
+        payload: { taskId, subtaskId, now: new Date().toISOString() }
       });
     },
     [dispatchWithPersist]
@@ -560,17 +1260,51 @@ export const useAppStore = (): AppStore => {
 
   const deleteTasks = useCallback(
     (taskIds: string[]) => {
-      const now = new Date().toISOString();
-      taskIds.forEach(taskId => {
-        dispatchWithPersist({
-          type: 'deleteTask',
-          payload: { taskId, now }
-        });
+      dispatchWithPersist({
+        type: 'deleteTasks',
+        payload: { taskIds, now: new Date().toISOString() }
       });
     },
     [dispatchWithPersist]
   );
 
+  const restoreFromTrash = useCallback(
+    (taskIds: string[]) => {
+      dispatchWithPersist({
+        type: 'restoreFromTrash',
+        payload: { taskIds, now: new Date().toISOString() }
+      });
+    },
+    [dispatchWithPersist]
+  );
+
+  const purgeFromTrash = useCallback(
+    (taskIds: string[]) => {
+      dispatchWithPersist({
+        type: 'purgeFromTrash',
+        payload: { taskIds, now: new Date().toISOString() }
+      });
+    },
+    [dispatchWithPersist]
+  );
+
+  const resolveCarryOver = useCallback(
+    (decisions: CarryOverDecision[]) => {
+      dispatchWithPersist({
+        type: 'resolveCarryOver',
+        payload: { decisions, now: new Date().toISOString() }
+      });
+    },
+    [dispatchWithPersist]
+  );
+
+  const recomputeScore = useCallback(() => {
+    dispatchWithPersist({
+      type: 'recomputeScore',
+      payload: { now: new Date().toISOString() }
+    });
+  }, [dispatchWithPersist]);
+
   const reorderTasks = useCallback(
     (orderedTaskIds: string[]) => {
       dispatchWithPersist({
@@ -601,6 +1335,56 @@ export const useAppStore = (): AppStore => {
     [dispatchWithPersist]
   );
 
+  const undo = useCallback(() => {
+    dispatchWithPersist({ type: 'undo', now: new Date().toISOString() });
+  }, [dispatchWithPersist]);
+
+  const redo = useCallback(() => {
+    dispatchWithPersist({ type: 'redo', now: new Date().toISOString() });
+  }, [dispatchWithPersist]);
+
+  const listBackups = useCallback(async (): Promise<BackupInfo[]> => {
+    const api = apiRef.current;
+    if (!api?.listBackups) {
+      return [];
+    }
+    return api.listBackups();
+  }, []);
+
+  // Drop any queued save so a replacement state isn't overwritten by the one it replaced.
+  const replaceState = useCallback((next: AppState) => {
+    if (debounceRef.current) {
+      clearTimeout(debounceRef.current);
+    }
+    pendingPersistRef.current = false;
+    lastActionRef.current = 'hydrate';
+    dispatch({ type: 'hydrate', payload: next });
+  }, []);
+
+  const restoreBackup = useCallback(
+    async (backupId: string) => {
+      const api = apiRef.current;
+      if (!api?.restoreBackup) {
+        return;
+      }
+      replaceState(await api.restoreBackup(backupId));
+      setRecoveryIssue(null);
+    },
+    [replaceState]
+  );
+
+  const resolveRecovery = useCallback(
+    async (choice: StateRecoveryChoice) => {
+      const api = apiRef.current;
+      if (!api?.resolveStateRecovery) {
+        return;
+      }
+      replaceState(await api.resolveStateRecovery(choice));
+      setRecoveryIssue(null);
+    },
+    [replaceState]
+  );
+
   useEffect(() => {
     if (!hydrated) {
       return;
@@ -618,6 +1402,42 @@ export const useAppStore = (): AppStore => {
     };
   }, [hydrated, dispatchTick]);
 
+  // Finished tasks are swept into the archive on a slow timer rather than on every tick.
+  useEffect(() => {
+    if (!hydrated) {
+      return;
+    }
+    const sweep = () => {
+      const current = stateRef.current;
+      if (hasArchivableTasks(current.tasks, current.preferences, new Date())) {
+        dispatchWithPersist({ type: 'archiveTasks', payload: { now: new Date().toISOString() } });
+      }
+    };
+    sweep();
+    const interval = setInterval(sweep, ARCHIVE_SWEEP_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [hydrated, dispatchWithPersist]);
+
+  // Close the running session on shutdown so the log doesn't run on while the app is closed.
+  useEffect(() => {
+    if (!hydrated) {
+      return;
+    }
+    const handleBeforeUnload = () => {
+      const api = apiRef.current;
+      if (!api) {
+        return;
+      }
+      const snapshot = stateRef.current;
+      void api.saveState({
+        ...snapshot,
+        tasks: closeOpenSessions(snapshot.tasks, new Date().toISOString(), 'shutdown')
+      });
+    };
+    window.addEventListener('beforeunload', handleBeforeUnload);
+    return () => window.removeEventListener('beforeunload', handleBeforeUnload);
+  }, [hydrated]);
+
   useEffect(() => {
     if (hydrated && lastTickTimestampRef.current === null) {
       lastTickTimestampRef.current = Date.now();
@@ -628,16 +1448,32 @@ export const useAppStore = (): AppStore => {
   return {
     state,
     hydrated,
+    recoveryIssue,
+    canUndo: history.past.length > 0,
+    canRedo: history.future.length > 0,
+    undo,
+    redo,
     addTask,
+    addFromTemplates,
     completeActiveTask,
     addTime,
     updateTask,
     deleteTask,
     deleteTasks,
+    restoreFromTrash,
+    purgeFromTrash,
+    resolveCarryOver,
+    recomputeScore,
+    stopRecurring,
+    toggleSubtask: toggleSubtaskDone,
     reorderTasks,
     dispatchTick,
     setAlwaysOnTop: setAlwaysOnTopPreference,
+    updatePreferences,
     pauseTask,
-    resumeTask
+    resumeTask,
+    listBackups,
+    restoreBackup,
+    resolveRecovery
   };
 };
@@ -0,0 +1,19 @@
+const LABEL_PALETTE = [
+  'border-brand-aqua/50 bg-brand-aqua/15 text-brand-aqua',
+  'border-brand-coral/50 bg-brand-coral/15 text-brand-coral',
+  'border-brand-ember/50 bg-brand-ember/15 text-brand-ember',
+  'border-sky-400/50 bg-sky-400/15 text-sky-300',
+  'border-violet-400/50 bg-violet-400/15 text-violet-300',
+  'border-emerald-400/50 bg-emerald-400/15 text-emerald-300',
+  'border-pink-400/50 bg-pink-400/15 text-pink-300',
+  'border-lime-400/50 bg-lime-400/15 text-lime-300'
+];
+
+/** Chip colours for a tag or project; the same name always gets the same colour. */
+export const getLabelClasses = (name: string): string => {
+  let hash = 0;
+  for (const char of name) {
+    hash = (hash * 31 + char.charCodeAt(0)) >>> 0;
+  }
+  return LABEL_PALETTE[hash % LABEL_PALETTE.length];
+};
@@ -1,3 +1,5 @@
+import { getDayKey, getZonedInstant, getZonedParts } from '../../shared/dates';
+
 export const formatSeconds = (seconds?: number): string => {
   if (seconds === undefined || Number.isNaN(seconds)) {
     return '---';
@@ -10,6 +12,27 @@ export const formatSeconds = (seconds?: number): string => {
   return `${minutes}:${secs}`;
 };
 
+export const formatOverrun = (seconds: number): string => `-${formatSeconds(Math.abs(seconds))}`;
+
+export const formatElapsed = (seconds?: number): string => `+${formatSeconds(seconds ?? 0)}`;
+
+export const formatDuration = (seconds: number): string => {
+  const clamped = Math.max(0, Math.floor(seconds));
+  const hours = Math.floor(clamped / 3600);
+  const minutes = Math.floor((clamped % 3600) / 60);
+  if (hours > 0) {
+    return `${hours}h ${minutes.toString().padStart(2, '0')}m`;
+  }
+  if (minutes > 0) {
+    return `${minutes}m`;
+  }
+  return `${clamped % 60}s`;
+};
+
+/** Clock time for an ISO timestamp in the given zone ('' = the system zone). */
+export const formatClockTime = (iso: string, timeZone: string = ''): string =>
+  new Date(iso).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', timeZone: timeZone || undefined });
+
 export const splitSeconds = (seconds?: number): { hours: number; minutes: number } => {
   if (!seconds || Number.isNaN(seconds)) {
     return { hours: 0, minutes: 0 };
@@ -26,3 +49,47 @@ export const combineToSeconds = (hours: number, minutes: number): number => {
   const totalMinutes = safeHours * 60 + safeMinutes;
   return Math.max(0, totalMinutes * 60);
 };
+
+/** "HH:MM" for an ISO timestamp in the given zone ('' = the system zone), the format time inputs use. */
+export const toTimeInputValue = (iso: string, timeZone: string = ''): string => {
+  const { hour, minute } = getZonedParts(new Date(iso), timeZone);
+  return `${hour.toString().padStart(2, '0')}:${minute.toString().padStart(2, '0')}`;
+};
+
+/** ISO timestamp for a time input's "HH:MM" on the same calendar day as `base`, both read in `timeZone`. */
+export const fromTimeInputValue = (value: string, timeZone: string = '', base: Date = new Date()): string | undefined => {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(value.trim());
+  if (!match) {
+    return undefined;
+  }
+  const dayKey = getDayKey(base, { timeZone, dayStartHour: 0 });
+  return getZonedInstant(dayKey, Number(match[1]), Number(match[2]), timeZone).toISOString();
+};
+
+/** "YYYY-MM-DDTHH:MM" for an ISO timestamp in the given zone, the format datetime-local inputs use. */
+export const toDateTimeInputValue = (iso: string, timeZone: string = ''): string =>
+  `${getDayKey(new Date(iso), { timeZone, dayStartHour: 0 })}T${toTimeInputValue(iso, timeZone)}`;
+
+/** ISO timestamp for a datetime-local input's value, read in `timeZone`. */
+export const fromDateTimeInputValue = (value: string, timeZone: string = ''): string | undefined => {
+  const match = /^(\d{4}-\d{2}-\d{2})T(\d{2}):(\d{2})$/.exec(value.trim());
+  if (!match) {
+    return undefined;
+  }
+  return getZonedInstant(match[1], Number(match[2]), Number(match[3]), timeZone).toISOString();
+};
+
+/** Clock time for today, otherwise a short date with the time; both in the given zone. */
+export const formatDueTime = (iso: string, timeZone: string = '', now: Date = new Date()): string => {
+  const calendar = { timeZone, dayStartHour: 0 };
+  const date = new Date(iso);
+  return getDayKey(date, calendar) === getDayKey(now, calendar)
+    ? formatClockTime(iso, timeZone)
+    : date.toLocaleString([], {
+        month: 'short',
+        day: 'numeric',
+        hour: '2-digit',
+        minute: '2-digit',
+        timeZone: timeZone || undefined
+      });
+};
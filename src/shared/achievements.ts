@@ -0,0 +1,186 @@
+import { AchievementId, AppState, DailyGoal, DailyStats, StreakState, Task } from './types';
+import { addDays, getDayKey } from './dates';
+import { isBreakTask } from './pomodoro';
+import { isGoalMet } from './goals';
+
+export const EMPTY_STREAK: StreakState = { current: 0, longest: 0, lastMetDayKey: '' };
+
+/** Extends the streak once today's goal is met; returns the same object otherwise. */
+export const updateStreak = (
+  streak: StreakState,
+  dailyStats: AppState['dailyStats'],
+  goal: DailyGoal,
+  todayKey: string
+): StreakState => {
+  if (streak.lastMetDayKey >= todayKey || !isGoalMet(dailyStats[todayKey], goal)) {
+    return streak;
+  }
+  const current = streak.lastMetDayKey === addDays(todayKey, -1) ? streak.current + 1 : 1;
+  return { current, longest: Math.max(streak.longest, current), lastMetDayKey: todayKey };
+};
+
+/** Replays the whole per-day table; used to seed the streak for data that predates it. */
+export const rebuildStreak = (dailyStats: AppState['dailyStats'], goal: DailyGoal): StreakState =>
+  Object.keys(dailyStats)
+    .sort()
+    .reduce((streak, dayKey) => updateStreak(streak, dailyStats, goal, dayKey), EMPTY_STREAK);
+
+/** The streak as it stands today: it only survives while yesterday or today met the goal. */
+export const getActiveStreak = (streak: StreakState, todayKey: string): number =>
+  streak.lastMetDayKey === todayKey || streak.lastMetDayKey === addDays(todayKey, -1) ? streak.current : 0;
+
+interface AchievementContext {
+  state: AppState;
+  /** Timed tasks finished by hand before their timer ran out; counted lazily since it scans the archive. */
+  onTimeFinishes: () => number;
+}
+
+export interface AchievementDefinition {
+  id: AchievementId;
+  title: string;
+  description: string;
+  target: number;
+  measure: (context: AchievementContext) => number;
+}
+
+const maxDaily = (state: AppState, pick: (stats: DailyStats) => number): number =>
+  Object.values(state.dailyStats).reduce((max, stats) => Math.max(max, pick(stats)), 0);
+
+export const ACHIEVEMENTS: AchievementDefinition[] = [
+  {
+    id: 'first_task',
+    title: 'First Step',
+    description: 'Finish your first task.',
+    target: 1,
+    measure: ({ state }) => state.stats.totalCompleted
+  },
+  {
+    id: 'tasks_10',
+    title: 'Getting Going',
+    description: 'Finish 10 tasks.',
+    target: 10,
+    measure: ({ state }) => state.stats.totalCompleted
+  },
+  {
+    id: 'tasks_100',
+    title: 'Centurion',
+    description: 'Finish 100 tasks.',
+    target: 100,
+    measure: ({ state }) => state.stats.totalCompleted
+  },
+  {
+    id: 'tasks_500',
+    title: 'Marathoner',
+    description: 'Finish 500 tasks.',
+    target: 500,
+    measure: ({ state }) => state.stats.totalCompleted
+  },
+  {
+    id: 'streak_3',
+    title: 'Warming Up',
+    description: 'Meet your daily goal 3 days in a row.',
+    target: 3,
+    measure: ({ state }) => state.streak.longest
+  },
+  {
+    id: 'streak_7',
+    title: 'Full Week',
+    description: 'Meet your daily goal 7 days in a row.',
+    target: 7,
+    measure: ({ state }) => state.streak.longest
+  },
+  {
+    id: 'streak_30',
+    title: 'Habit Formed',
+    description: 'Meet your daily goal 30 days in a row.',
+    target: 30,
+    measure: ({ state }) => state.streak.longest
+  },
+  {
+    id: 'big_day',
+    title: 'Big Day',
+    description: 'Finish 10 tasks in a single day.',
+    target: 10,
+    measure: ({ state }) => maxDaily(state, (stats) => stats.completed)
+  },
+  {
+    id: 'deep_work',
+    title: 'Deep Work',
+    description: 'Plan 4 hours of timeboxes in a single day.',
+    target: 4,
+    measure: ({ state }) => Math.floor(maxDaily(state, (stats) => stats.timeAssignedSeconds) / 3600)
+  },
+  {
+    id: 'on_time_25',
+    title: 'Right on Time',
+    description: 'Finish 25 timed tasks before their timer runs out.',
+    target: 25,
+    measure: ({ onTimeFinishes }) => onTimeFinishes()
+  },
+  {
+    id: 'score_100',
+    title: 'High Scorer',
+    description: 'Reach a score of 100.',
+    target: 100,
+    measure: ({ state }) => state.score
+  }
+];
+
+const isOnTimeFinish = (task: Task): boolean =>
+  !isBreakTask(task) &&
+  task.timeAssignedSeconds !== undefined &&
+  task.history.some((entry) => entry.type === 'manual_complete' && !entry.overrunSeconds);
+
+export const createAchievementContext = (state: AppState): AchievementContext => {
+  let onTimeFinishes: number | undefined;
+  return {
+    state,
+    onTimeFinishes: () => {
+      if (onTimeFinishes === undefined) {
+        onTimeFinishes = [...state.tasks, ...state.archive].filter(isOnTimeFinish).length;
+      }
+      return onTimeFinishes;
+    }
+  };
+};
+
+/**
+ * Brings the streak up to date and unlocks any achievement whose target has been reached.
+ * Unlocks are permanent. Returns the same state object when nothing changed.
+ */
+export const evaluateAchievements = (state: AppState, now: string): AppState => {
+  const todayKey = getDayKey(new Date(now), state.preferences);
+  const streak = updateStreak(state.streak, state.dailyStats, state.preferences.dailyGoal, todayKey);
+  const next = streak === state.streak ? state : { ...state, streak };
+  const unlocked = new Set(next.achievements.map((unlock) => unlock.id));
+  const context = createAchievementContext(next);
+  const newlyUnlocked = ACHIEVEMENTS.filter(
+    (achievement) => !unlocked.has(achievement.id) && achievement.measure(context) >= achievement.target
+  );
+  if (newlyUnlocked.length === 0) {
+    return next;
+  }
+  return {
+    ...next,
+    achievements: [...next.achievements, ...newlyUnlocked.map((achievement) => ({ id: achievement.id, unlockedAt: now }))]
+  };
+};
+
+export interface AchievementProgress {
+  achievement: AchievementDefinition;
+  value: number;
+  unlockedAt?: string;
+}
+
+export const getAchievementProgress = (state: AppState): AchievementProgress[] => {
+  const unlocks = new Map(state.achievements.map((unlock) => [unlock.id, unlock.unlockedAt]));
+  const context = createAchievementContext(state);
+  return ACHIEVEMENTS.map((achievement) => ({
+    achievement,
+    value: Math.min(achievement.target, Math.max(0, achievement.measure(context))),
+    unlockedAt: unlocks.get(achievement.id)
+  }));
+};
+
+export const getAchievement = (id: AchievementId): AchievementDefinition | undefined =>
+  ACHIEVEMENTS.find((achievement) => achievement.id === id);
@@ -0,0 +1,65 @@
+import { PreferencesState, Task, TaskHistoryEntry } from './types';
+import { getDayKey } from './dates';
+
+export const DEFAULT_ARCHIVE_DELAY_MINUTES = 60;
+
+type ArchivePreferences = Pick<PreferencesState, 'archiveDelayMinutes' | 'dayStartHour' | 'timeZone'>;
+
+const isFinished = (task: Task): boolean => task.status === 'completed' || task.status === 'struck';
+
+/** Finished tasks leave the queue once the delay has passed or the day they finished in is over. */
+export const isArchiveDue = (task: Task, preferences: ArchivePreferences, now: Date): boolean => {
+  if (!isFinished(task) || !task.completedAt) {
+    return false;
+  }
+  const completedAt = new Date(task.completedAt);
+  return (
+    now.getTime() - completedAt.getTime() >= preferences.archiveDelayMinutes * 60 * 1000 ||
+    getDayKey(completedAt, preferences) !== getDayKey(now, preferences)
+  );
+};
+
+export const hasArchivableTasks = (tasks: Task[], preferences: ArchivePreferences, now: Date): boolean =>
+  tasks.some((task) => isArchiveDue(task, preferences, now));
+
+/** Moves due tasks to the front of the archive (newest first). Returns the inputs untouched when nothing is due. */
+export const archiveFinishedTasks = (
+  tasks: Task[],
+  archive: Task[],
+  preferences: ArchivePreferences,
+  now: Date
+): { tasks: Task[]; archive: Task[] } => {
+  if (!hasArchivableTasks(tasks, preferences, now)) {
+    return { tasks, archive };
+  }
+  const archivedAt = now.toISOString();
+  const due = tasks
+    .filter((task) => isArchiveDue(task, preferences, now))
+    .sort((a, b) => (b.completedAt ?? '').localeCompare(a.completedAt ?? ''));
+  return {
+    tasks: tasks.filter((task) => !isArchiveDue(task, preferences, now)),
+    archive: [...due.map((task) => ({ ...task, archivedAt })), ...archive]
+  };
+};
+
+/** The entry that finished the task: a manual completion or the timer striking it. */
+export const getCompletionEntry = (task: Task): TaskHistoryEntry | undefined =>
+  [...task.history].reverse().find((entry) => entry.type === 'manual_complete' || entry.type === 'auto_complete');
+
+/**
+ * Time the task actually took, reconstructed from its completion entry. Manual completions
+ * record the time left on the clock (or the stopwatch reading for untimed tasks).
+ */
+export const getActualSeconds = (task: Task): number => {
+  const completion = getCompletionEntry(task);
+  if (!completion) {
+    return 0;
+  }
+  if (task.timeAssignedSeconds === undefined) {
+    return completion.amountSeconds ?? 0;
+  }
+  if (completion.type === 'auto_complete') {
+    return task.timeAssignedSeconds;
+  }
+  return Math.max(0, task.timeAssignedSeconds - (completion.amountSeconds ?? 0)) + (completion.overrunSeconds ?? 0);
+};
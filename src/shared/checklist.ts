@@ -0,0 +1,20 @@
+import { Subtask, Task } from './types';
+
+export interface ChecklistProgress {
+  done: number;
+  total: number;
+}
+
+/** Trims titles and drops blank steps, keeping their order. */
+export const normalizeSubtasks = (raw?: Subtask[]): Subtask[] =>
+  (raw ?? [])
+    .filter((subtask) => typeof subtask?.id === 'string' && typeof subtask.title === 'string' && subtask.title.trim())
+    .map((subtask) => ({ id: subtask.id, title: subtask.title.trim(), done: subtask.done === true }));
+
+export const getChecklistProgress = (task: Pick<Task, 'subtasks'>): ChecklistProgress => {
+  const subtasks = task.subtasks ?? [];
+  return { done: subtasks.filter((subtask) => subtask.done).length, total: subtasks.length };
+};
+
+export const toggleSubtask = (subtasks: Subtask[], subtaskId: string): Subtask[] =>
+  subtasks.map((subtask) => (subtask.id === subtaskId ? { ...subtask, done: !subtask.done } : subtask));
@@ -0,0 +1,124 @@
+import { DailyStats, ScoreLedgerEntry, Task } from './types';
+import { DayBoundary, getDayKey } from './dates';
+import { isBreakTask } from './pomodoro';
+
+export type DailyStatsTable = Record<string, DailyStats>;
+
+export const createEmptyDailyStats = (): DailyStats => ({
+  completed: 0,
+  manual: 0,
+  auto: 0,
+  timeAssignedSeconds: 0,
+  timeAddedSeconds: 0,
+  scoreDelta: 0,
+  focusedSeconds: 0
+});
+
+/** Adds `delta` to the row for the day `at` falls in, creating the row if needed. */
+export const recordDailyStats = (
+  table: DailyStatsTable,
+  at: string,
+  boundary: DayBoundary,
+  delta: Partial<DailyStats>
+): DailyStatsTable => {
+  if (Object.keys(delta).length === 0) {
+    return table;
+  }
+  const dayKey = getDayKey(new Date(at), boundary);
+  const row = table[dayKey] ?? createEmptyDailyStats();
+  return {
+    ...table,
+    [dayKey]: {
+      completed: row.completed + (delta.completed ?? 0),
+      manual: row.manual + (delta.manual ?? 0),
+      auto: row.auto + (delta.auto ?? 0),
+      timeAssignedSeconds: row.timeAssignedSeconds + (delta.timeAssignedSeconds ?? 0),
+      timeAddedSeconds: row.timeAddedSeconds + (delta.timeAddedSeconds ?? 0),
+      scoreDelta: row.scoreDelta + (delta.scoreDelta ?? 0),
+      focusedSeconds: row.focusedSeconds + (delta.focusedSeconds ?? 0)
+    }
+  };
+};
+
+/**
+ * Rebuilds the table from task histories, scoring with the fixed rules that predate the ledger:
+ * +2 for finishing early (+1 with overrun), +1 when the timer strikes, -1 for topping up a timed task.
+ * Use `applyLedgerScores` for anything that should follow the user's scoring rules.
+ */
+export const buildDailyStatsFromTasks = (tasks: Task[], boundary: DayBoundary): DailyStatsTable => {
+  let table: DailyStatsTable = {};
+  tasks
+    .filter((task) => !isBreakTask(task))
+    .forEach((task) => {
+      const history = task.history ?? [];
+      const added = history
+        .filter((entry) => entry.type === 'add_time')
+        .reduce((total, entry) => total + (entry.amountSeconds ?? 0), 0);
+      let assigned = Math.max(0, (task.timeAssignedSeconds ?? 0) - added);
+      if (assigned > 0) {
+        table = recordDailyStats(table, task.createdAt, boundary, { timeAssignedSeconds: assigned });
+      }
+      history.forEach((entry) => {
+        switch (entry.type) {
+          case 'manual_complete':
+            table = recordDailyStats(table, entry.at, boundary, {
+              completed: 1,
+              manual: 1,
+              scoreDelta: entry.overrunSeconds ? 1 : 2
+            });
+            break;
+          case 'auto_complete':
+            table = recordDailyStats(table, entry.at, boundary, { completed: 1, auto: 1, scoreDelta: 1 });
+            break;
+          case 'add_time': {
+            const seconds = entry.amountSeconds ?? 0;
+            // Setting the first estimate through "Add Time" is an assignment, not a top-up.
+            table = recordDailyStats(
+              table,
+              entry.at,
+              boundary,
+              assigned > 0 ? { timeAddedSeconds: seconds, scoreDelta: -1 } : { timeAssignedSeconds: seconds }
+            );
+            assigned += seconds;
+            break;
+          }
+          default:
+            break;
+        }
+      });
+    });
+  return table;
+};
+
+/** Replaces the score column with what the ledger booked for the given tasks, day by day. */
+export const applyLedgerScores = (
+  table: DailyStatsTable,
+  ledger: ScoreLedgerEntry[],
+  taskIds: ReadonlySet<string>,
+  boundary: DayBoundary
+): DailyStatsTable => {
+  const unscored: DailyStatsTable = {};
+  Object.entries(table).forEach(([dayKey, row]) => {
+    unscored[dayKey] = { ...row, scoreDelta: 0 };
+  });
+  return ledger
+    .filter((entry) => entry.taskId !== undefined && taskIds.has(entry.taskId))
+    .reduce((result, entry) => recordDailyStats(result, entry.at, boundary, { scoreDelta: entry.delta }), unscored);
+};
+
+/** Adds the closed work sessions of each task to the focused time of the day they started in. */
+export const addFocusedSecondsFromSessions = (
+  table: DailyStatsTable,
+  tasks: Task[],
+  boundary: DayBoundary
+): DailyStatsTable =>
+  tasks
+    .filter((task) => !isBreakTask(task))
+    .flatMap((task) => task.sessions ?? [])
+    .reduce((result, session) => {
+      if (!session.endedAt) {
+        return result;
+      }
+      const seconds = Math.round((new Date(session.endedAt).getTime() - new Date(session.startedAt).getTime()) / 1000);
+      return seconds > 0 ? recordDailyStats(result, session.startedAt, boundary, { focusedSeconds: seconds }) : result;
+    }, table);
@@ -0,0 +1,127 @@
+import { describe, expect, it } from 'vitest';
+import { addDays, getDayKey, getZonedInstant, getZonedParts } from './dates';
+
+const at = (iso: string) => new Date(iso);
+
+describe('getDayKey', () => {
+  describe('America/New_York', () => {
+    const midnight = { timeZone: 'America/New_York', dayStartHour: 0 };
+    const earlyMorning = { timeZone: 'America/New_York', dayStartHour: 2 };
+
+    it('flips at local midnight on the spring-forward day', () => {
+      // 2026-03-08 02:00 EST jumps to 03:00 EDT.
+      expect(getDayKey(at('2026-03-08T04:59:00Z'), midnight)).toBe('2026-03-07');
+      expect(getDayKey(at('2026-03-08T05:00:00Z'), midnight)).toBe('2026-03-08');
+    });
+
+    it('treats the spring-forward day as 23 hours long', () => {
+      expect(getDayKey(at('2026-03-09T03:59:00Z'), midnight)).toBe('2026-03-08');
+      expect(getDayKey(at('2026-03-09T04:00:00Z'), midnight)).toBe('2026-03-09');
+    });
+
+    it('treats the fall-back day as 25 hours long', () => {
+      // 2026-11-01 02:00 EDT falls back to 01:00 EST.
+      expect(getDayKey(at('2026-11-01T04:00:00Z'), midnight)).toBe('2026-11-01');
+      expect(getDayKey(at('2026-11-02T04:59:00Z'), midnight)).toBe('2026-11-01');
+      expect(getDayKey(at('2026-11-02T05:00:00Z'), midnight)).toBe('2026-11-02');
+    });
+
+    it('keeps both 01:30s of the fall-back night before a 02:00 day start', () => {
+      expect(getDayKey(at('2026-11-01T05:30:00Z'), earlyMorning)).toBe('2026-10-31');
+      expect(getDayKey(at('2026-11-01T06:30:00Z'), earlyMorning)).toBe('2026-10-31');
+      expect(getDayKey(at('2026-11-01T07:00:00Z'), earlyMorning)).toBe('2026-11-01');
+    });
+
+    it('starts the spring-forward day once the skipped hour is over', () => {
+      // 01:59 EST is still the previous day; the next minute is already 03:00 EDT.
+      expect(getDayKey(at('2026-03-08T06:59:00Z'), earlyMorning)).toBe('2026-03-07');
+      expect(getDayKey(at('2026-03-08T07:00:00Z'), earlyMorning)).toBe('2026-03-08');
+    });
+  });
+
+  describe('Europe/Berlin', () => {
+    const boundary = { timeZone: 'Europe/Berlin', dayStartHour: 0 };
+
+    it('flips at local midnight around the spring-forward change', () => {
+      expect(getDayKey(at('2026-03-28T22:59:00Z'), boundary)).toBe('2026-03-28');
+      expect(getDayKey(at('2026-03-28T23:00:00Z'), boundary)).toBe('2026-03-29');
+      expect(getDayKey(at('2026-03-29T21:59:00Z'), boundary)).toBe('2026-03-29');
+      expect(getDayKey(at('2026-03-29T22:00:00Z'), boundary)).toBe('2026-03-30');
+    });
+
+    it('flips at local midnight around the fall-back change', () => {
+      expect(getDayKey(at('2026-10-24T21:59:00Z'), boundary)).toBe('2026-10-24');
+      expect(getDayKey(at('2026-10-24T22:00:00Z'), boundary)).toBe('2026-10-25');
+      expect(getDayKey(at('2026-10-25T22:59:00Z'), boundary)).toBe('2026-10-25');
+      expect(getDayKey(at('2026-10-25T23:00:00Z'), boundary)).toBe('2026-10-26');
+    });
+  });
+
+  it('follows a southern-hemisphere zone where DST ends in April', () => {
+    // Sydney leaves AEDT (UTC+11) on 2026-04-05 and is on AEST (UTC+10) that evening.
+    const boundary = { timeZone: 'Australia/Sydney', dayStartHour: 0 };
+    expect(getDayKey(at('2026-04-04T12:59:00Z'), boundary)).toBe('2026-04-04');
+    expect(getDayKey(at('2026-04-04T13:00:00Z'), boundary)).toBe('2026-04-05');
+    expect(getDayKey(at('2026-04-05T13:59:00Z'), boundary)).toBe('2026-04-05');
+    expect(getDayKey(at('2026-04-05T14:00:00Z'), boundary)).toBe('2026-04-06');
+  });
+
+  it('uses the configured zone instead of the system zone', () => {
+    const instant = at('2026-06-15T12:00:00Z');
+    expect(getDayKey(instant, { timeZone: 'Pacific/Kiritimati', dayStartHour: 0 })).toBe('2026-06-16');
+    expect(getDayKey(instant, { timeZone: 'Pacific/Pago_Pago', dayStartHour: 0 })).toBe('2026-06-15');
+  });
+
+  it('follows the system zone when no zone is configured', () => {
+    const instant = at('2026-03-08T06:30:00Z');
+    const local = `${instant.getFullYear()}-${String(instant.getMonth() + 1).padStart(2, '0')}-${String(instant.getDate()).padStart(2, '0')}`;
+    expect(getDayKey(instant, { timeZone: '', dayStartHour: 0 })).toBe(local);
+  });
+});
+
+describe('getZonedParts', () => {
+  it('reads the wall clock on both sides of a DST change', () => {
+    expect(getZonedParts(at('2026-03-08T06:59:00Z'), 'America/New_York')).toMatchObject({ day: 8, hour: 1, minute: 59 });
+    expect(getZonedParts(at('2026-03-08T07:00:00Z'), 'America/New_York')).toMatchObject({ day: 8, hour: 3, minute: 0 });
+    expect(getZonedParts(at('2026-11-01T05:30:00Z'), 'America/New_York')).toMatchObject({ hour: 1, minute: 30 });
+    expect(getZonedParts(at('2026-11-01T06:30:00Z'), 'America/New_York')).toMatchObject({ hour: 1, minute: 30 });
+  });
+});
+
+describe('addDays', () => {
+  it('steps whole calendar days across DST changes and month ends', () => {
+    expect(addDays('2026-03-07', 1)).toBe('2026-03-08');
+    expect(addDays('2026-03-08', 1)).toBe('2026-03-09');
+    expect(addDays('2026-11-01', -1)).toBe('2026-10-31');
+    expect(addDays('2026-10-31', 1)).toBe('2026-11-01');
+    expect(addDays('2028-02-28', 1)).toBe('2028-02-29');
+  });
+});
+
+describe('getZonedInstant', () => {
+  it('reads a wall-clock time in the configured zone', () => {
+    expect(getZonedInstant('2026-06-15', 9, 30, 'Europe/Berlin').toISOString()).toBe('2026-06-15T07:30:00.000Z');
+    expect(getZonedInstant('2026-06-15', 9, 30, 'America/New_York').toISOString()).toBe('2026-06-15T13:30:00.000Z');
+  });
+
+  it('uses the offset in force on the day, not the current one', () => {
+    expect(getZonedInstant('2026-03-07', 9, 0, 'America/New_York').toISOString()).toBe('2026-03-07T14:00:00.000Z');
+    expect(getZonedInstant('2026-03-08', 9, 0, 'America/New_York').toISOString()).toBe('2026-03-08T13:00:00.000Z');
+    expect(getZonedInstant('2026-11-01', 9, 0, 'America/New_York').toISOString()).toBe('2026-11-01T14:00:00.000Z');
+  });
+
+  it('moves a time inside the spring-forward gap past the jump', () => {
+    expect(getZonedInstant('2026-03-08', 2, 30, 'America/New_York').toISOString()).toBe('2026-03-08T07:30:00.000Z');
+    expect(getZonedInstant('2026-03-29', 2, 30, 'Europe/Berlin').toISOString()).toBe('2026-03-29T01:30:00.000Z');
+  });
+
+  it('takes the first pass through an hour repeated by fall-back', () => {
+    expect(getZonedInstant('2026-11-01', 1, 30, 'America/New_York').toISOString()).toBe('2026-11-01T05:30:00.000Z');
+    expect(getZonedInstant('2026-10-25', 2, 30, 'Europe/Berlin').toISOString()).toBe('2026-10-25T00:30:00.000Z');
+  });
+
+  it('round-trips through getZonedParts', () => {
+    const instant = getZonedInstant('2026-04-05', 14, 45, 'Australia/Sydney');
+    expect(getZonedParts(instant, 'Australia/Sydney')).toEqual({ year: 2026, month: 4, day: 5, hour: 14, minute: 45 });
+  });
+});
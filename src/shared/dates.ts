@@ -0,0 +1,117 @@
+import { PreferencesState } from './types';
+
+/** Hour (wall-clock time) at which a new day begins; 0 means midnight. */
+export const DEFAULT_DAY_START_HOUR = 0;
+
+/** The settings that decide where one day ends and the next begins. */
+export type DayBoundary = Pick<PreferencesState, 'dayStartHour' | 'timeZone'>;
+
+export const DEFAULT_DAY_BOUNDARY: DayBoundary = { dayStartHour: DEFAULT_DAY_START_HOUR, timeZone: '' };
+
+interface ZonedParts {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+const getFormatter = (timeZone: string): Intl.DateTimeFormat => {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone: timeZone || undefined,
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      hourCycle: 'h23'
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+};
+
+const pad = (value: number) => value.toString().padStart(2, '0');
+
+// Calendar arithmetic is done in UTC so it never trips over the host's own DST changes.
+const formatCalendarDate = (year: number, month: number, day: number): string => {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  return `${date.getUTCFullYear()}-${pad(date.getUTCMonth() + 1)}-${pad(date.getUTCDate())}`;
+};
+
+/** Wall-clock date and time of an instant in the given zone ('' = the system zone). */
+export const getZonedParts = (value: Date, timeZone: string = ''): ZonedParts => {
+  const parts = getFormatter(timeZone).formatToParts(value);
+  const read = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find((part) => part.type === type)?.value);
+  return { year: read('year'), month: read('month'), day: read('day'), hour: read('hour'), minute: read('minute') };
+};
+
+// Wall clock minus UTC at an instant, in ms; getZonedParts has minute precision, so whole minutes only.
+const getZoneOffsetMs = (instant: number, timeZone: string): number => {
+  const { year, month, day, hour, minute } = getZonedParts(new Date(instant), timeZone);
+  return Date.UTC(year, month - 1, day, hour, minute) - Math.floor(instant / 60000) * 60000;
+};
+
+/**
+ * The instant a wall-clock time on a calendar day falls on in the given zone ('' = the system
+ * zone). A time repeated by a fall-back change resolves to its first occurrence; a time skipped
+ * by a spring-forward change resolves to the same distance past the jump (02:30 becomes 03:30).
+ */
+export const getZonedInstant = (dayKey: string, hour: number, minute: number, timeZone: string = ''): Date => {
+  const [year, month, day] = dayKey.split('-').map(Number);
+  const wall = Date.UTC(year, month - 1, day, hour, minute);
+  // The offsets a day before and after cover whichever DST change happens around this day.
+  const candidates = [wall - DAY_MS, wall + DAY_MS].map((probe) => wall - getZoneOffsetMs(probe, timeZone));
+  const exact = candidates.filter((instant) => wall - getZoneOffsetMs(instant, timeZone) === instant);
+  return new Date(exact.length > 0 ? Math.min(...exact) : Math.max(...candidates));
+};
+
+export const isValidTimeZone = (timeZone: string): boolean => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/** Falls back to '' (follow the system zone) for anything Intl does not recognise. */
+export const normalizeTimeZone = (value?: string): string =>
+  typeof value === 'string' && value.trim() && isValidTimeZone(value.trim()) ? value.trim() : '';
+
+export const getSystemTimeZone = (): string => Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+export const normalizeDayStartHour = (value?: number): number =>
+  typeof value === 'number' && Number.isInteger(value) && value >= 0 && value <= 23 ? value : DEFAULT_DAY_START_HOUR;
+
+/**
+ * Calendar day (YYYY-MM-DD) an instant belongs to in the configured zone. Times before
+ * `dayStartHour` still count towards the previous day, so late-night work stays with the
+ * evening it started. Uses wall-clock hours, so DST days are simply 23 or 25 hours long.
+ */
+export const getDayKey = (value: Date, boundary: DayBoundary = DEFAULT_DAY_BOUNDARY): string => {
+  const { year, month, day, hour } = getZonedParts(value, boundary.timeZone);
+  return formatCalendarDate(year, month, hour < boundary.dayStartHour ? day - 1 : day);
+};
+
+/** Shifts a day key by whole calendar days. */
+export const addDays = (dayKey: string, days: number): string => {
+  const [year, month, day] = dayKey.split('-').map(Number);
+  return formatCalendarDate(year, month, day + days);
+};
+
+export const formatDayLabel = (dayKey: string): string => {
+  const [year, month, day] = dayKey.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day)).toLocaleDateString([], {
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    timeZone: 'UTC'
+  });
+};
@@ -0,0 +1,132 @@
+import { Task } from './types';
+import { getActualSeconds, getCompletionEntry } from './archive';
+import { DayBoundary, addDays, getDayKey } from './dates';
+import { isBreakTask } from './pomodoro';
+
+/** A task counts as underestimated once it used more than 10% over its first estimate. */
+export const UNDERESTIMATE_TOLERANCE = 1.1;
+
+/** Weeks (and the overall multiplier) at or above this ratio are flagged as chronic underestimation. */
+export const CHRONIC_UNDERESTIMATE_RATIO = 1.2;
+
+/** The correction multiplier is based on this many recent tasks, and needs at least MIN_CORRECTION_SAMPLES. */
+export const CORRECTION_SAMPLE_SIZE = 30;
+export const MIN_CORRECTION_SAMPLES = 5;
+
+export interface EstimateRecord {
+  taskId: string;
+  title: string;
+  finishedAt: string;
+  /** The estimate the task started with, before any time was added. */
+  originalSeconds: number;
+  /** The time assigned when the task finished. */
+  finalSeconds: number;
+  actualSeconds: number;
+  /** The timer ran out, so `actualSeconds` is a lower bound. */
+  struck: boolean;
+}
+
+export interface EstimateWeek {
+  /** Day key of the Monday the week starts on. */
+  weekKey: string;
+  tasks: number;
+  underestimated: number;
+  originalSeconds: number;
+  finalSeconds: number;
+  actualSeconds: number;
+}
+
+/**
+ * The first estimate a task was given: the assigned time minus every top-up. Tasks that
+ * were created without a time get their first "Add Time" entry as the estimate instead.
+ */
+export const getOriginalEstimateSeconds = (task: Task): number => {
+  const additions = task.history.filter((entry) => entry.type === 'add_time');
+  const added = additions.reduce((total, entry) => total + (entry.amountSeconds ?? 0), 0);
+  const original = (task.timeAssignedSeconds ?? 0) - added;
+  return original > 0 ? original : additions[0]?.amountSeconds ?? 0;
+};
+
+/** Finished, timed work tasks only; stopwatch tasks and breaks have nothing to compare against. */
+export const getEstimateRecord = (task: Task): EstimateRecord | null => {
+  const completion = getCompletionEntry(task);
+  if (!completion || isBreakTask(task) || !task.timeAssignedSeconds) {
+    return null;
+  }
+  const originalSeconds = getOriginalEstimateSeconds(task);
+  if (originalSeconds <= 0) {
+    return null;
+  }
+  return {
+    taskId: task.id,
+    title: task.title,
+    finishedAt: task.completedAt ?? completion.at,
+    originalSeconds,
+    finalSeconds: task.timeAssignedSeconds,
+    actualSeconds: getActualSeconds(task),
+    struck: completion.type === 'auto_complete'
+  };
+};
+
+/** Records for every measurable task, newest first. */
+export const getEstimateRecords = (tasks: Task[]): EstimateRecord[] =>
+  tasks
+    .map(getEstimateRecord)
+    .filter((record): record is EstimateRecord => record !== null)
+    .sort((a, b) => b.finishedAt.localeCompare(a.finishedAt));
+
+export const getEstimateRatio = (actualSeconds: number, originalSeconds: number): number =>
+  originalSeconds > 0 ? actualSeconds / originalSeconds : 1;
+
+export const isUnderestimated = (record: EstimateRecord): boolean =>
+  getEstimateRatio(record.actualSeconds, record.originalSeconds) > UNDERESTIMATE_TOLERANCE;
+
+/** Monday of the week a day key falls in. */
+export const getWeekKey = (dayKey: string): string => {
+  const weekday = new Date(`${dayKey}T00:00:00Z`).getUTCDay();
+  return addDays(dayKey, -((weekday + 6) % 7));
+};
+
+/** Per-week totals, newest week first. Weeks follow the configured day boundary. */
+export const groupEstimatesByWeek = (records: EstimateRecord[], boundary: DayBoundary): EstimateWeek[] => {
+  const weeks = new Map<string, EstimateWeek>();
+  records.forEach((record) => {
+    const weekKey = getWeekKey(getDayKey(new Date(record.finishedAt), boundary));
+    const week = weeks.get(weekKey) ?? {
+      weekKey,
+      tasks: 0,
+      underestimated: 0,
+      originalSeconds: 0,
+      finalSeconds: 0,
+      actualSeconds: 0
+    };
+    weeks.set(weekKey, {
+      ...week,
+      tasks: week.tasks + 1,
+      underestimated: week.underestimated + (isUnderestimated(record) ? 1 : 0),
+      originalSeconds: week.originalSeconds + record.originalSeconds,
+      finalSeconds: week.finalSeconds + record.finalSeconds,
+      actualSeconds: week.actualSeconds + record.actualSeconds
+    });
+  });
+  return Array.from(weeks.values()).sort((a, b) => b.weekKey.localeCompare(a.weekKey));
+};
+
+/**
+ * How much longer recent tasks took than first estimated, as a factor to multiply new
+ * estimates by. Weighted by duration so a few tiny tasks cannot skew it. Null until there
+ * is enough history to say anything.
+ */
+export const getCorrectionMultiplier = (records: EstimateRecord[]): number | null => {
+  const recent = records.slice(0, CORRECTION_SAMPLE_SIZE);
+  if (recent.length < MIN_CORRECTION_SAMPLES) {
+    return null;
+  }
+  const original = recent.reduce((total, record) => total + record.originalSeconds, 0);
+  const actual = recent.reduce((total, record) => total + record.actualSeconds, 0);
+  return Math.round(getEstimateRatio(actual, original) * 100) / 100;
+};
+
+/** An estimate scaled by the multiplier, rounded to whole minutes. */
+export const applyCorrection = (seconds: number, multiplier: number): number =>
+  Math.max(60, Math.round((seconds * multiplier) / 60) * 60);
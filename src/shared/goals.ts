@@ -0,0 +1,64 @@
+import { DailyGoal, DailyStats, PreferencesState, Task } from './types';
+import { getZonedParts } from './dates';
+import { isBreakTask } from './pomodoro';
+
+export const DEFAULT_DAILY_GOAL: DailyGoal = { unit: 'tasks', target: 1 };
+
+export const DEFAULT_WORKDAY_END_HOUR = 18;
+
+export const normalizeDailyGoal = (raw?: Partial<DailyGoal>): DailyGoal => ({
+  unit: raw?.unit === 'minutes' ? 'minutes' : 'tasks',
+  target:
+    typeof raw?.target === 'number' && Number.isFinite(raw.target) && raw.target >= 1
+      ? Math.floor(raw.target)
+      : DEFAULT_DAILY_GOAL.target
+});
+
+export const normalizeWorkdayEndHour = (value?: number): number =>
+  typeof value === 'number' && Number.isInteger(value) && value >= 1 && value <= 24 ? value : DEFAULT_WORKDAY_END_HOUR;
+
+/** Progress towards the goal in the goal's own unit (tasks or whole minutes). */
+export const getGoalProgress = (stats: DailyStats | undefined, goal: DailyGoal): number =>
+  goal.unit === 'minutes' ? Math.floor((stats?.focusedSeconds ?? 0) / 60) : stats?.completed ?? 0;
+
+export const isGoalMet = (stats: DailyStats | undefined, goal: DailyGoal): boolean =>
+  getGoalProgress(stats, goal) >= goal.target;
+
+/** "3 tasks" or "90 focused minutes". */
+export const describeGoal = (goal: DailyGoal): string =>
+  goal.unit === 'minutes'
+    ? `${goal.target} focused minute${goal.target === 1 ? '' : 's'}`
+    : `${goal.target} task${goal.target === 1 ? '' : 's'}`;
+
+type WorkdayPreferences = Pick<PreferencesState, 'workdayEndHour' | 'dayStartHour' | 'timeZone'>;
+
+/**
+ * Wall-clock seconds until the working day ends in the configured zone. Late-night hours
+ * before `dayStartHour` still belong to the previous day, whose working day is over.
+ */
+export const getWorkdaySecondsLeft = (now: Date, preferences: WorkdayPreferences): number => {
+  const { hour, minute } = getZonedParts(now, preferences.timeZone);
+  if (hour < preferences.dayStartHour) {
+    return 0;
+  }
+  const secondsIntoDay = hour * 3600 + minute * 60 + now.getSeconds();
+  return Math.max(0, preferences.workdayEndHour * 3600 - secondsIntoDay);
+};
+
+export interface QueueLoad {
+  /** Time left on every open timed task; overtime counts as nothing left. */
+  seconds: number;
+  /** Open tasks with no estimate (stopwatch or waiting for one), which cannot be counted. */
+  unestimated: number;
+}
+
+export const getQueueLoad = (tasks: Task[]): QueueLoad =>
+  tasks
+    .filter((task) => task.status !== 'completed' && task.status !== 'struck' && !isBreakTask(task))
+    .reduce<QueueLoad>(
+      (load, task) =>
+        task.timeAssignedSeconds === undefined
+          ? { ...load, unestimated: load.unestimated + 1 }
+          : { ...load, seconds: load.seconds + Math.max(0, task.remainingSeconds ?? task.timeAssignedSeconds) },
+      { seconds: 0, unestimated: 0 }
+    );
@@ -1,4 +1,11 @@
-import type { AppState, WindowState } from './types';
+import type {
+  AppState,
+  BackupInfo,
+  JournalEntry,
+  StateRecoveryChoice,
+  StateRecoveryIssue,
+  WindowState
+} from './types';
 
 export interface ElectronApi {
   loadState(): Promise<AppState>;
@@ -13,4 +20,11 @@ export interface ElectronApi {
   onTimerTick?(callback: (timestamp: number) => void): () => void;
   setWindowSize?(width: number, height: number): Promise<void>;
   moveWindowToTopRight?(): Promise<void>;
+  listBackups?(): Promise<BackupInfo[]>;
+  restoreBackup?(id: string): Promise<AppState>;
+  appendJournal?(entry: JournalEntry): Promise<void>;
+  takePendingJournal?(): Promise<JournalEntry[]>;
+  getStateRecovery?(): Promise<StateRecoveryIssue | null>;
+  onStateRecoveryRequired?(callback: (issue: StateRecoveryIssue) => void): () => void;
+  resolveStateRecovery?(choice: StateRecoveryChoice): Promise<AppState>;
 }
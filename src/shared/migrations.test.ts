@@ -0,0 +1,113 @@
+import { describe, expect, it } from 'vitest';
+import { CURRENT_SCHEMA_VERSION, PersistedState, SchemaVersionError, migrateState } from './migrations';
+import { Task } from './types';
+
+const SAVED_AT = '2026-03-10T09:00:00.000Z';
+
+const task = (id: string, extra: Partial<Task>): Task => ({
+  id,
+  title: id,
+  createdAt: '2026-03-09T08:00:00.000Z',
+  updatedAt: '2026-03-09T08:00:00.000Z',
+  status: 'pending',
+  history: [],
+  ...extra
+});
+
+// A state file from before schemaVersion existed.
+const legacyState = (): PersistedState =>
+  ({
+    score: 3,
+    tasks: [
+      task('untimed', {}),
+      task('finished', {
+        status: 'completed',
+        timeAssignedSeconds: 1500,
+        remainingSeconds: 0,
+        completedAt: '2026-03-09T09:00:00.000Z',
+        history: [{ type: 'manual_complete', at: '2026-03-09T09:00:00.000Z' }],
+        sessions: [
+          {
+            startedAt: '2026-03-09T08:00:00.000Z',
+            endedAt: '2026-03-09T08:25:00.000Z',
+            startReason: 'start',
+            endReason: 'stop'
+          }
+        ]
+      }),
+      task('struck', {
+        status: 'struck',
+        createdAt: '2026-03-10T08:00:00.000Z',
+        timeAssignedSeconds: 600,
+        remainingSeconds: 0,
+        completedAt: '2026-03-10T08:20:00.000Z',
+        history: [
+          { type: 'add_time', amountSeconds: 300, at: '2026-03-10T08:05:00.000Z' },
+          { type: 'auto_complete', at: '2026-03-10T08:20:00.000Z' }
+        ]
+      })
+    ],
+    meta: { lastSavedAt: SAVED_AT, appVersion: '0.9.0' },
+    preferences: { timeZone: 'UTC', dayStartHour: 0 }
+  }) as PersistedState;
+
+describe('migrateState', () => {
+  it('runs every step in order on an unversioned file', () => {
+    const { state, fromVersion, applied } = migrateState(legacyState());
+    expect(fromVersion).toBe(0);
+    expect(applied).toEqual(Array.from({ length: CURRENT_SCHEMA_VERSION }, (_, index) => index + 1));
+    expect(state.schemaVersion).toBe(CURRENT_SCHEMA_VERSION);
+  });
+
+  it('v1: keeps the "time not set" reminder on untimed open tasks', () => {
+    const [untimed, finished] = migrateState(legacyState()).state.tasks ?? [];
+    expect(untimed.needsEstimate).toBe(true);
+    expect(finished.needsEstimate).toBeUndefined();
+  });
+
+  it('v2: backfills the per-day table from task histories', () => {
+    const { dailyStats } = migrateState(legacyState()).state;
+    expect(dailyStats?.['2026-03-09']).toMatchObject({ completed: 1, manual: 1, timeAssignedSeconds: 1500, scoreDelta: 2 });
+    expect(dailyStats?.['2026-03-10']).toMatchObject({
+      completed: 1,
+      auto: 1,
+      timeAssignedSeconds: 300,
+      timeAddedSeconds: 300,
+      scoreDelta: 0
+    });
+  });
+
+  it('v3: opens the ledger with the existing score', () => {
+    expect(migrateState(legacyState()).state.scoreLedger).toEqual([
+      { at: SAVED_AT, action: 'migration', rule: 'openingBalance', delta: 3, balance: 3 }
+    ]);
+  });
+
+  it('v4: seeds the streak from the per-day table', () => {
+    expect(migrateState(legacyState()).state.streak).toEqual({ current: 2, longest: 2, lastMetDayKey: '2026-03-10' });
+  });
+
+  it('v5: backfills focused time from closed work sessions', () => {
+    const { dailyStats } = migrateState(legacyState()).state;
+    expect(dailyStats?.['2026-03-09'].focusedSeconds).toBe(1500);
+    expect(dailyStats?.['2026-03-10'].focusedSeconds).toBe(0);
+  });
+
+  it('only runs the steps a file is missing', () => {
+    const ledger = [{ at: SAVED_AT, action: 'manualComplete', rule: 'complete' as const, delta: 1, balance: 1 }];
+    const { applied, state } = migrateState({ ...legacyState(), schemaVersion: 3, scoreLedger: ledger });
+    expect(applied).toEqual(Array.from({ length: CURRENT_SCHEMA_VERSION - 3 }, (_, index) => index + 4));
+    expect(state.scoreLedger).toBe(ledger);
+  });
+
+  it('leaves a current file alone', () => {
+    const current = { ...legacyState(), schemaVersion: CURRENT_SCHEMA_VERSION };
+    const result = migrateState(current);
+    expect(result.applied).toEqual([]);
+    expect(result.state).toBe(current);
+  });
+
+  it('refuses a file from a newer build', () => {
+    expect(() => migrateState({ schemaVersion: CURRENT_SCHEMA_VERSION + 1 })).toThrow(SchemaVersionError);
+  });
+});
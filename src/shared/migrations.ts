@@ -0,0 +1,130 @@
+import { AppState, Task } from './types';
+import { addFocusedSecondsFromSessions, buildDailyStatsFromTasks } from './dailyStats';
+import { normalizeDayStartHour, normalizeTimeZone } from './dates';
+import { createOpeningBalance } from './scoring';
+import { rebuildStreak } from './achievements';
+import { normalizeDailyGoal } from './goals';
+
+/**
+ * Version of the persisted state layout. Bump it together with a new entry in
+ * MIGRATIONS whenever a change needs more than a default value for a missing field.
+ */
+export const CURRENT_SCHEMA_VERSION = 5;
+
+export type PersistedState = Partial<AppState> & { schemaVersion?: number };
+
+interface Migration {
+  version: number;
+  description: string;
+  migrate: (state: PersistedState) => PersistedState;
+}
+
+export class SchemaVersionError extends Error {
+  readonly fileVersion: number;
+  readonly supportedVersion: number;
+
+  constructor(fileVersion: number, supportedVersion: number = CURRENT_SCHEMA_VERSION) {
+    super(
+      `This data was saved by a newer version of TimeBound (schema ${fileVersion}, this build supports ${supportedVersion}). ` +
+        'Please update TimeBound to open it.'
+    );
+    this.name = 'SchemaVersionError';
+    this.fileVersion = fileVersion;
+    this.supportedVersion = supportedVersion;
+  }
+}
+
+// Ordered oldest to newest; each step only has to understand the output of the one before it.
+const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'Introduce schemaVersion; untimed legacy tasks keep their "time not set" reminder',
+    migrate: (state) => ({
+      ...state,
+      tasks: (state.tasks ?? []).map(
+        (task: Task): Task => ({
+          ...task,
+          history: task.history ?? [],
+          needsEstimate:
+            task.timeAssignedSeconds === undefined && task.status !== 'completed' && task.status !== 'struck'
+              ? true
+              : task.needsEstimate
+        })
+      )
+    })
+  },
+  {
+    version: 2,
+    description: 'Add the per-day statistics table, backfilled from task histories',
+    migrate: (state) => ({
+      ...state,
+      dailyStats: buildDailyStatsFromTasks(
+        [...(state.tasks ?? []), ...(state.archive ?? []), ...(state.trash ?? [])],
+        {
+          dayStartHour: normalizeDayStartHour(state.preferences?.dayStartHour),
+          timeZone: normalizeTimeZone(state.preferences?.timeZone)
+        }
+      )
+    })
+  },
+  {
+    version: 3,
+    description: 'Start the score ledger with an opening balance for the existing score',
+    migrate: (state) => ({
+      ...state,
+      scoreLedger: createOpeningBalance(state.score ?? 0, state.meta?.lastSavedAt ?? new Date().toISOString())
+    })
+  },
+  {
+    version: 4,
+    description: 'Seed the daily streak from the per-day statistics',
+    migrate: (state) => ({
+      ...state,
+      streak: rebuildStreak(state.dailyStats ?? {}, normalizeDailyGoal(state.preferences?.dailyGoal))
+    })
+  },
+  {
+    version: 5,
+    description: 'Track focused time per day, backfilled from work session logs',
+    migrate: (state) => ({
+      ...state,
+      dailyStats: addFocusedSecondsFromSessions(
+        Object.fromEntries(
+          Object.entries(state.dailyStats ?? {}).map(([dayKey, stats]) => [dayKey, { ...stats, focusedSeconds: 0 }])
+        ),
+        [...(state.tasks ?? []), ...(state.archive ?? []), ...(state.trash ?? [])],
+        {
+          dayStartHour: normalizeDayStartHour(state.preferences?.dayStartHour),
+          timeZone: normalizeTimeZone(state.preferences?.timeZone)
+        }
+      )
+    })
+  }
+];
+
+export const getSchemaVersion = (state: PersistedState): number =>
+  typeof state.schemaVersion === 'number' && Number.isFinite(state.schemaVersion) ? state.schemaVersion : 0;
+
+export interface MigrationResult {
+  state: PersistedState;
+  fromVersion: number;
+  applied: number[];
+}
+
+/** Upgrades a persisted blob step by step. Throws SchemaVersionError for files from a newer build. */
+export const migrateState = (raw: PersistedState): MigrationResult => {
+  const fromVersion = getSchemaVersion(raw);
+  if (fromVersion > CURRENT_SCHEMA_VERSION) {
+    throw new SchemaVersionError(fromVersion);
+  }
+  const applied: number[] = [];
+  let state = raw;
+  for (const migration of MIGRATIONS) {
+    if (migration.version <= fromVersion) {
+      continue;
+    }
+    state = { ...migration.migrate(state), schemaVersion: migration.version };
+    applied.push(migration.version);
+  }
+  return { state, fromVersion, applied };
+};
@@ -0,0 +1,81 @@
+import { PomodoroPreferences, Task } from './types';
+
+export const DEFAULT_POMODORO_PREFERENCES: PomodoroPreferences = {
+  enabled: false,
+  workSeconds: 25 * 60,
+  shortBreakSeconds: 5 * 60,
+  longBreakSeconds: 15 * 60,
+  longBreakEvery: 4
+};
+
+const positiveOr = (value: number | undefined, fallback: number): number =>
+  typeof value === 'number' && Number.isFinite(value) && value > 0 ? Math.floor(value) : fallback;
+
+export const normalizePomodoroPreferences = (raw?: Partial<PomodoroPreferences>): PomodoroPreferences => ({
+  enabled: raw?.enabled ?? DEFAULT_POMODORO_PREFERENCES.enabled,
+  workSeconds: positiveOr(raw?.workSeconds, DEFAULT_POMODORO_PREFERENCES.workSeconds),
+  shortBreakSeconds: positiveOr(raw?.shortBreakSeconds, DEFAULT_POMODORO_PREFERENCES.shortBreakSeconds),
+  longBreakSeconds: positiveOr(raw?.longBreakSeconds, DEFAULT_POMODORO_PREFERENCES.longBreakSeconds),
+  longBreakEvery: positiveOr(raw?.longBreakEvery, DEFAULT_POMODORO_PREFERENCES.longBreakEvery)
+});
+
+export const isBreakTask = (task: Task): boolean => task.kind === 'short_break' || task.kind === 'long_break';
+
+/**
+ * Seconds of work left before the task's current interval ends, or Infinity when
+ * Pomodoro mode is off (or the task is itself a break).
+ */
+export const secondsUntilBreak = (task: Task, preferences: PomodoroPreferences): number => {
+  if (!preferences.enabled || isBreakTask(task)) {
+    return Number.POSITIVE_INFINITY;
+  }
+  return Math.max(0, preferences.workSeconds - (task.pomodoroWorkedSeconds ?? 0));
+};
+
+const createBreakTask = (task: Task, preferences: PomodoroPreferences, now: string): Task => {
+  const interval = (task.pomodoroIntervals ?? 0) + 1;
+  const isLong = interval % preferences.longBreakEvery === 0;
+  const seconds = isLong ? preferences.longBreakSeconds : preferences.shortBreakSeconds;
+  return {
+    id: `${task.id}:break:${interval}`,
+    title: isLong ? 'Long break' : 'Short break',
+    createdAt: now,
+    updatedAt: now,
+    timeAssignedSeconds: seconds,
+    remainingSeconds: seconds,
+    status: 'in_progress',
+    kind: isLong ? 'long_break' : 'short_break',
+    breakForTaskId: task.id,
+    history: []
+  };
+};
+
+/**
+ * Inserts a break row ahead of the task at `index` once its work interval is used up.
+ * The break becomes the active row; the work task resumes when the break is removed.
+ */
+export const startBreakIfDue = (
+  tasks: Task[],
+  index: number,
+  preferences: PomodoroPreferences,
+  now: string
+): Task[] => {
+  const task = tasks[index];
+  if (!task || secondsUntilBreak(task, preferences) > 0) {
+    return tasks;
+  }
+  // Stopwatch tasks have no countdown but still get breaks between intervals.
+  if (typeof task.remainingSeconds === 'number' && task.remainingSeconds <= 0) {
+    return tasks;
+  }
+  const next = [...tasks];
+  next[index] = {
+    ...task,
+    pomodoroWorkedSeconds: 0,
+    pomodoroIntervals: (task.pomodoroIntervals ?? 0) + 1,
+    status: 'pending',
+    updatedAt: now
+  };
+  next.splice(index, 0, createBreakTask(task, preferences, now));
+  return next;
+};
@@ -0,0 +1,106 @@
+import { PomodoroPreferences, Task } from './types';
+import { isBreakTask, secondsUntilBreak } from './pomodoro';
+import { isStopwatchTask } from './stateHelpers';
+import { isAwaitingSlot } from './schedule';
+
+export interface TaskEta {
+  startsAt: string;
+  /** Missing when the task has no estimate to count down from. */
+  endsAt?: string;
+}
+
+/** A time block that the tasks ahead of it will run into. */
+export interface ScheduleConflict {
+  taskId: string;
+  scheduledStart: string;
+  /** How far past the slot the task is projected to start. */
+  lateSeconds: number;
+}
+
+export interface QueueProjection {
+  /**
+   * Keyed by task id. Tasks queued behind one without an estimate have no entry until the
+   * next time block, which starts at its slot regardless.
+   */
+  etas: Record<string, TaskEta>;
+  /** When the last open task should finish; missing when it cannot be projected. */
+  endsAt?: string;
+  conflicts: ScheduleConflict[];
+}
+
+// Running a few seconds into a slot is just the tick catching up, not an overrun.
+const CONFLICT_THRESHOLD_MS = 60 * 1000;
+
+const isOpenTask = (task: Task): boolean => task.status !== 'completed' && task.status !== 'struck';
+
+/** Seconds the task still needs, or undefined for stopwatch tasks and tasks waiting for an estimate. */
+const getSecondsLeft = (task: Task): number | undefined => {
+  if (isStopwatchTask(task) || task.timeAssignedSeconds === undefined) {
+    return undefined;
+  }
+  // Overtime keeps running until finished by hand; count it as due now.
+  return Math.max(0, task.remainingSeconds ?? task.timeAssignedSeconds);
+};
+
+/** Length of the Pomodoro breaks that will be inserted before the task's timer runs out. */
+const getUpcomingBreakSeconds = (task: Task, workLeft: number, preferences: PomodoroPreferences): number => {
+  if (!preferences.enabled || isBreakTask(task)) {
+    return 0;
+  }
+  let untilBreak = secondsUntilBreak(task, preferences);
+  let remaining = workLeft;
+  let interval = task.pomodoroIntervals ?? 0;
+  let total = 0;
+  // A break starts when an interval ends while time is still left on the task.
+  while (untilBreak < remaining) {
+    remaining -= untilBreak;
+    interval += 1;
+    total += interval % preferences.longBreakEvery === 0 ? preferences.longBreakSeconds : preferences.shortBreakSeconds;
+    untilBreak = preferences.workSeconds;
+  }
+  return total;
+};
+
+/**
+ * Walks the queue in order and projects when each open task will start and finish if work
+ * carries on from `now`. A paused task is treated as resuming now, so pausing pushes every
+ * projection back as the clock moves on. Time-blocked tasks wait for their slot, leaving an
+ * idle gap, and are reported as conflicts when the tasks ahead of them run past it.
+ */
+export const projectQueue = (tasks: Task[], now: Date, pomodoro: PomodoroPreferences): QueueProjection => {
+  const open = tasks.filter(isOpenTask);
+  const etas: Record<string, TaskEta> = {};
+  const conflicts: ScheduleConflict[] = [];
+  let cursor: number | undefined = now.getTime();
+  for (const task of open) {
+    if (task.scheduledStart && isAwaitingSlot(task)) {
+      const slot = Date.parse(task.scheduledStart);
+      if (cursor === undefined) {
+        cursor = Math.max(slot, now.getTime());
+      } else if (cursor - slot >= CONFLICT_THRESHOLD_MS) {
+        conflicts.push({
+          taskId: task.id,
+          scheduledStart: task.scheduledStart,
+          lateSeconds: Math.round((cursor - slot) / 1000)
+        });
+      } else {
+        cursor = Math.max(cursor, slot);
+      }
+    }
+    if (cursor === undefined) {
+      continue;
+    }
+    const secondsLeft = getSecondsLeft(task);
+    const startsAt: string = new Date(cursor).toISOString();
+    cursor =
+      secondsLeft === undefined
+        ? undefined
+        : cursor + (secondsLeft + getUpcomingBreakSeconds(task, secondsLeft, pomodoro)) * 1000;
+    etas[task.id] = { startsAt, endsAt: cursor === undefined ? undefined : new Date(cursor).toISOString() };
+  }
+  return {
+    etas,
+    endsAt: cursor === undefined || open.length === 0 ? undefined : new Date(cursor).toISOString(),
+    conflicts
+  };
+};
@@ -0,0 +1,108 @@
+import { describe, expect, it } from 'vitest';
+import { createRecurringTask, generateRecurringInstances, getSeriesTemplate, matchesRecurrence } from './recurrence';
+import { applyDayRollover } from './rollover';
+import { createEmptyState } from './stateHelpers';
+import { AppState, Task } from './types';
+
+const TIME_ZONE = 'America/New_York';
+const CREATED = '2026-03-06T15:00:00.000Z';
+
+const template: Task = {
+  id: 'standup',
+  title: 'Standup',
+  createdAt: CREATED,
+  updatedAt: CREATED,
+  timeAssignedSeconds: 900,
+  remainingSeconds: 0,
+  status: 'completed',
+  completedAt: CREATED,
+  // 09:30 in New York, still on standard time.
+  scheduledStart: '2026-03-06T14:30:00.000Z',
+  dueAt: '2026-03-06T16:00:00.000Z',
+  tags: ['team'],
+  project: 'ops',
+  notes: 'Blockers first',
+  subtasks: [
+    { id: 'yesterday', title: 'Yesterday', done: true },
+    { id: 'today', title: 'Today', done: false }
+  ],
+  priority: 2,
+  history: []
+};
+
+const stateWith = (dayKey: string, series = createRecurringTask(template, { type: 'daily' }, '2026-03-06', CREATED, TIME_ZONE)) => {
+  const empty = createEmptyState('1.0.0', new Date(CREATED));
+  return {
+    ...empty,
+    tasks: [template],
+    recurring: [series],
+    rollover: { ...empty.rollover, dayKey },
+    preferences: { ...empty.preferences, timeZone: TIME_ZONE }
+  } as AppState;
+};
+
+describe('getSeriesTemplate', () => {
+  it('keeps the start as a wall-clock time and drops the deadline', () => {
+    const series = getSeriesTemplate(template, TIME_ZONE);
+    expect(series.startTime).toBe('09:30');
+    expect(series).not.toHaveProperty('dueAt');
+  });
+
+  it('lists every key so an edit can clear one', () => {
+    const series = getSeriesTemplate({ ...template, tags: undefined, project: undefined }, TIME_ZONE);
+    expect(Object.keys(series)).toEqual(expect.arrayContaining(['tags', 'project', 'notes', 'subtasks', 'priority']));
+    expect(series.tags).toBeUndefined();
+  });
+});
+
+describe('recurring instances across a rollover', () => {
+  // 2026-03-08 is the spring-forward day in New York.
+  const rolled = applyDayRollover(stateWith('2026-03-07'), new Date('2026-03-08T12:00:00.000Z'));
+  const instance = rolled.tasks.find((task) => task.recurrenceId === 'standup');
+
+  it('adds one fresh instance for the new day', () => {
+    expect(rolled.tasks.filter((task) => task.recurrenceId === 'standup')).toHaveLength(1);
+    expect(instance).toMatchObject({
+      id: 'standup:2026-03-08',
+      status: 'pending',
+      timeAssignedSeconds: 900,
+      remainingSeconds: 900
+    });
+    expect(rolled.recurring[0].lastGeneratedDayKey).toBe('2026-03-08');
+  });
+
+  it('copies the template into the instance', () => {
+    expect(instance).toMatchObject({ tags: ['team'], project: 'ops', notes: 'Blockers first', priority: 2 });
+    expect(instance?.subtasks?.map(({ title, done }) => ({ title, done }))).toEqual([
+      { title: 'Yesterday', done: false },
+      { title: 'Today', done: false }
+    ]);
+    expect(instance?.dueAt).toBeUndefined();
+  });
+
+  it('keeps the fixed start at the same local time after a DST change', () => {
+    // 09:30 EDT is 13:30 UTC, an hour earlier than the template's 14:30 UTC.
+    expect(instance?.scheduledStart).toBe('2026-03-08T13:30:00.000Z');
+  });
+
+  it('does not add a second instance on the same day', () => {
+    const again = generateRecurringInstances(rolled.recurring, '2026-03-08', '2026-03-08T18:00:00.000Z', TIME_ZONE);
+    expect(again.instances).toEqual([]);
+    expect(again.recurring).toBe(rolled.recurring);
+  });
+
+  it('hands each instance its own checklist', () => {
+    const next = applyDayRollover(rolled, new Date('2026-03-09T12:00:00.000Z'));
+    const instances = next.tasks.filter((task) => task.recurrenceId === 'standup');
+    expect(instances).toHaveLength(2);
+    expect(instances[0].subtasks).not.toBe(instances[1].subtasks);
+  });
+
+  it('skips days the rule does not match', () => {
+    const series = createRecurringTask(template, { type: 'weekdays' }, '2026-03-06', CREATED, TIME_ZONE);
+    // 2026-03-07 is a Saturday.
+    const weekend = applyDayRollover(stateWith('2026-03-06', series), new Date('2026-03-07T15:00:00.000Z'));
+    expect(weekend.tasks.some((task) => task.recurrenceId === 'standup')).toBe(false);
+    expect(matchesRecurrence(series, '2026-03-09')).toBe(true);
+  });
+});
@@ -0,0 +1,175 @@
+import { RecurrenceRule, RecurringTask, Task } from './types';
+import { getZonedInstant, getZonedParts } from './dates';
+import { normalizeTaskDetails } from './templates';
+
+const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const MAX_INTERVAL_DAYS = 365;
+
+const START_TIME_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/;
+
+const dayNumber = (dayKey: string): number => {
+  const [year, month, day] = dayKey.split('-').map(Number);
+  return Math.round(Date.UTC(year, month - 1, day) / (24 * 60 * 60 * 1000));
+};
+
+/** 0 (Sunday) to 6 (Saturday) for a day key. */
+export const getWeekday = (dayKey: string): number => (((dayNumber(dayKey) + 4) % 7) + 7) % 7;
+
+export const normalizeRecurrenceRule = (raw?: Partial<RecurrenceRule> | null): RecurrenceRule | undefined => {
+  switch (raw?.type) {
+    case 'daily':
+    case 'weekdays':
+      return { type: raw.type };
+    case 'weekly': {
+      const rawDays = 'days' in raw && Array.isArray(raw.days) ? raw.days : [];
+      const days = Array.from(new Set(rawDays.filter((day) => Number.isInteger(day) && day >= 0 && day <= 6))).sort();
+      return days.length > 0 ? { type: 'weekly', days } : undefined;
+    }
+    case 'interval': {
+      const everyDays = 'everyDays' in raw ? Number(raw.everyDays) : NaN;
+      return Number.isInteger(everyDays) && everyDays >= 1 && everyDays <= MAX_INTERVAL_DAYS
+        ? { type: 'interval', everyDays }
+        : undefined;
+    }
+    default:
+      return undefined;
+  }
+};
+
+/** Drops series whose rule no longer parses, e.g. from a hand-edited or newer state file. */
+export const normalizeRecurringTasks = (raw?: RecurringTask[]): RecurringTask[] =>
+  (raw ?? []).flatMap((series) => {
+    const rule = normalizeRecurrenceRule(series.rule);
+    const { dueAt: _dueAt, ...details } = normalizeTaskDetails(series);
+    const startTime = series.startTime && START_TIME_PATTERN.test(series.startTime) ? series.startTime : undefined;
+    return rule ? [{ ...series, ...details, startTime, rule }] : [];
+  });
+
+export const matchesRecurrence = (series: Pick<RecurringTask, 'rule' | 'startDayKey'>, dayKey: string): boolean => {
+  const { rule } = series;
+  switch (rule.type) {
+    case 'daily':
+      return true;
+    case 'weekdays': {
+      const weekday = getWeekday(dayKey);
+      return weekday >= 1 && weekday <= 5;
+    }
+    case 'weekly':
+      return rule.days.includes(getWeekday(dayKey));
+    case 'interval': {
+      const offset = dayNumber(dayKey) - dayNumber(series.startDayKey);
+      return offset >= 0 && offset % rule.everyDays === 0;
+    }
+  }
+};
+
+/** "Every day", "Weekdays", "Weekly on Mon, Thu" or "Every 3 days". */
+export const describeRecurrence = (rule: RecurrenceRule): string => {
+  switch (rule.type) {
+    case 'daily':
+      return 'Every day';
+    case 'weekdays':
+      return 'Weekdays';
+    case 'weekly':
+      return `Weekly on ${rule.days.map((day) => WEEKDAY_LABELS[day]).join(', ')}`;
+    case 'interval':
+      return rule.everyDays === 1 ? 'Every day' : `Every ${rule.everyDays} days`;
+  }
+};
+
+export type SeriesTemplate = Pick<
+  RecurringTask,
+  'title' | 'timeAssignedSeconds' | 'needsEstimate' | 'startTime' | 'tags' | 'project' | 'notes' | 'subtasks' | 'priority'
+>;
+
+/**
+ * What each instance copies from the task a series was made from or last edited through. Every
+ * key is present, so spreading it over a series also clears fields the task no longer has.
+ * A deadline belongs to one day and a fixed start keeps only its wall-clock time.
+ */
+export const getSeriesTemplate = (task: Task, timeZone: string): SeriesTemplate => {
+  const start = task.scheduledStart ? getZonedParts(new Date(task.scheduledStart), timeZone) : undefined;
+  return {
+    title: task.title,
+    timeAssignedSeconds: task.timeAssignedSeconds,
+    needsEstimate: task.timeAssignedSeconds === undefined ? task.needsEstimate : undefined,
+    startTime: start ? `${String(start.hour).padStart(2, '0')}:${String(start.minute).padStart(2, '0')}` : undefined,
+    tags: task.tags,
+    project: task.project,
+    notes: task.notes,
+    subtasks: task.subtasks?.map((subtask) => ({ ...subtask, done: false })),
+    priority: task.priority
+  };
+};
+
+/**
+ * Starts a series from an existing task, which becomes its first instance; the next one is
+ * added on the following matching day. The series reuses the task's id.
+ */
+export const createRecurringTask = (
+  task: Task,
+  rule: RecurrenceRule,
+  dayKey: string,
+  now: string,
+  timeZone: string
+): RecurringTask => ({
+  id: task.id,
+  ...getSeriesTemplate(task, timeZone),
+  rule,
+  startDayKey: dayKey,
+  lastGeneratedDayKey: dayKey,
+  createdAt: now,
+  updatedAt: now
+});
+
+const getScheduledStart = (series: RecurringTask, dayKey: string, timeZone: string): string | undefined => {
+  const match = series.startTime ? START_TIME_PATTERN.exec(series.startTime) : null;
+  return match ? getZonedInstant(dayKey, Number(match[1]), Number(match[2]), timeZone).toISOString() : undefined;
+};
+
+const createInstance = (series: RecurringTask, dayKey: string, now: string, timeZone: string): Task => ({
+  id: `${series.id}:${dayKey}`,
+  title: series.title,
+  createdAt: now,
+  updatedAt: now,
+  timeAssignedSeconds: series.timeAssignedSeconds,
+  remainingSeconds: series.timeAssignedSeconds,
+  elapsedSeconds: series.timeAssignedSeconds === undefined && !series.needsEstimate ? 0 : undefined,
+  needsEstimate: series.needsEstimate,
+  scheduledStart: getScheduledStart(series, dayKey, timeZone),
+  tags: series.tags,
+  project: series.project,
+  notes: series.notes,
+  subtasks: series.subtasks?.map((subtask) => ({ ...subtask, done: false })),
+  priority: series.priority,
+  status: 'pending',
+  recurrenceId: series.id,
+  history: []
+});
+
+export interface GeneratedInstances {
+  recurring: RecurringTask[];
+  instances: Task[];
+}
+
+/**
+ * Adds today's instance of every series whose rule matches `dayKey`. Days the app was not
+ * opened on are skipped rather than caught up, and each series gets at most one instance a day.
+ */
+export const generateRecurringInstances = (
+  recurring: RecurringTask[],
+  dayKey: string,
+  now: string,
+  timeZone: string
+): GeneratedInstances => {
+  const instances: Task[] = [];
+  const next = recurring.map((series) => {
+    if (series.lastGeneratedDayKey >= dayKey || !matchesRecurrence(series, dayKey)) {
+      return series;
+    }
+    instances.push(createInstance(series, dayKey, now, timeZone));
+    return { ...series, lastGeneratedDayKey: dayKey };
+  });
+  return { recurring: instances.length > 0 ? next : recurring, instances };
+};
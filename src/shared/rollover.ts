@@ -0,0 +1,90 @@
+import { AppState, DaySummary, Task } from './types';
+import { addDays, getDayKey } from './dates';
+import { isBreakTask } from './pomodoro';
+import { generateRecurringInstances } from './recurrence';
+
+const isOpenTask = (task: Task): boolean => task.status !== 'completed' && task.status !== 'struck';
+
+const summarizeDay = (state: AppState, dayKey: string, scoreDelta: number, closedAt: Date): DaySummary => {
+  const finished = [...state.tasks, ...state.archive].filter(
+    (task) => !isOpenTask(task) && task.completedAt && getDayKey(new Date(task.completedAt), state.preferences) === dayKey
+  );
+  return {
+    dayKey,
+    completed: finished.filter((task) => task.status === 'completed').length,
+    struck: finished.filter((task) => task.status === 'struck').length,
+    scoreDelta,
+    overrunSeconds: finished.reduce(
+      (total, task) => total + task.history.reduce((sum, entry) => sum + (entry.overrunSeconds ?? 0), 0),
+      0
+    ),
+    unfinished: state.tasks.filter((task) => isOpenTask(task) && !isBreakTask(task)).length,
+    closedAt: closedAt.toISOString()
+  };
+};
+
+const getBookedScore = (state: AppState, dayKey: string): number =>
+  state.scoreLedger
+    .filter((entry) => getDayKey(new Date(entry.at), state.preferences) === dayKey)
+    .reduce((total, entry) => total + entry.delta, 0);
+
+/**
+ * One summary per day from the last open day up to today, newest first. Days the app stayed
+ * closed still get a summary (with whatever struck while it was closed), so history has no gaps.
+ */
+const summarizeDaysSince = (state: AppState, todayKey: string, closedAt: Date): DaySummary[] => {
+  const skipped: string[] = [];
+  for (let dayKey = addDays(state.rollover.dayKey, 1); dayKey < todayKey; dayKey = addDays(dayKey, 1)) {
+    skipped.push(dayKey);
+  }
+  const skippedSummaries = skipped.map((dayKey) => summarizeDay(state, dayKey, getBookedScore(state, dayKey), closedAt));
+  // The score moved on from the last open day's start, minus what was booked on the days after it.
+  const lastOpenScore =
+    state.score - state.rollover.dayStartScore - skippedSummaries.reduce((total, summary) => total + summary.scoreDelta, 0);
+  return [...skippedSummaries.reverse(), summarizeDay(state, state.rollover.dayKey, lastOpenScore, closedAt)];
+};
+
+/**
+ * Starts a new day once the day key changes: records the finished day(s), resets daily
+ * counters, brings rescheduled tasks back, adds today's recurring task instances and
+ * queues unfinished ones for a carry-over decision.
+ * Returns the same state object while the day is unchanged.
+ */
+export const applyDayRollover = (state: AppState, now: Date): AppState => {
+  const todayKey = getDayKey(now, state.preferences);
+  // Day keys sort as strings; never roll backwards (clock changes, a later day start hour).
+  if (state.rollover.dayKey && todayKey <= state.rollover.dayKey) {
+    return state;
+  }
+  const isFirstRun = !state.rollover.dayKey;
+  const returning = state.deferred.filter((task) => (task.deferredUntil ?? '') <= todayKey);
+  const generated = generateRecurringInstances(
+    state.recurring,
+    todayKey,
+    now.toISOString(),
+    state.preferences.timeZone
+  );
+  const tasks = [
+    ...state.tasks,
+    ...returning.map(({ deferredUntil: _deferredUntil, ...task }) => ({ ...task, updatedAt: now.toISOString() })),
+    ...generated.instances
+  ];
+  return {
+    ...state,
+    tasks,
+    deferred: state.deferred.filter((task) => !returning.includes(task)),
+    recurring: generated.recurring,
+    stats: {
+      ...state.stats,
+      todayCompleted: state.stats.lastCompletionDate === todayKey ? state.stats.todayCompleted : 0
+    },
+    dayHistory: isFirstRun ? state.dayHistory : [...summarizeDaysSince(state, todayKey, now), ...state.dayHistory],
+    rollover: {
+      dayKey: todayKey,
+      dayStartScore: state.score,
+      carryOverTaskIds: isFirstRun
+        ? []
+        : state.tasks.filter((task) => isOpenTask(task) && !isBreakTask(task)).map((task) => task.id)
+    }
+  };
+};
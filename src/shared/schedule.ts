@@ -0,0 +1,22 @@
+import { Task } from './types';
+
+const hasStarted = (task: Task): boolean =>
+  (task.sessions ?? []).length > 0 ||
+  (task.elapsedSeconds ?? 0) > 0 ||
+  (task.timeAssignedSeconds !== undefined &&
+    task.remainingSeconds !== undefined &&
+    task.remainingSeconds !== task.timeAssignedSeconds);
+
+/**
+ * A time-blocked task that has not been worked on yet. Once its clock has moved the task
+ * runs like any other, so pausing or reordering it later does not hold the queue again.
+ */
+export const isAwaitingSlot = (task: Task): boolean => Boolean(task.scheduledStart) && !hasStarted(task);
+
+/** True while the task's slot is still ahead; a held task at the head keeps the queue idle. */
+export const isHeldForSlot = (task: Task, now: Date): boolean =>
+  isAwaitingSlot(task) && Date.parse(task.scheduledStart as string) > now.getTime();
+
+/** Whole seconds until the slot opens, or 0 when the task is not held. */
+export const getSecondsUntilSlot = (task: Task, now: Date): number =>
+  isHeldForSlot(task, now) ? Math.ceil((Date.parse(task.scheduledStart as string) - now.getTime()) / 1000) : 0;
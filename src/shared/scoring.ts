@@ -0,0 +1,96 @@
+import { AppState, ScoreLedgerEntry, ScoreRule, ScoringRules } from './types';
+
+/** +2 for finishing early (+1 base, +1 bonus), +1 with overrun, +1 when the timer strikes, -1 per top-up. */
+export const DEFAULT_SCORING_RULES: ScoringRules = {
+  complete: 1,
+  earlyFinishBonus: 1,
+  earlyFinishPercent: 0,
+  overtime: 0,
+  strike: 1,
+  addTime: -1
+};
+
+const integerOr = (value: number | undefined, fallback: number): number =>
+  typeof value === 'number' && Number.isFinite(value) ? Math.round(value) : fallback;
+
+export const normalizeScoringRules = (raw?: Partial<ScoringRules>): ScoringRules => ({
+  complete: integerOr(raw?.complete, DEFAULT_SCORING_RULES.complete),
+  earlyFinishBonus: integerOr(raw?.earlyFinishBonus, DEFAULT_SCORING_RULES.earlyFinishBonus),
+  earlyFinishPercent: Math.min(100, Math.max(0, integerOr(raw?.earlyFinishPercent, DEFAULT_SCORING_RULES.earlyFinishPercent))),
+  overtime: integerOr(raw?.overtime, DEFAULT_SCORING_RULES.overtime),
+  strike: integerOr(raw?.strike, DEFAULT_SCORING_RULES.strike),
+  addTime: integerOr(raw?.addTime, DEFAULT_SCORING_RULES.addTime)
+});
+
+export type ScoreEvent =
+  | { type: 'complete'; assignedSeconds?: number; remainingSeconds: number; overrunSeconds: number }
+  | { type: 'strike' }
+  | { type: 'addTime' };
+
+export interface ScoreAward {
+  rule: ScoreRule;
+  delta: number;
+}
+
+// Stopwatch tasks have no estimate to beat, so finishing without overtime is enough.
+const isEarlyFinish = (rules: ScoringRules, assignedSeconds: number | undefined, remainingSeconds: number): boolean =>
+  rules.earlyFinishPercent <= 0 || !assignedSeconds || (remainingSeconds / assignedSeconds) * 100 >= rules.earlyFinishPercent;
+
+/** The rules an event triggers, in booking order. Rules worth 0 points are left out. */
+export const evaluateScoreEvent = (rules: ScoringRules, event: ScoreEvent): ScoreAward[] => {
+  const awards: ScoreAward[] = [];
+  switch (event.type) {
+    case 'complete':
+      awards.push({ rule: 'complete', delta: rules.complete });
+      if (event.overrunSeconds > 0) {
+        awards.push({ rule: 'overtime', delta: rules.overtime });
+      } else if (isEarlyFinish(rules, event.assignedSeconds, event.remainingSeconds)) {
+        awards.push({ rule: 'earlyFinishBonus', delta: rules.earlyFinishBonus });
+      }
+      break;
+    case 'strike':
+      awards.push({ rule: 'strike', delta: rules.strike });
+      break;
+    case 'addTime':
+      awards.push({ rule: 'addTime', delta: rules.addTime });
+      break;
+    default:
+      break;
+  }
+  return awards.filter((award) => award.delta !== 0);
+};
+
+export const sumScoreAwards = (awards: ScoreAward[]): number => awards.reduce((total, award) => total + award.delta, 0);
+
+/** Adds the awards to the score and books one ledger entry per award. */
+export const bookScoreAwards = (
+  state: Pick<AppState, 'score' | 'scoreLedger'>,
+  awards: ScoreAward[],
+  context: { action: string; taskId?: string; at: string }
+): Pick<AppState, 'score' | 'scoreLedger'> => {
+  if (awards.length === 0) {
+    return { score: state.score, scoreLedger: state.scoreLedger };
+  }
+  let balance = state.score;
+  const entries: ScoreLedgerEntry[] = awards.map((award) => {
+    balance += award.delta;
+    return { ...context, rule: award.rule, delta: award.delta, balance };
+  });
+  return { score: balance, scoreLedger: [...entries.reverse(), ...state.scoreLedger] };
+};
+
+/** The score the ledger adds up to; differs from `AppState.score` only if the two drifted apart. */
+export const getLedgerTotal = (ledger: ScoreLedgerEntry[]): number => ledger.reduce((total, entry) => total + entry.delta, 0);
+
+/** Seeds the ledger for a score that predates it, so the entries always add up to the total. */
+export const createOpeningBalance = (score: number, at: string): ScoreLedgerEntry[] =>
+  score !== 0 ? [{ at, action: 'migration', rule: 'openingBalance', delta: score, balance: score }] : [];
+
+/** "deduct 1 score point", "award 2 score points" or null for 0, for confirmation messages. */
+export const describeScoreChange = (delta: number): string | null => {
+  if (delta === 0) {
+    return null;
+  }
+  const points = Math.abs(delta);
+  return `${delta < 0 ? 'deduct' : 'award'} ${points} score point${points === 1 ? '' : 's'}`;
+};
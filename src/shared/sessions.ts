@@ -0,0 +1,88 @@
+import { Task, WorkSession, WorkSessionEnd } from './types';
+import { isBreakTask } from './pomodoro';
+import { isAwaitingSlot } from './schedule';
+
+const isOpenTask = (task: Task): boolean => task.status !== 'completed' && task.status !== 'struck';
+
+const isCounting = (task: Task): boolean => {
+  // A time-blocked task only counts once its slot has opened and the clock has moved.
+  if (isAwaitingSlot(task)) {
+    return false;
+  }
+  if (task.timeAssignedSeconds === undefined) {
+    return !task.needsEstimate;
+  }
+  return (task.remainingSeconds ?? task.timeAssignedSeconds) !== 0;
+};
+
+/** Id of the task whose clock is currently running, if any. Breaks are not work time. */
+export const getRunningTaskId = (tasks: Task[]): string | undefined => {
+  const active = tasks.find(isOpenTask);
+  if (!active || active.isPaused || isBreakTask(active) || !isCounting(active)) {
+    return undefined;
+  }
+  return active.id;
+};
+
+const hasOpenSession = (task: Task): boolean => {
+  const sessions = task.sessions ?? [];
+  return sessions.length > 0 && !sessions[sessions.length - 1].endedAt;
+};
+
+const closeSession = (task: Task, at: string, reason: WorkSessionEnd): Task => {
+  if (!hasOpenSession(task)) {
+    return task;
+  }
+  const sessions = [...(task.sessions ?? [])];
+  const last = sessions[sessions.length - 1];
+  sessions[sessions.length - 1] = { ...last, endedAt: at, endReason: reason };
+  return { ...task, sessions };
+};
+
+const openSession = (task: Task, at: string): Task => {
+  if (hasOpenSession(task)) {
+    return task;
+  }
+  const sessions = task.sessions ?? [];
+  const session: WorkSession = {
+    startedAt: at,
+    startReason: sessions.length > 0 ? 'resume' : 'start'
+  };
+  return { ...task, sessions: [...sessions, session] };
+};
+
+/**
+ * Closes the session of whichever task stopped running between `previous` and `next`
+ * and opens one for the task that took over.
+ */
+export const syncWorkSessions = (
+  previous: Task[],
+  next: Task[],
+  at: string,
+  reason: WorkSessionEnd
+): Task[] => {
+  const previousId = getRunningTaskId(previous);
+  const nextId = getRunningTaskId(next);
+  return next.map((task) => {
+    if (task.id === nextId) {
+      return openSession(task, at);
+    }
+    if (task.id === previousId || hasOpenSession(task)) {
+      return closeSession(task, at, reason);
+    }
+    return task;
+  });
+};
+
+export const closeOpenSessions = (tasks: Task[], at: string, reason: WorkSessionEnd): Task[] =>
+  tasks.map((task) => closeSession(task, at, reason));
+
+export const getSessionSeconds = (session: WorkSession, now: Date = new Date()): number => {
+  const start = new Date(session.startedAt).getTime();
+  const end = session.endedAt ? new Date(session.endedAt).getTime() : now.getTime();
+  return Math.max(0, Math.floor((end - start) / 1000));
+};
+
+/** Total time actually spent on the task according to its session log. */
+export const getTrackedSeconds = (task: Task, now: Date = new Date()): number =>
+  (task.sessions ?? []).reduce((total, session) => total + getSessionSeconds(session, now), 0);
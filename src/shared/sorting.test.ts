@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import { sortQueue } from './sorting';
+import { QueueSortStrategy, Task } from './types';
+
+const NOW = new Date('2026-03-10T09:00:00.000Z');
+
+const task = (id: string, extra: Partial<Task> = {}): Task => ({
+  id,
+  title: id,
+  createdAt: NOW.toISOString(),
+  updatedAt: NOW.toISOString(),
+  timeAssignedSeconds: 1800,
+  remainingSeconds: 1800,
+  status: 'pending',
+  history: [],
+  ...extra
+});
+
+// Ranked last under every strategy: lowest priority, longest, latest deadline.
+const laggard = (id: string, extra: Partial<Task> = {}) =>
+  task(id, { priority: 4, timeAssignedSeconds: 7200, remainingSeconds: 7200, dueAt: '2026-03-20T09:00:00.000Z', ...extra });
+
+// Ranked first under every strategy.
+const leader = (id: string) =>
+  task(id, { priority: 1, timeAssignedSeconds: 300, remainingSeconds: 300, dueAt: '2026-03-10T10:00:00.000Z' });
+
+const ids = (tasks: Task[]) => tasks.map((item) => item.id);
+
+const STRATEGIES: Exclude<QueueSortStrategy, 'manual'>[] = ['priority', 'shortest', 'deadline'];
+
+describe.each(STRATEGIES)('sortQueue by %s', (strategy) => {
+  it('moves open tasks behind the head into order', () => {
+    const tasks = [laggard('head', { status: 'in_progress' }), laggard('slow'), leader('fast')];
+    expect(ids(sortQueue(tasks, strategy, NOW))).toEqual(['head', 'fast', 'slow']);
+  });
+
+  it('keeps the running head in place', () => {
+    const tasks = [laggard('head', { status: 'in_progress' }), leader('fast')];
+    expect(sortQueue(tasks, strategy, NOW)).toBe(tasks);
+  });
+
+  it('lets a head still waiting for its slot move', () => {
+    const tasks = [laggard('held', { scheduledStart: '2026-03-10T12:00:00.000Z' }), leader('fast')];
+    expect(ids(sortQueue(tasks, strategy, NOW))).toEqual(['fast', 'held']);
+  });
+
+  it('keeps finished tasks and break rows where they are', () => {
+    const tasks = [
+      laggard('done', { status: 'completed' }),
+      laggard('head', { status: 'in_progress' }),
+      laggard('break', { kind: 'short_break', breakForTaskId: 'other' }),
+      laggard('slow'),
+      leader('fast')
+    ];
+    expect(ids(sortQueue(tasks, strategy, NOW))).toEqual(['done', 'head', 'break', 'fast', 'slow']);
+  });
+
+  it('keeps a task on a break right behind its break row', () => {
+    const tasks = [
+      task('break', { kind: 'short_break', breakForTaskId: 'work', status: 'in_progress', remainingSeconds: 300 }),
+      laggard('work'),
+      laggard('slow'),
+      leader('fast')
+    ];
+    expect(ids(sortQueue(tasks, strategy, NOW))).toEqual(['break', 'work', 'fast', 'slow']);
+  });
+
+  it('frees the task once its break is over', () => {
+    const tasks = [
+      task('break', { kind: 'short_break', breakForTaskId: 'work', status: 'completed', remainingSeconds: 0 }),
+      leader('head'),
+      laggard('work'),
+      leader('fast')
+    ];
+    expect(ids(sortQueue(tasks, strategy, NOW))).toEqual(['break', 'head', 'fast', 'work']);
+  });
+});
+
+describe('sortQueue by manual', () => {
+  it('leaves the queue alone', () => {
+    const tasks = [laggard('slow'), leader('fast')];
+    expect(sortQueue(tasks, 'manual', NOW)).toBe(tasks);
+  });
+});
@@ -0,0 +1,71 @@
+import { QueueSortStrategy, Task, TaskPriority } from './types';
+import { isBreakTask } from './pomodoro';
+import { isHeldForSlot } from './schedule';
+
+export const QUEUE_SORT_STRATEGIES: { id: QueueSortStrategy; label: string }[] = [
+  { id: 'manual', label: 'Manual order' },
+  { id: 'priority', label: 'Priority first' },
+  { id: 'shortest', label: 'Shortest first' },
+  { id: 'deadline', label: 'Deadline first' }
+];
+
+const LOWEST_PRIORITY: TaskPriority = 4;
+
+export const normalizeQueueSort = (value?: string): QueueSortStrategy =>
+  QUEUE_SORT_STRATEGIES.find((strategy) => strategy.id === value)?.id ?? 'manual';
+
+export const normalizePriority = (value?: number): TaskPriority | undefined =>
+  value === 1 || value === 2 || value === 3 || value === 4 ? value : undefined;
+
+const compareKeys = (a: number, b: number): number => (a === b ? 0 : a < b ? -1 : 1);
+
+const getPriorityKey = (task: Task): number => task.priority ?? LOWEST_PRIORITY;
+
+// Stopwatch tasks and tasks still waiting for an estimate have no known length and go last.
+const getLengthKey = (task: Task): number =>
+  task.timeAssignedSeconds === undefined ? Infinity : Math.max(0, task.remainingSeconds ?? task.timeAssignedSeconds);
+
+// A fixed start time is a deadline of sorts: the task has to be reached by then.
+const getDeadlineKey = (task: Task): number => {
+  const at = task.dueAt ?? task.scheduledStart;
+  return at ? Date.parse(at) : Infinity;
+};
+
+const byPriority = (a: Task, b: Task): number => compareKeys(getPriorityKey(a), getPriorityKey(b));
+
+// Ties fall back to priority, then to the current order (the sort is stable).
+const COMPARATORS: Record<Exclude<QueueSortStrategy, 'manual'>, (a: Task, b: Task) => number> = {
+  priority: byPriority,
+  shortest: (a, b) => compareKeys(getLengthKey(a), getLengthKey(b)) || byPriority(a, b),
+  deadline: (a, b) => compareKeys(getDeadlineKey(a), getDeadlineKey(b)) || byPriority(a, b)
+};
+
+const isOpenTask = (task: Task): boolean => task.status !== 'completed' && task.status !== 'struck';
+
+/**
+ * Orders the open tasks by `strategy`. Finished tasks and breaks keep their places, and so does
+ * the task at the head of the queue, so a re-sort never interrupts the timer; a time-blocked head
+ * still waiting for its slot is not running and may move. A task on a Pomodoro break stays right
+ * behind its break row so it resumes when the break ends. Returns `tasks` itself when nothing moves.
+ */
+export const sortQueue = (tasks: Task[], strategy: QueueSortStrategy, now: Date): Task[] => {
+  if (strategy === 'manual') {
+    return tasks;
+  }
+  const headIndex = tasks.findIndex(isOpenTask);
+  const onBreak = new Set(
+    tasks.filter((task) => isOpenTask(task) && isBreakTask(task)).map((task) => task.breakForTaskId)
+  );
+  const isPinned = (task: Task, index: number): boolean =>
+    !isOpenTask(task) ||
+    isBreakTask(task) ||
+    onBreak.has(task.id) ||
+    (index === headIndex && !isHeldForSlot(task, now));
+  const movable = tasks.filter((task, index) => !isPinned(task, index));
+  const sorted = [...movable].sort(COMPARATORS[strategy]);
+  if (sorted.every((task, index) => task === movable[index])) {
+    return tasks;
+  }
+  let next = 0;
+  return tasks.map((task, index) => (isPinned(task, index) ? task : sorted[next++]));
+};
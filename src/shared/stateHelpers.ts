@@ -1,8 +1,35 @@
 import { AppState, Task, TaskHistoryEntry } from './types';
+import {
+  DEFAULT_POMODORO_PREFERENCES,
+  isBreakTask,
+  normalizePomodoroPreferences,
+  secondsUntilBreak,
+  startBreakIfDue
+} from './pomodoro';
+import { closeOpenSessions } from './sessions';
+import { getSecondsUntilSlot } from './schedule';
+import { normalizeRecurringTasks } from './recurrence';
+import { normalizeTemplateGroups, normalizeTemplates } from './templates';
+import { normalizeQueueSort } from './sorting';
+import { CURRENT_SCHEMA_VERSION } from './migrations';
+import { DEFAULT_ARCHIVE_DELAY_MINUTES, archiveFinishedTasks } from './archive';
+import { DEFAULT_DAY_BOUNDARY, getDayKey, normalizeDayStartHour, normalizeTimeZone } from './dates';
+import { applyDayRollover } from './rollover';
+import { recordDailyStats } from './dailyStats';
+import { DEFAULT_SCORING_RULES, bookScoreAwards, evaluateScoreEvent, normalizeScoringRules, sumScoreAwards } from './scoring';
+import { EMPTY_STREAK, evaluateAchievements } from './achievements';
+import { DEFAULT_DAILY_GOAL, DEFAULT_WORKDAY_END_HOUR, normalizeDailyGoal, normalizeWorkdayEndHour } from './goals';
 
-const ISO_DATE_LENGTH = 10;
+const DAY_MS = 24 * 60 * 60 * 1000;
 
-export const toISODateKey = (value: Date): string => value.toISOString().slice(0, ISO_DATE_LENGTH);
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+
+/**
+ * Tasks without an assigned time run as a count-up stopwatch unless they are
+ * explicitly waiting for an estimate.
+ */
+export const isStopwatchTask = (task: Task): boolean =>
+  task.timeAssignedSeconds === undefined && !task.needsEstimate && !isBreakTask(task);
 
 const cloneTask = (task: Task): Task => ({
   ...task,
@@ -15,24 +42,54 @@ export const ensureTaskDefaults = (task: Task): Task => {
   if (next.timeAssignedSeconds !== undefined && typeof next.remainingSeconds !== 'number') {
     next.remainingSeconds = next.timeAssignedSeconds;
   }
+  if (isStopwatchTask(next) && typeof next.elapsedSeconds !== 'number') {
+    next.elapsedSeconds = 0;
+  }
   next.history = next.history.map((entry: TaskHistoryEntry) => ({ ...entry }));
   return next;
 };
 
 export const createEmptyState = (appVersion: string, now: Date = new Date()): AppState => ({
+  schemaVersion: CURRENT_SCHEMA_VERSION,
   score: 0,
+  scoreLedger: [],
   tasks: [],
+  trash: [],
+  archive: [],
+  deferred: [],
+  recurring: [],
   stats: {
     totalCompleted: 0,
     todayCompleted: 0,
+    totalOverrunSeconds: 0,
     lastCompletionDate: undefined
   },
+  rollover: {
+    dayKey: getDayKey(now, DEFAULT_DAY_BOUNDARY),
+    dayStartScore: 0,
+    carryOverTaskIds: []
+  },
+  dayHistory: [],
+  dailyStats: {},
+  streak: { ...EMPTY_STREAK },
+  achievements: [],
   meta: {
     lastSavedAt: now.toISOString(),
     appVersion
   },
   preferences: {
-    alwaysOnTop: true
+    alwaysOnTop: true,
+    overtime: false,
+    pomodoro: { ...DEFAULT_POMODORO_PREFERENCES },
+    trashRetentionDays: DEFAULT_TRASH_RETENTION_DAYS,
+    archiveDelayMinutes: DEFAULT_ARCHIVE_DELAY_MINUTES,
+    ...DEFAULT_DAY_BOUNDARY,
+    scoring: { ...DEFAULT_SCORING_RULES },
+    dailyGoal: { ...DEFAULT_DAILY_GOAL },
+    workdayEndHour: DEFAULT_WORKDAY_END_HOUR,
+    templates: [],
+    templateGroups: [],
+    queueSort: 'manual'
   }
 });
 
@@ -52,7 +109,8 @@ export const realignTaskStatuses = (tasks: Task[]): Task[] => {
     }
 
     const remaining = task.remainingSeconds ?? task.timeAssignedSeconds ?? 0;
-    const status = remaining > 0 ? 'in_progress' : 'pending';
+    // Negative remaining time means the task is running in overtime.
+    const status = remaining !== 0 || isStopwatchTask(task) ? 'in_progress' : 'pending';
     hasActive = true;
     return { ...task, status };
   });
@@ -61,11 +119,17 @@ export const realignTaskStatuses = (tasks: Task[]): Task[] => {
 interface AutoAdvanceResult {
   tasks: Task[];
   stats: AppState['stats'];
+  dailyStats: AppState['dailyStats'];
+  score: number;
+  scoreLedger: AppState['scoreLedger'];
 }
 
 const autoAdvance = (state: AppState, elapsedSeconds: number, now: Date): AutoAdvanceResult => {
-  const tasks = state.tasks.map(ensureTaskDefaults);
+  let tasks = state.tasks.map(ensureTaskDefaults);
   const stats = { ...state.stats };
+  let { dailyStats } = state;
+  let scoring: Pick<AppState, 'score' | 'scoreLedger'> = state;
+  const { pomodoro, overtime, scoring: rules } = state.preferences;
   let secondsRemaining = elapsedSeconds;
 
   while (secondsRemaining > 0) {
@@ -77,12 +141,71 @@ const autoAdvance = (state: AppState, elapsedSeconds: number, now: Date): AutoAd
     const task = { ...tasks[activeIndex] };
     const remaining = task.remainingSeconds ?? task.timeAssignedSeconds ?? 0;
 
-    if (remaining <= 0) {
+    // The queue sat idle until a time-blocked task's slot opened.
+    const idleSeconds = getSecondsUntilSlot(task, new Date(now.getTime() - secondsRemaining * 1000));
+    if (idleSeconds >= secondsRemaining) {
+      break;
+    }
+    secondsRemaining -= idleSeconds;
+
+    if (isStopwatchTask(task)) {
+      // The stopwatch kept counting while the app was closed.
+      const untilBreak = secondsUntilBreak(task, pomodoro);
+      const counted = Math.min(secondsRemaining, untilBreak);
+      secondsRemaining -= counted;
+      task.elapsedSeconds = (task.elapsedSeconds ?? 0) + counted;
+      if (pomodoro.enabled) {
+        task.pomodoroWorkedSeconds = (task.pomodoroWorkedSeconds ?? 0) + counted;
+      }
+      task.updatedAt = now.toISOString();
+      tasks[activeIndex] = task;
+      tasks = startBreakIfDue(tasks, activeIndex, pomodoro, now.toISOString());
+      continue;
+    }
+
+    const canRunOvertime = overtime && typeof task.timeAssignedSeconds === 'number' && !isBreakTask(task);
+
+    if (remaining <= 0 && !canRunOvertime) {
       // No timer for this task; stop auto-advancing.
       tasks[activeIndex] = task;
       break;
     }
 
+    if (isBreakTask(task)) {
+      if (secondsRemaining >= remaining) {
+        // Break ran out while the app was closed; drop it and carry on with the work task.
+        secondsRemaining -= remaining;
+        tasks.splice(activeIndex, 1);
+        continue;
+      }
+      task.remainingSeconds = remaining - secondsRemaining;
+      task.updatedAt = now.toISOString();
+      tasks[activeIndex] = task;
+      secondsRemaining = 0;
+      continue;
+    }
+
+    const untilBreak = secondsUntilBreak(task, pomodoro);
+    if (untilBreak < remaining && secondsRemaining >= untilBreak) {
+      secondsRemaining -= untilBreak;
+      task.remainingSeconds = remaining - untilBreak;
+      task.pomodoroWorkedSeconds = (task.pomodoroWorkedSeconds ?? 0) + untilBreak;
+      task.updatedAt = now.toISOString();
+      tasks[activeIndex] = task;
+      tasks = startBreakIfDue(tasks, activeIndex, pomodoro, now.toISOString());
+      continue;
+    }
+
+    if (canRunOvertime && secondsRemaining >= remaining) {
+      // The timer expired while the app was closed; keep the task active and count the overrun.
+      task.remainingSeconds = remaining - secondsRemaining;
+      task.updatedAt = now.toISOString();
+      task.status = 'in_progress';
+      tasks[activeIndex] = task;
+      secondsRemaining = 0;
+      continue;
+    }
+
     if (secondsRemaining >= remaining) {
       secondsRemaining -= remaining;
       const completionIso = now.toISOString();
@@ -98,7 +221,7 @@ const autoAdvance = (state: AppState, elapsedSeconds: number, now: Date): AutoAd
           at: completionIso
         }
       ];
-      const todayKey = toISODateKey(new Date(completionIso));
+      const todayKey = getDayKey(new Date(completionIso), state.preferences);
       if (stats.lastCompletionDate === todayKey) {
         stats.todayCompleted += 1;
       } else {
@@ -106,19 +229,45 @@ const autoAdvance = (state: AppState, elapsedSeconds: number, now: Date): AutoAd
         stats.lastCompletionDate = todayKey;
       }
       stats.totalCompleted += 1;
-  tasks[activeIndex] = task;
+      // Scored exactly like a strike during a tick, so closing the app does not dodge the rule.
+      const awards = evaluateScoreEvent(rules, { type: 'strike' });
+      scoring = bookScoreAwards(scoring, awards, { action: 'tick', taskId: task.id, at: completionIso });
+      dailyStats = recordDailyStats(dailyStats, completionIso, state.preferences, {
+        completed: 1,
+        auto: 1,
+        scoreDelta: sumScoreAwards(awards)
+      });
+      tasks[activeIndex] = task;
       continue;
     }
 
     const updatedRemaining = remaining - secondsRemaining;
     task.remainingSeconds = updatedRemaining;
+    if (pomodoro.enabled) {
+      task.pomodoroWorkedSeconds = (task.pomodoroWorkedSeconds ?? 0) + secondsRemaining;
+    }
     task.updatedAt = now.toISOString();
     task.status = 'in_progress';
     tasks[activeIndex] = task;
     secondsRemaining = 0;
   }
 
-  return { tasks: realignTaskStatuses(tasks), stats };
+  return { tasks: realignTaskStatuses(tasks), stats, dailyStats, score: scoring.score, scoreLedger: scoring.scoreLedger };
+};
+
+const normalizeRetentionDays = (value?: number): number =>
+  typeof value === 'number' && Number.isFinite(value) && value >= 1 ? Math.floor(value) : DEFAULT_TRASH_RETENTION_DAYS;
+
+const normalizeArchiveDelay = (value?: number): number =>
+  typeof value === 'number' && Number.isFinite(value) && value >= 0 ? Math.floor(value) : DEFAULT_ARCHIVE_DELAY_MINUTES;
+
+/** Drops trashed tasks whose retention period has run out. */
+export const purgeExpiredTrash = (trash: Task[], retentionDays: number, now: Date): Task[] => {
+  const cutoff = now.getTime() - retentionDays * DAY_MS;
+  return trash.filter((task) => {
+    const deletedAt = task.deletedAt ? new Date(task.deletedAt).getTime() : Number.NaN;
+    return Number.isNaN(deletedAt) || deletedAt > cutoff;
+  });
 };
 
 export const rehydrateState = (
@@ -126,20 +275,53 @@ export const rehydrateState = (
   appVersion: string,
   now: Date = new Date()
 ): AppState => {
+  const shutdownAt = rawState.meta?.lastSavedAt ?? now.toISOString();
+  const trashRetentionDays = normalizeRetentionDays(rawState.preferences?.trashRetentionDays);
+  const templates = normalizeTemplates(rawState.preferences?.templates);
   const baseState: AppState = {
+    schemaVersion: CURRENT_SCHEMA_VERSION,
     score: rawState.score ?? 0,
-    tasks: rawState.tasks ? rawState.tasks.map(ensureTaskDefaults) : [],
+    scoreLedger: rawState.scoreLedger ?? [],
+    // Sessions still open in the file were interrupted by the app closing.
+    tasks: rawState.tasks ? closeOpenSessions(rawState.tasks.map(ensureTaskDefaults), shutdownAt, 'shutdown') : [],
+    trash: purgeExpiredTrash((rawState.trash ?? []).map(ensureTaskDefaults), trashRetentionDays, now),
+    archive: (rawState.archive ?? []).map(ensureTaskDefaults),
+    deferred: (rawState.deferred ?? []).map(ensureTaskDefaults),
+    recurring: normalizeRecurringTasks(rawState.recurring),
     stats: {
       totalCompleted: rawState.stats?.totalCompleted ?? 0,
       todayCompleted: rawState.stats?.todayCompleted ?? 0,
+      totalOverrunSeconds: rawState.stats?.totalOverrunSeconds ?? 0,
       lastCompletionDate: rawState.stats?.lastCompletionDate
     },
+    // An empty day key makes the first rollover adopt today without recording a summary.
+    rollover: {
+      dayKey: rawState.rollover?.dayKey ?? '',
+      dayStartScore: rawState.rollover?.dayStartScore ?? rawState.score ?? 0,
+      carryOverTaskIds: rawState.rollover?.carryOverTaskIds ?? []
+    },
+    dayHistory: rawState.dayHistory ?? [],
+    dailyStats: rawState.dailyStats ?? {},
+    streak: rawState.streak ?? { ...EMPTY_STREAK },
+    achievements: rawState.achievements ?? [],
     meta: {
-      lastSavedAt: rawState.meta?.lastSavedAt ?? now.toISOString(),
+      lastSavedAt: shutdownAt,
       appVersion
     },
     preferences: {
-      alwaysOnTop: rawState.preferences?.alwaysOnTop ?? true
+      alwaysOnTop: rawState.preferences?.alwaysOnTop ?? true,
+      overtime: rawState.preferences?.overtime ?? false,
+      pomodoro: normalizePomodoroPreferences(rawState.preferences?.pomodoro),
+      trashRetentionDays,
+      archiveDelayMinutes: normalizeArchiveDelay(rawState.preferences?.archiveDelayMinutes),
+      dayStartHour: normalizeDayStartHour(rawState.preferences?.dayStartHour),
+      timeZone: normalizeTimeZone(rawState.preferences?.timeZone),
+      scoring: normalizeScoringRules(rawState.preferences?.scoring),
+      dailyGoal: normalizeDailyGoal(rawState.preferences?.dailyGoal),
+      workdayEndHour: normalizeWorkdayEndHour(rawState.preferences?.workdayEndHour),
+      templates,
+      templateGroups: normalizeTemplateGroups(rawState.preferences?.templateGroups, templates),
+      queueSort: normalizeQueueSort(rawState.preferences?.queueSort)
     }
   };
 
@@ -152,23 +334,35 @@ export const rehydrateState = (
     nextState = {
       ...baseState,
       tasks: auto.tasks,
-      stats: auto.stats
+      stats: auto.stats,
+      dailyStats: auto.dailyStats,
+      score: auto.score,
+      scoreLedger: auto.scoreLedger
     };
   }
 
+  nextState = evaluateAchievements(applyDayRollover(nextState, now), now.toISOString());
+  const archived = archiveFinishedTasks(nextState.tasks, nextState.archive, nextState.preferences, now);
+
   return {
     ...nextState,
-    tasks: realignTaskStatuses(nextState.tasks),
+    tasks: realignTaskStatuses(archived.tasks),
+    archive: archived.archive,
     meta: {
       lastSavedAt: now.toISOString(),
       appVersion
     },
     preferences: {
+      ...nextState.preferences,
       alwaysOnTop: nextState.preferences?.alwaysOnTop ?? true
     }
   };
 };
 
+/** Seconds the task ran past its estimate, as recorded when it was completed. */
+export const getTaskOverrunSeconds = (task: Task): number =>
+  task.history.reduce((total, entry) => total + (entry.overrunSeconds ?? 0), 0);
+
 export const ensureAlignedTasks = (tasks: Task[]): Task[] => {
   return realignTaskStatuses(tasks.map(ensureTaskDefaults));
 };
@@ -0,0 +1,79 @@
+import { Task } from './types';
+
+/** Splits "deep-work, #review ops" into unique lower-case tags without the '#'. */
+export const parseTags = (text: string): string[] =>
+  Array.from(
+    new Set(
+      text
+        .split(/[\s,]+/)
+        .map((tag) => tag.replace(/^#+/, '').trim().toLowerCase())
+        .filter(Boolean)
+    )
+  );
+
+export const formatTags = (tags?: string[]): string => (tags ?? []).map((tag) => `#${tag}`).join(' ');
+
+/** Lower-case project name without the leading '+', or undefined when blank. */
+export const normalizeProject = (text?: string): string | undefined => {
+  const project = text?.trim().replace(/^\++/, '').replace(/\s+/g, '-').toLowerCase();
+  return project ? project : undefined;
+};
+
+export interface TitleTokens {
+  title: string;
+  tags: string[];
+  project?: string;
+}
+
+// Names must start with a letter, so "Issue #42" and "+1" stay part of the title.
+const TOKEN_PATTERN = /(^|\s)([#+])(\p{L}[^\s#+]*)/gu;
+
+/**
+ * Pulls `#tag` and `+project` tokens out of a typed title, so "Fix login #bug +web" becomes
+ * "Fix login" tagged "bug" in project "web". The last project token wins. A title made only of
+ * tokens is kept as typed rather than left empty.
+ */
+export const parseTitleTokens = (text: string): TitleTokens => {
+  const tags: string[] = [];
+  let project: string | undefined;
+  const title = text
+    .replace(TOKEN_PATTERN, (_, lead: string, sigil: string, name: string) => {
+      if (sigil === '#') {
+        tags.push(name);
+      } else {
+        project = name;
+      }
+      return lead;
+    })
+    .replace(/\s+/g, ' ')
+    .trim();
+  if (!title) {
+    return { title: text.trim(), tags: [] };
+  }
+  return { title, tags: parseTags(tags.join(' ')), project: normalizeProject(project) };
+};
+
+export type TaskFilter = { kind: 'tag' | 'project'; value: string };
+
+export const matchesTaskFilter = (task: Task, filter: TaskFilter | null): boolean => {
+  if (!filter) {
+    return true;
+  }
+  return filter.kind === 'tag' ? (task.tags ?? []).includes(filter.value) : task.project === filter.value;
+};
+
+export const describeTaskFilter = (filter: TaskFilter): string =>
+  filter.kind === 'tag' ? `#${filter.value}` : `+${filter.value}`;
+
+/** Every project and tag used by the given tasks, sorted for a filter menu. */
+export const collectLabels = (tasks: Task[]): { projects: string[]; tags: string[] } => {
+  const projects = new Set<string>();
+  const tags = new Set<string>();
+  tasks.forEach((task) => {
+    if (task.project) {
+      projects.add(task.project);
+    }
+    (task.tags ?? []).forEach((tag) => tags.add(tag));
+  });
+  return { projects: Array.from(projects).sort(), tags: Array.from(tags).sort() };
+};
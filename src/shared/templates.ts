@@ -0,0 +1,53 @@
+import { TaskDetails, TaskTemplate, TemplateGroup } from './types';
+import { normalizeProject, parseTags } from './tags';
+import { normalizeSubtasks } from './checklist';
+import { normalizePriority } from './sorting';
+
+/** Drops empty fields so tasks created without the optional details stay free of them. */
+export const normalizeTaskDetails = (details?: TaskDetails): TaskDetails => {
+  const tags = parseTags((details?.tags ?? []).join(' '));
+  const notes = details?.notes?.trim();
+  const subtasks = normalizeSubtasks(details?.subtasks);
+  return {
+    tags: tags.length > 0 ? tags : undefined,
+    project: normalizeProject(details?.project),
+    notes: notes ? notes : undefined,
+    subtasks: subtasks.length > 0 ? subtasks : undefined,
+    priority: normalizePriority(details?.priority),
+    dueAt: details?.dueAt && !Number.isNaN(Date.parse(details.dueAt)) ? details.dueAt : undefined
+  };
+};
+
+export const normalizeTemplates = (raw?: TaskTemplate[]): TaskTemplate[] =>
+  (raw ?? [])
+    .filter((template) => typeof template?.id === 'string' && typeof template.title === 'string' && template.title.trim())
+    .map((template) => ({
+      id: template.id,
+      title: template.title.trim(),
+      seconds:
+        typeof template.seconds === 'number' && Number.isFinite(template.seconds) && template.seconds > 0
+          ? Math.floor(template.seconds)
+          : undefined,
+      ...normalizeTaskDetails(template)
+    }));
+
+/** Keeps only groups with a name, dropping references to templates that no longer exist. */
+export const normalizeTemplateGroups = (raw: TemplateGroup[] | undefined, templates: TaskTemplate[]): TemplateGroup[] => {
+  const known = new Set(templates.map((template) => template.id));
+  return (raw ?? [])
+    .filter((group) => typeof group?.id === 'string' && typeof group.name === 'string' && group.name.trim())
+    .map((group) => ({
+      id: group.id,
+      name: group.name.trim(),
+      templateIds: (group.templateIds ?? []).filter((id) => known.has(id))
+    }));
+};
+
+/** The group's templates in routine order; a template may appear more than once. */
+export const getGroupTemplates = (group: TemplateGroup, templates: TaskTemplate[]): TaskTemplate[] => {
+  const byId = new Map(templates.map((template) => [template.id, template]));
+  return group.templateIds.flatMap((id) => {
+    const template = byId.get(id);
+    return template ? [template] : [];
+  });
+};
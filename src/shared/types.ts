@@ -1,12 +1,24 @@
 export type TaskStatus = 'pending' | 'in_progress' | 'completed' | 'struck';
 export type TaskHistoryType = 'manual_complete' | 'auto_complete' | 'add_time';
+export type TaskKind = 'task' | 'short_break' | 'long_break';
 
 export interface TaskHistoryEntry {
   type: TaskHistoryType;
   amountSeconds?: number;
+  overrunSeconds?: number;
   at: string;
 }
 
+export type WorkSessionStart = 'start' | 'resume';
+export type WorkSessionEnd = 'pause' | 'stop' | 'reorder' | 'break' | 'shutdown';
+
+export interface WorkSession {
+  startedAt: string;
+  endedAt?: string;
+  startReason: WorkSessionStart;
+  endReason?: WorkSessionEnd;
+}
+
 export interface Task {
   id: string;
   title: string;
@@ -17,32 +29,277 @@ export interface Task {
   remainingSeconds?: number;
   status: TaskStatus;
   isPaused?: boolean;
+  elapsedSeconds?: number;
+  needsEstimate?: boolean;
+  kind?: TaskKind;
+  breakForTaskId?: string;
+  pomodoroWorkedSeconds?: number;
+  pomodoroIntervals?: number;
   history: TaskHistoryEntry[];
+  sessions?: WorkSession[];
+  /** Set while the task sits in the trash. */
+  deletedAt?: string;
+  /** Position in the queue when it was deleted, used to put it back. */
+  deletedIndex?: number;
+  /** Set once a finished task has moved from the queue to the archive. */
+  archivedAt?: string;
+  /** Day key (YYYY-MM-DD) a rescheduled task returns to the queue. */
+  deferredUntil?: string;
+  /** Fixed wall-clock start (ISO); the queue idles until then when the task comes up early. */
+  scheduledStart?: string;
+  /** Id of the recurring series this task is an instance of. */
+  recurrenceId?: string;
+  /** Lower-case, without the leading '#'. */
+  tags?: string[];
+  /** Lower-case, without the leading '+'. */
+  project?: string;
+  /** Markdown. */
+  notes?: string;
+  /** Ordered steps; ticking them off does not touch the timer. */
+  subtasks?: Subtask[];
+  /** 1 is the most urgent; unset sorts with 4. */
+  priority?: TaskPriority;
+  /** Deadline (ISO) used by the deadline-first ordering. */
+  dueAt?: string;
+}
+
+export type TaskPriority = 1 | 2 | 3 | 4;
+
+/** How the open tasks are ordered; anything but manual re-sorts as tasks are added or edited. */
+export type QueueSortStrategy = 'manual' | 'priority' | 'shortest' | 'deadline';
+
+export interface Subtask {
+  id: string;
+  title: string;
+  done: boolean;
+}
+
+/** Optional task fields set alongside the title and time when creating or editing a task. */
+export type TaskDetails = Pick<Task, 'tags' | 'project' | 'notes' | 'subtasks' | 'priority' | 'dueAt'>;
+
+/** A task blueprint that can be added to the queue in one click. */
+export interface TaskTemplate extends TaskDetails {
+  id: string;
+  title: string;
+  /** Default time limit; missing makes a stopwatch task. */
+  seconds?: number;
+}
+
+/** A routine: several templates added to the queue together, in order. */
+export interface TemplateGroup {
+  id: string;
+  name: string;
+  templateIds: string[];
 }
 
 export interface StatsSnapshot {
   totalCompleted: number;
   todayCompleted: number;
+  totalOverrunSeconds: number;
   lastCompletionDate?: string;
 }
 
+/** Per-day counters kept for trends; keyed by day key in AppState.dailyStats. */
+export interface DailyStats {
+  completed: number;
+  manual: number;
+  auto: number;
+  timeAssignedSeconds: number;
+  timeAddedSeconds: number;
+  scoreDelta: number;
+  /** Time a work task's clock was running; breaks and paused time are not counted. */
+  focusedSeconds: number;
+}
+
+/** Results of one finished day, recorded when the day rolls over. */
+export interface DaySummary {
+  dayKey: string;
+  completed: number;
+  struck: number;
+  scoreDelta: number;
+  overrunSeconds: number;
+  unfinished: number;
+  closedAt: string;
+}
+
+/** What a day needs for it to count towards the streak. */
+export interface DailyGoal {
+  unit: 'tasks' | 'minutes';
+  target: number;
+}
+
+export interface StreakState {
+  /** Consecutive goal days ending at `lastMetDayKey`. */
+  current: number;
+  longest: number;
+  lastMetDayKey: string;
+}
+
+export type AchievementId =
+  | 'first_task'
+  | 'tasks_10'
+  | 'tasks_100'
+  | 'tasks_500'
+  | 'streak_3'
+  | 'streak_7'
+  | 'streak_30'
+  | 'big_day'
+  | 'deep_work'
+  | 'on_time_25'
+  | 'score_100';
+
+export interface AchievementUnlock {
+  id: AchievementId;
+  unlockedAt: string;
+}
+
+/** Weekdays are 0 (Sunday) to 6 (Saturday). */
+export type RecurrenceRule =
+  | { type: 'daily' }
+  | { type: 'weekdays' }
+  | { type: 'weekly'; days: number[] }
+  | { type: 'interval'; everyDays: number };
+
+/** Template for a repeating task; the day rollover adds a fresh instance on each matching day. */
+export interface RecurringTask extends Omit<TaskDetails, 'dueAt'> {
+  id: string;
+  title: string;
+  timeAssignedSeconds?: number;
+  needsEstimate?: boolean;
+  /** Wall-clock "HH:MM" (configured zone) each instance is time-blocked for. */
+  startTime?: string;
+  rule: RecurrenceRule;
+  /** Day key the series started on; `interval` rules count from here. */
+  startDayKey: string;
+  /** Last day key an instance was added for. */
+  lastGeneratedDayKey: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface RolloverState {
+  dayKey: string;
+  dayStartScore: number;
+  /** Unfinished tasks from the previous day still waiting for a carry-over decision. */
+  carryOverTaskIds: string[];
+}
+
+export type CarryOverChoice = 'carry' | 'reschedule' | 'drop';
+
+export interface CarryOverDecision {
+  taskId: string;
+  choice: CarryOverChoice;
+  /** Day key the task returns on when rescheduled. */
+  until?: string;
+}
+
+/** Points booked per scoring event; negative values are penalties. */
+export interface ScoringRules {
+  /** Completing a task by hand. */
+  complete: number;
+  /** Extra points for completing before the timer ran out. */
+  earlyFinishBonus: number;
+  /** Share of the estimate (0-100) that must still be left to earn the bonus; 0 means any time left. */
+  earlyFinishPercent: number;
+  /** Completing a task that ran into overtime. */
+  overtime: number;
+  /** The timer running out and striking the task. */
+  strike: number;
+  /** Adding time to a task that already had an estimate. */
+  addTime: number;
+}
+
+export type ScoreRule = Exclude<keyof ScoringRules, 'earlyFinishPercent'> | 'openingBalance';
+
+/** One change to the score, kept so the total can be audited. */
+export interface ScoreLedgerEntry {
+  at: string;
+  /** Reducer action that caused the change. */
+  action: string;
+  taskId?: string;
+  rule: ScoreRule;
+  delta: number;
+  /** Score after this entry was booked. */
+  balance: number;
+}
+
 export interface MetaState {
   lastSavedAt: string;
   appVersion: string;
 }
 
+export interface PomodoroPreferences {
+  enabled: boolean;
+  workSeconds: number;
+  shortBreakSeconds: number;
+  longBreakSeconds: number;
+  longBreakEvery: number;
+}
+
 export interface PreferencesState {
   alwaysOnTop: boolean;
+  overtime: boolean;
+  pomodoro: PomodoroPreferences;
+  trashRetentionDays: number;
+  archiveDelayMinutes: number;
+  dayStartHour: number;
+  /** IANA zone used for every daily boundary; empty follows the system zone. */
+  timeZone: string;
+  scoring: ScoringRules;
+  dailyGoal: DailyGoal;
+  /** Hour (1-24, wall clock) the working day ends, used to check whether the queue still fits. */
+  workdayEndHour: number;
+  templates: TaskTemplate[];
+  templateGroups: TemplateGroup[];
+  queueSort: QueueSortStrategy;
 }
 
 export interface AppState {
+  schemaVersion: number;
   score: number;
+  /** Newest first. */
+  scoreLedger: ScoreLedgerEntry[];
   tasks: Task[];
+  trash: Task[];
+  archive: Task[];
+  deferred: Task[];
+  recurring: RecurringTask[];
   stats: StatsSnapshot;
+  rollover: RolloverState;
+  dayHistory: DaySummary[];
+  dailyStats: Record<string, DailyStats>;
+  streak: StreakState;
+  achievements: AchievementUnlock[];
   meta: MetaState;
   preferences: PreferencesState;
 }
 
+export type BackupKind = 'hourly' | 'daily' | 'pre-restore';
+
+export interface BackupInfo {
+  id: string;
+  kind: BackupKind;
+  createdAt: string;
+  sizeBytes: number;
+}
+
+export interface JournalEntry {
+  at: string;
+  type: string;
+  payload?: unknown;
+  /** The task an action without a payload was aimed at, so a replay can tell if it still applies. */
+  taskId?: string;
+}
+
+export interface StateRecoveryIssue {
+  detectedAt: string;
+  message: string;
+  quarantinedPath: string;
+  backupAvailable: boolean;
+}
+
+export type StateRecoveryChoice = { kind: 'backup' } | { kind: 'import'; contents: string } | { kind: 'fresh' };
+
 export interface WindowState {
   isMaximized: boolean;
 }
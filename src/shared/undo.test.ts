@@ -0,0 +1,118 @@
+import { describe, expect, it } from 'vitest';
+import { applyUndoPatch, createUndoPatch } from './undo';
+import { createEmptyState } from './stateHelpers';
+import { AppState, Task } from './types';
+
+const NOW = '2026-03-10T09:00:00.000Z';
+const LATER = '2026-03-10T09:05:00.000Z';
+
+const task = (id: string, extra: Partial<Task> = {}): Task => ({
+  id,
+  title: id,
+  createdAt: NOW,
+  updatedAt: NOW,
+  timeAssignedSeconds: 600,
+  remainingSeconds: 600,
+  status: 'pending',
+  history: [],
+  ...extra
+});
+
+const stateWith = (tasks: Task[]): AppState => ({ ...createEmptyState('1.0.0', new Date(NOW)), tasks });
+
+describe('delete to trash', () => {
+  const before = stateWith([task('a', { status: 'in_progress' }), task('b'), task('c')]);
+  const after: AppState = {
+    ...before,
+    tasks: [before.tasks[0], before.tasks[2]],
+    trash: [{ ...before.tasks[1], deletedAt: NOW }]
+  };
+  const patch = createUndoPatch(before, after, 'deleteTask', NOW);
+
+  it('puts the task back in its old place and empties the trash', () => {
+    const undone = applyUndoPatch(after, patch, 'before', LATER);
+    expect(undone.tasks.map((item) => item.id)).toEqual(['a', 'b', 'c']);
+    expect(undone.trash).toEqual([]);
+    expect(undone.tasks[1].deletedAt).toBeUndefined();
+  });
+
+  it('moves it to the trash again on redo', () => {
+    const redone = applyUndoPatch(applyUndoPatch(after, patch, 'before', LATER), patch, 'after', LATER);
+    expect(redone.tasks.map((item) => item.id)).toEqual(['a', 'c']);
+    expect(redone.trash.map((item) => item.id)).toEqual(['b']);
+    expect(redone.trash[0].deletedAt).toBe(NOW);
+  });
+});
+
+describe('manualComplete', () => {
+  const before: AppState = {
+    ...stateWith([task('a', { status: 'in_progress', remainingSeconds: 120 }), task('b')]),
+    streak: { current: 2, longest: 4, lastMetDayKey: '2026-03-09' }
+  };
+  const after: AppState = {
+    ...before,
+    tasks: [
+      { ...before.tasks[0], status: 'completed', remainingSeconds: 0, completedAt: NOW },
+      { ...before.tasks[1], status: 'in_progress' }
+    ],
+    score: 2,
+    scoreLedger: [{ at: NOW, action: 'manualComplete', taskId: 'a', rule: 'complete', delta: 2, balance: 2 }],
+    stats: { totalCompleted: 1, todayCompleted: 1, totalOverrunSeconds: 0, lastCompletionDate: NOW },
+    dailyStats: {
+      '2026-03-10': {
+        completed: 1,
+        manual: 1,
+        auto: 0,
+        timeAssignedSeconds: 600,
+        timeAddedSeconds: 0,
+        scoreDelta: 2,
+        focusedSeconds: 0
+      }
+    },
+    streak: { current: 3, longest: 4, lastMetDayKey: '2026-03-10' }
+  };
+  const patch = createUndoPatch(before, after, 'manualComplete', NOW);
+  const undone = applyUndoPatch(after, patch, 'before', LATER);
+
+  it('reopens the task with the time it had left', () => {
+    expect(undone.tasks[0]).toMatchObject({ status: 'in_progress', remainingSeconds: 120 });
+    expect(undone.tasks[0].completedAt).toBeUndefined();
+    expect(undone.tasks[1].status).toBe('pending');
+  });
+
+  it('books the reverse award instead of dropping the ledger entry', () => {
+    expect(undone.score).toBe(0);
+    expect(undone.scoreLedger.map(({ action, delta }) => ({ action, delta }))).toEqual([
+      { action: 'undo', delta: -2 },
+      { action: 'manualComplete', delta: 2 }
+    ]);
+  });
+
+  it('takes back the stats, the day row and the streak', () => {
+    expect(undone.stats).toEqual(before.stats);
+    expect(undone.dailyStats['2026-03-10']).toMatchObject({ completed: 0, manual: 0, timeAssignedSeconds: 0, scoreDelta: 0 });
+    expect(undone.streak).toEqual(before.streak);
+  });
+
+  it('leaves a streak that moved on since then alone', () => {
+    const moved = { current: 4, longest: 4, lastMetDayKey: '2026-03-11' };
+    expect(applyUndoPatch({ ...after, streak: moved }, patch, 'before', LATER).streak).toEqual(moved);
+  });
+});
+
+describe('counter fields', () => {
+  const before = stateWith([task('a', { status: 'in_progress', remainingSeconds: 300 }), task('b')]);
+  const after = stateWith([{ ...before.tasks[0], remainingSeconds: 900, timeAssignedSeconds: 1200 }, before.tasks[1]]);
+  const patch = createUndoPatch(before, after, 'addTime', NOW);
+
+  it('takes back only the added time from a timer that kept running', () => {
+    const ticked = stateWith([{ ...after.tasks[0], remainingSeconds: 840 }, after.tasks[1]]);
+    const undone = applyUndoPatch(ticked, patch, 'before', LATER);
+    expect(undone.tasks[0]).toMatchObject({ remainingSeconds: 240, timeAssignedSeconds: 600, status: 'in_progress' });
+  });
+
+  it('does not push a timer into overtime it never ran', () => {
+    const ticked = stateWith([{ ...after.tasks[0], remainingSeconds: 100 }, after.tasks[1]]);
+    expect(applyUndoPatch(ticked, patch, 'before', LATER).tasks[0].remainingSeconds).toBe(0);
+  });
+});
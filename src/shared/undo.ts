@@ -0,0 +1,291 @@
+import { AppState, DailyStats, ScoreRule, StatsSnapshot, Task } from './types';
+import { bookScoreAwards } from './scoring';
+import { closeOpenSessions } from './sessions';
+
+type Keyed = { id: string };
+type CollectionKey = 'tasks' | 'trash' | 'archive' | 'deferred' | 'recurring';
+
+const COLLECTION_KEYS: CollectionKey[] = ['tasks', 'trash', 'archive', 'deferred', 'recurring'];
+
+// Session logs are history and updatedAt is bookkeeping; neither is part of what an action undoes.
+const IGNORED_FIELDS: ReadonlySet<string> = new Set(['sessions', 'updatedAt']);
+// Clock fields keep running between an action and its undo, so only the action's own change is reverted.
+const COUNTER_FIELDS: ReadonlySet<string> = new Set(['remainingSeconds', 'elapsedSeconds', 'pomodoroWorkedSeconds']);
+type StatsCounter = Exclude<keyof StatsSnapshot, 'lastCompletionDate'>;
+const STATS_COUNTERS: StatsCounter[] = ['totalCompleted', 'todayCompleted', 'totalOverrunSeconds'];
+
+export type UndoSide = 'before' | 'after';
+
+/** One record the action added, removed or changed; null means it was absent on that side. */
+interface RecordChange {
+  id: string;
+  before: Record<string, unknown> | null;
+  after: Record<string, unknown> | null;
+}
+
+interface CollectionPatch {
+  changes: RecordChange[];
+  order: { before: string[]; after: string[] };
+  /** Whether the action moved records relative to each other, not just added or removed some. */
+  reordered: boolean;
+}
+
+/**
+ * The effect of one undoable action, recorded as the fields it changed rather than a copy
+ * of the state, so undoing it leaves running timers, later scoring and rollovers alone.
+ */
+export interface UndoPatch {
+  action: string;
+  at: string;
+  collections: Partial<Record<CollectionKey, CollectionPatch>>;
+  /** Ledger entries the action booked; undo books the reverse. */
+  awards: { rule: ScoreRule; delta: number; taskId?: string }[];
+  stats: Partial<Record<StatsCounter, number>>;
+  lastCompletionDate?: { before?: string; after?: string };
+  dailyStats: Record<string, Partial<DailyStats>>;
+  streak?: { before: AppState['streak']; after: AppState['streak'] };
+}
+
+const isSameValue = (a: unknown, b: unknown): boolean =>
+  a === b || (typeof a === 'object' && typeof b === 'object' && JSON.stringify(a) === JSON.stringify(b));
+
+const diffRecord = (before: Keyed, after: Keyed): RecordChange | null => {
+  const previous = before as unknown as Record<string, unknown>;
+  const next = after as unknown as Record<string, unknown>;
+  const changedBefore: Record<string, unknown> = {};
+  const changedAfter: Record<string, unknown> = {};
+  let changed = false;
+  new Set([...Object.keys(previous), ...Object.keys(next)]).forEach((field) => {
+    if (IGNORED_FIELDS.has(field) || isSameValue(previous[field], next[field])) {
+      return;
+    }
+    changedBefore[field] = previous[field];
+    changedAfter[field] = next[field];
+    changed = true;
+  });
+  return changed ? { id: before.id, before: changedBefore, after: changedAfter } : null;
+};
+
+const hasOrderChanged = (before: string[], after: string[]): boolean => {
+  const shared = new Set(after);
+  const kept = before.filter((id) => shared.has(id));
+  const present = new Set(kept);
+  return kept.join('\n') !== after.filter((id) => present.has(id)).join('\n');
+};
+
+const diffCollection = (before: Keyed[], after: Keyed[]): CollectionPatch | undefined => {
+  if (before === after) {
+    return undefined;
+  }
+  const afterById = new Map(after.map((record) => [record.id, record]));
+  const beforeIds = new Set(before.map((record) => record.id));
+  const changes: RecordChange[] = [];
+  before.forEach((record) => {
+    const next = afterById.get(record.id);
+    if (!next) {
+      changes.push({ id: record.id, before: { ...record }, after: null });
+      return;
+    }
+    const change = diffRecord(record, next);
+    if (change) {
+      changes.push(change);
+    }
+  });
+  after
+    .filter((record) => !beforeIds.has(record.id))
+    .forEach((record) => changes.push({ id: record.id, before: null, after: { ...record } }));
+  const order = { before: before.map((record) => record.id), after: after.map((record) => record.id) };
+  const reordered = hasOrderChanged(order.before, order.after);
+  return changes.length > 0 || reordered ? { changes, order, reordered } : undefined;
+};
+
+const diffDailyStats = (before: AppState['dailyStats'], after: AppState['dailyStats']): UndoPatch['dailyStats'] => {
+  const deltas: UndoPatch['dailyStats'] = {};
+  if (before === after) {
+    return deltas;
+  }
+  Object.entries(after).forEach(([dayKey, row]) => {
+    const previous = before[dayKey];
+    const delta: Partial<DailyStats> = {};
+    (Object.keys(row) as (keyof DailyStats)[]).forEach((field) => {
+      const change = row[field] - (previous?.[field] ?? 0);
+      if (change !== 0) {
+        delta[field] = change;
+      }
+    });
+    if (Object.keys(delta).length > 0) {
+      deltas[dayKey] = delta;
+    }
+  });
+  return deltas;
+};
+
+// The ledger is newest first, so whatever the action booked sits in front of the old entries.
+const getBookedEntries = (before: AppState['scoreLedger'], after: AppState['scoreLedger']) => {
+  const added = after.length - before.length;
+  if (added <= 0 || (before.length > 0 && after[added] !== before[0])) {
+    return [];
+  }
+  return after.slice(0, added).map(({ rule, delta, taskId }) => ({ rule, delta, taskId }));
+};
+
+/** Records what `action` changed between the two states. */
+export const createUndoPatch = (before: AppState, after: AppState, action: string, at: string): UndoPatch => {
+  const collections: UndoPatch['collections'] = {};
+  COLLECTION_KEYS.forEach((key) => {
+    const patch = diffCollection(before[key], after[key]);
+    if (patch) {
+      collections[key] = patch;
+    }
+  });
+  const stats: UndoPatch['stats'] = {};
+  STATS_COUNTERS.forEach((field) => {
+    const change = after.stats[field] - before.stats[field];
+    if (change !== 0) {
+      stats[field] = change;
+    }
+  });
+  return {
+    action,
+    at,
+    collections,
+    awards: getBookedEntries(before.scoreLedger, after.scoreLedger),
+    stats,
+    lastCompletionDate:
+      before.stats.lastCompletionDate !== after.stats.lastCompletionDate
+        ? { before: before.stats.lastCompletionDate, after: after.stats.lastCompletionDate }
+        : undefined,
+    dailyStats: diffDailyStats(before.dailyStats, after.dailyStats),
+    streak: before.streak !== after.streak ? { before: before.streak, after: after.streak } : undefined
+  };
+};
+
+const opposite = (side: UndoSide): UndoSide => (side === 'before' ? 'after' : 'before');
+
+const applyFields = (live: Record<string, unknown>, from: Record<string, unknown>, to: Record<string, unknown>) => {
+  const next = { ...live };
+  Object.keys(to).forEach((field) => {
+    const target = to[field];
+    const source = from[field];
+    const current = live[field];
+    if (COUNTER_FIELDS.has(field) && typeof target === 'number' && typeof source === 'number' && typeof current === 'number') {
+      const shifted = current + target - source;
+      // Putting back time on a timer must not push it into overtime it never ran.
+      next[field] = target >= 0 && shifted < 0 ? 0 : shifted;
+    } else {
+      next[field] = target;
+    }
+  });
+  return next;
+};
+
+// Puts the records named in `order` into that relative order, inside the slots they already fill.
+const arrangeLike = <T extends Keyed>(records: T[], order: string[]): T[] => {
+  const rank = new Map(order.map((id, index) => [id, index]));
+  const ranked = records.filter((record) => rank.has(record.id)).sort((a, b) => (rank.get(a.id) ?? 0) - (rank.get(b.id) ?? 0));
+  let cursor = 0;
+  return records.map((record) => (rank.has(record.id) ? ranked[cursor++] : record));
+};
+
+const insertLike = <T extends Keyed>(records: T[], record: T, order: string[]): T[] => {
+  const position = order.indexOf(record.id);
+  for (let index = position - 1; index >= 0; index -= 1) {
+    const anchor = records.findIndex((candidate) => candidate.id === order[index]);
+    if (anchor !== -1) {
+      return [...records.slice(0, anchor + 1), record, ...records.slice(anchor + 1)];
+    }
+  }
+  return [record, ...records];
+};
+
+const applyCollection = <T extends Keyed>(
+  live: T[],
+  patch: CollectionPatch,
+  side: UndoSide,
+  revive: (record: T) => T
+): T[] => {
+  const from = opposite(side);
+  const order = patch.order[side];
+  let records = [...live];
+  patch.changes.forEach((change) => {
+    const target = change[side];
+    const source = change[from];
+    const index = records.findIndex((record) => record.id === change.id);
+    if (!target) {
+      records = index === -1 ? records : records.filter((_, position) => position !== index);
+    } else if (!source) {
+      const record = revive(target as unknown as T);
+      records = index === -1 ? insertLike(records, record, order) : records.map((item, position) => (position === index ? record : item));
+    } else if (index !== -1) {
+      records[index] = applyFields(records[index] as unknown as Record<string, unknown>, source, target) as unknown as T;
+    }
+  });
+  return patch.reordered ? arrangeLike(records, order) : records;
+};
+
+const applyDailyStats = (table: AppState['dailyStats'], deltas: UndoPatch['dailyStats'], sign: number): AppState['dailyStats'] => {
+  const entries = Object.entries(deltas);
+  if (entries.length === 0) {
+    return table;
+  }
+  const next = { ...table };
+  entries.forEach(([dayKey, delta]) => {
+    const row = { ...next[dayKey] };
+    (Object.keys(delta) as (keyof DailyStats)[]).forEach((field) => {
+      row[field] = (row[field] ?? 0) + sign * (delta[field] ?? 0);
+    });
+    next[dayKey] = row as DailyStats;
+  });
+  return next;
+};
+
+/**
+ * Moves the state to the `side` of the patch: 'before' undoes the action, 'after' redoes it.
+ * Score changes are booked as new ledger entries so the ledger still adds up.
+ */
+export const applyUndoPatch = (state: AppState, patch: UndoPatch, side: UndoSide, now: string): AppState => {
+  const sign = side === 'before' ? -1 : 1;
+  // A task moving between lists keeps the session log it has now; one coming back from nowhere has its log closed.
+  const liveSessions = new Map<string, Task['sessions']>();
+  [state.tasks, state.trash, state.archive, state.deferred].forEach((tasks) =>
+    tasks.forEach((task) => liveSessions.set(task.id, task.sessions))
+  );
+  const reviveTask = (task: Task): Task =>
+    liveSessions.has(task.id) ? { ...task, sessions: liveSessions.get(task.id) } : closeOpenSessions([task], patch.at, 'stop')[0];
+
+  const next: AppState = { ...state };
+  COLLECTION_KEYS.forEach((key) => {
+    const collection = patch.collections[key];
+    if (!collection) {
+      return;
+    }
+    if (key === 'recurring') {
+      next.recurring = applyCollection(state.recurring, collection, side, (series) => series);
+    } else {
+      next[key] = applyCollection(state[key], collection, side, reviveTask);
+    }
+  });
+
+  let scoring: Pick<AppState, 'score' | 'scoreLedger'> = next;
+  const action = side === 'before' ? 'undo' : 'redo';
+  patch.awards.forEach(({ rule, delta, taskId }) => {
+    scoring = bookScoreAwards(scoring, [{ rule, delta: sign * delta }], { action, taskId, at: now });
+  });
+  next.score = scoring.score;
+  next.scoreLedger = scoring.scoreLedger;
+
+  const stats = { ...state.stats };
+  STATS_COUNTERS.forEach((field) => {
+    stats[field] = Math.max(0, stats[field] + sign * (patch.stats[field] ?? 0));
+  });
+  // Leave the date alone if something after the action already moved it on.
+  if (patch.lastCompletionDate && stats.lastCompletionDate === patch.lastCompletionDate[opposite(side)]) {
+    stats.lastCompletionDate = patch.lastCompletionDate[side];
+  }
+  next.stats = stats;
+  next.dailyStats = applyDailyStats(state.dailyStats, patch.dailyStats, sign);
+  if (patch.streak && isSameValue(state.streak, patch.streak[opposite(side)])) {
+    next.streak = patch.streak[side];
+  }
+  return next;
+};